@@ -23,6 +23,40 @@ export interface MethodHelpers {
     logPrefix?: string;
 }
 
+export interface ProfileOptions {
+    /**
+     * Where the trace records are written. This is either `"logger"`, to write them to the script log,
+     * or the name of a stream thing to which they are added as stream entries. Defaults to `"logger"`.
+     */
+    sink?: string;
+
+    /**
+     * When the records are written to the script log, the level at which they are written. Defaults to `"info"`.
+     */
+    logLevel?: 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+    /**
+     * When enabled, only the services and subscriptions that have the `@traced` decorator applied, either directly
+     * or to their class, are instrumented. Otherwise, all services and subscriptions except those marked as `@untraced`
+     * are instrumented.
+     */
+    tracedOnly?: boolean;
+}
+
+export interface RhinoCompatibilityOptions {
+    /**
+     * The names of the features that should not be reported, such as `"Array.prototype.includes"` or `"Arrow functions"`.
+     */
+    allow?: string[];
+
+    /**
+     * When enabled, the builtin functions that have a polyfill, such as `Object.entries` or `String.prototype.padStart`,
+     * are declared as local functions in the services and subscriptions that use them instead of being reported, and
+     * the code is changed to use those functions. Builtin objects and prototypes are not modified.
+     */
+    polyfills?: boolean;
+}
+
 /**
  * The interface for the `twconfig.json` file that contains options
  * specific to a thingworx project.
@@ -74,9 +108,29 @@ export interface TWConfig {
 
     /**
      * When enabled, global function declarations are permitted and any service that references a global function will
-     * gain a copy of it.
+     * gain a copy of it. Functions can also be declared in modules and imported via `import` statements, in which case
+     * their copies are renamed to include the module's path.
+     *
+     * When set to `"library"`, the global functions of each project are instead compiled once into a `<ProjectName>.GlobalFunctions`
+     * thing that defines them in a global code block when it starts, and services call them through that library. This has
+     * no effect in debug and coverage builds, where functions are always copied into the services and, when diagnostics
+     * are collected, a warning is reported instead.
      */
-    globalFunctions?: boolean;
+    globalFunctions?: boolean | 'library';
+
+    /**
+     * When enabled, values imported from npm packages in thing files, such as `import { debounce } from "lodash-es"`,
+     * are bundled into the services and subscriptions that use them, after being converted to ES5. ES modules are tree shaken,
+     * so only the code that the imported exports depend on is included. Commonjs modules are included whole.
+     */
+    bundleDependencies?: boolean;
+
+    /**
+     * When enabled, services and subscriptions, together with the global functions, helper methods and npm package code they use,
+     * are checked for builtins and syntax that may not be supported by the Rhino engine, such as `Map`, `Promise` or `Object.entries`.
+     * Can be set to `true` or to an object that specifies which features are allowed and whether polyfills are added.
+     */
+    rhinoCompatibility?: boolean | RhinoCompatibilityOptions;
 
     /**
      * The minimum thingworx version on which the project may be installed.
@@ -113,6 +167,33 @@ export interface TWConfig {
      */
     debug?: boolean;
 
+    /**
+     * A flag that, when enabled, will cause a coverage build to be generated, in which services
+     * and subscriptions count how many times each of their statements is executed.
+     *
+     * This has no effect in debug builds.
+     */
+    coverage?: boolean;
+
+    /**
+     * When enabled, services and subscriptions record their entry, exit, duration, arguments and thrown errors.
+     * The values of `PASSWORD` parameters are redacted. Can be set to `true` or to an object that specifies
+     * where the records are written and which methods are instrumented.
+     */
+    profile?: boolean | ProfileOptions;
+
+    /**
+     * A flag that, when enabled, will cause the transformer to generate a source map for each service and
+     * subscription, which can be used to find the typescript location of the errors reported by thingworx.
+     */
+    sourceMaps?: boolean;
+
+    /**
+     * A flag that, when enabled, will cause the transformer to collect all of the errors it encounters
+     * into the `@diagnostics` array of the store instead of failing on the first one.
+     */
+    collectDiagnostics?: boolean;
+
     /**
      * An object holding transformer instances and global metadata.
      */
@@ -1 +1,11 @@
-export * from './transformer/ThingTransformer';
\ No newline at end of file
+export * from './transformer/ThingTransformer';
+export * from './transformer/EntityImporter';
+export * from './transformer/APIDeclarationGenerator';
+export * from './transformer/CoverageReport';
+export * from './transformer/SourceMap';
+export * from './transformer/GlobalFunctionLibrary';
+export * from './transformer/DependencyBundler';
+export * from './transformer/RhinoCompatibility';
+export * from './runtime/Runtime';
+export * from './runtime/InfoTable';
+export * from './runtime/Globals';
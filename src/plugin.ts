@@ -0,0 +1,226 @@
+import type * as ts from 'typescript';
+import type * as tsserver from 'typescript/lib/tsserverlibrary';
+import { version as TransformerTypeScriptVersion } from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TWThingTransformerFactory, TWThingTransformer, TWConfig, TWDiagnostic, TWDiagnosticCode } from './transformer/ThingTransformer';
+
+/**
+ * Returns the contents of the `twconfig.json` file found in the given folder, with diagnostic
+ * collection enabled and an empty store.
+ * @param root      The root folder of the project.
+ * @returns         A twconfig object.
+ */
+function twConfigOfProject(root: string): TWConfig {
+    const filename = path.join(root, 'twconfig.json');
+    const twConfig: TWConfig = fs.existsSync(filename) ? JSON.parse(fs.readFileSync(filename, 'utf8')) : {projectName: path.basename(root)};
+
+    twConfig.store = {};
+    twConfig.collectDiagnostics = true;
+
+    return twConfig;
+}
+
+/**
+ * Returns the root path that the transformer should use for the given file. In multi project mode,
+ * this is the folder of the sub project that contains the file.
+ * @param fileName      The path to the file.
+ * @param root          The root folder of the project.
+ * @param twConfig      The twconfig object.
+ * @returns             The root path.
+ */
+function transformerRootOfFile(fileName: string, root: string, twConfig: TWConfig): string {
+    if (twConfig.projectName != '@auto') return root;
+
+    // Sub projects are the folders in the src folder
+    const relativePath = path.relative(path.join(root, 'src'), fileName);
+    return path.join(root, 'src', relativePath.split(path.sep)[0]);
+}
+
+/**
+ * Returns the innermost node in the given source file that starts at the given position and has the given length.
+ * @param typescript    The typescript module used by the language service.
+ * @param sourceFile    The source file.
+ * @param start         The start position of the node.
+ * @param length        The length of the node.
+ * @returns             A node, or `undefined` if no such node exists.
+ */
+function nodeAtSpan(typescript: typeof ts, sourceFile: ts.SourceFile, start: number, length: number): ts.Node | undefined {
+    let result: ts.Node | undefined;
+
+    const visit = (node: ts.Node) => {
+        if (node.getStart(sourceFile) > start || node.getEnd() < start + length) return;
+
+        if (node.getStart(sourceFile) == start && node.getWidth(sourceFile) == length) {
+            result = node;
+        }
+
+        typescript.forEachChild(node, visit);
+    };
+    typescript.forEachChild(sourceFile, visit);
+
+    return result;
+}
+
+/**
+ * A typescript language service plugin that runs the transformer on each edited file and reports its errors as
+ * diagnostics, together with quick fixes for some of them.
+ *
+ * To use it, add `{"name": "bm-thing-transformer/dist/plugin"}` to the `plugins` array in the compiler options
+ * of the project's `tsconfig.json` file. The twconfig options are read from the `twconfig.json` file in the
+ * project's root folder.
+ */
+function TWLanguageServicePlugin(modules: {typescript: typeof tsserver}) {
+    // The programs are created with the editor's typescript module, but the transformer inspects and creates
+    // their nodes with its own typescript module, so both must be the same version for their syntax kinds to match
+    const typescript = modules.typescript as unknown as typeof ts;
+
+    function create(info: tsserver.server.PluginCreateInfo): tsserver.LanguageService {
+        const languageService = info.languageService as unknown as ts.LanguageService;
+        const root = info.project.getCurrentDirectory();
+        const log = (message: string) => info.project.projectService.logger.info(`[bm-thing-transformer] ${message}`);
+
+        if (typescript.version != TransformerTypeScriptVersion) {
+            log(`Plugin disabled. The editor uses typescript ${typescript.version}, but the transformer requires typescript ${TransformerTypeScriptVersion}.`);
+            return info.languageService;
+        }
+
+        /**
+         * Returns a program that can emit the files of the given program. If the compiler options prevent emitting,
+         * this is a copy of the program that reuses its source files and allows emitting.
+         * @param program       The program of the language service.
+         * @returns             A program that can be emitted.
+         */
+        function emittableProgramOfProgram(program: ts.Program): ts.Program {
+            const options = program.getCompilerOptions();
+            if (!options.noEmit && !options.noEmitOnError && !options.emitDeclarationOnly) return program;
+
+            const emitOptions = {...options, noEmit: false, noEmitOnError: false, emitDeclarationOnly: false};
+            const host = typescript.createCompilerHost(emitOptions);
+
+            // File names must be resolved in the same way as the language service, so that its source files can be reused
+            const useCaseSensitiveFileNames = !!info.languageServiceHost.useCaseSensitiveFileNames?.();
+            host.useCaseSensitiveFileNames = () => useCaseSensitiveFileNames;
+            host.getCanonicalFileName = fileName => useCaseSensitiveFileNames ? fileName : fileName.toLowerCase();
+            host.getCurrentDirectory = () => info.languageServiceHost.getCurrentDirectory();
+
+            // The source files must be the ones being edited instead of the ones saved on disk
+            const getSourceFile = host.getSourceFile;
+            host.getSourceFile = (fileName, ...args) => program.getSourceFile(fileName) || getSourceFile.call(host, fileName, ...args);
+
+            return typescript.createProgram({rootNames: program.getRootFileNames(), options: emitOptions, host, oldProgram: program});
+        }
+
+        /**
+         * Returns the diagnostics reported by the transformer for the given file.
+         * @param fileName      The path to the file.
+         * @returns             An array of diagnostics.
+         */
+        function transformerDiagnosticsOfFile(fileName: string): TWDiagnostic[] {
+            const languageServiceProgram = languageService.getProgram();
+            if (!languageServiceProgram) return [];
+
+            const program = emittableProgramOfProgram(languageServiceProgram);
+            const sourceFile = program.getSourceFile(fileName);
+            if (!sourceFile || sourceFile.isDeclarationFile) return [];
+
+            const twConfig = twConfigOfProject(root);
+            const transformerRoot = transformerRootOfFile(fileName, root, twConfig);
+
+            // Files outside of the project's sources are not transformed
+            if (path.relative(transformerRoot, fileName).startsWith('..')) return [];
+
+            try {
+                // Emitting the file runs both transformation phases, so that errors reported after the file
+                // is transpiled, such as unsupported Rhino features, are reported as well
+                program.emit(sourceFile, () => {}, undefined, false, {
+                    before: [TWThingTransformerFactory(program, transformerRoot, false, false, twConfig)],
+                    after: [TWThingTransformerFactory(program, transformerRoot, true, false, twConfig)]
+                });
+            }
+            catch (e) {
+                // Unexpected errors, such as those caused by incomplete code, should not prevent the other diagnostics from being reported
+                log(`Unable to transform ${fileName}: ${e}`);
+            }
+
+            return TWThingTransformer.diagnosticsOfStore(twConfig.store).filter(d => d.file?.fileName == sourceFile.fileName);
+        }
+
+        /**
+         * Returns the quick fixes that resolve the given diagnostic.
+         * @param diagnostic    The diagnostic.
+         * @returns             An array of code fixes.
+         */
+        function codeFixesOfDiagnostic(diagnostic: TWDiagnostic): ts.CodeFixAction[] {
+            const sourceFile = diagnostic.file!;
+            const node = nodeAtSpan(typescript, sourceFile, diagnostic.start!, diagnostic.length!);
+            const fixes: ts.CodeFixAction[] = [];
+            const text = sourceFile.text;
+
+            const fix = (fixName: string, description: string, textChanges: ts.TextChange[]) => {
+                fixes.push({fixName, description, changes: [{fileName: sourceFile.fileName, textChanges}]});
+            };
+
+            if (!node) return fixes;
+
+            if (typescript.isEnumDeclaration(node) && !node.modifiers?.some(m => m.kind == typescript.SyntaxKind.ConstKeyword)) {
+                const enumKeyword = text.lastIndexOf('enum', node.name.getStart(sourceFile));
+                fix('twConstEnum', `Declare '${node.name.text}' as a const enum`, [{span: {start: enumKeyword, length: 0}, newText: 'const '}]);
+            }
+
+            if (typescript.isMethodDeclaration(node)) {
+                const isAsync = node.modifiers?.some(m => m.kind == typescript.SyntaxKind.AsyncKeyword);
+
+                if (!node.type && !isAsync) {
+                    // Use the inferred return type, with void being replaced by the thingworx equivalent
+                    const typeChecker = languageService.getProgram()!.getTypeChecker();
+                    const signature = typeChecker.getSignatureFromDeclaration(node);
+                    const returnType = signature ? typeChecker.typeToString(typeChecker.getReturnTypeOfSignature(signature)) : 'any';
+                    const type = ['void', 'undefined', 'any'].includes(returnType) ? 'NOTHING' : returnType;
+
+                    const closeParen = text.indexOf(')', node.parameters.end) + 1;
+                    fix('twAddReturnType', `Add return type '${type}'`, [{span: {start: closeParen, length: 0}, newText: `: ${type}`}]);
+                }
+
+                if (node.type && isAsync) {
+                    const colon = text.lastIndexOf(':', node.type.getStart(sourceFile));
+                    fix('twRemoveReturnType', `Remove the return type annotation`, [{span: {start: colon, length: node.type.end - colon}, newText: ''}]);
+                }
+            }
+
+            return fixes;
+        }
+
+        // Create a proxy that forwards all methods to the original language service
+        const proxy: ts.LanguageService = Object.create(null);
+        for (const key of Object.keys(languageService)) {
+            proxy[key] = (...args: unknown[]) => languageService[key].apply(languageService, args);
+        }
+
+        proxy.getSemanticDiagnostics = (fileName: string) => {
+            return [...languageService.getSemanticDiagnostics(fileName), ...transformerDiagnosticsOfFile(fileName)];
+        };
+
+        proxy.getCodeFixesAtPosition = (fileName, start, end, errorCodes, formatOptions, preferences) => {
+            const fixes = [...languageService.getCodeFixesAtPosition(fileName, start, end, errorCodes, formatOptions, preferences)];
+
+            if (errorCodes.includes(TWDiagnosticCode)) {
+                for (const diagnostic of transformerDiagnosticsOfFile(fileName)) {
+                    if (diagnostic.start! > end || diagnostic.start! + diagnostic.length! < start) continue;
+
+                    fixes.push(...codeFixesOfDiagnostic(diagnostic));
+                }
+            }
+
+            return fixes;
+        };
+
+        log('Plugin loaded.');
+
+        return proxy as unknown as tsserver.LanguageService;
+    }
+
+    return {create};
+}
+
+export = TWLanguageServicePlugin;
@@ -0,0 +1,241 @@
+import * as crypto from 'crypto';
+import * as os from 'os';
+import { TWRuntimeInfoTable } from './InfoTable';
+
+/**
+ * The interface for a location value.
+ */
+export interface TWLocation {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+    units?: string;
+}
+
+/**
+ * The radius of the earth in each of the units supported by the location functions.
+ */
+const EarthRadius = {
+    M: 3958.8,
+    K: 6371,
+    N: 3440.1
+};
+
+/**
+ * Returns the great-circle distance between the given locations.
+ * @param loc1      The first location.
+ * @param loc2      The second location.
+ * @param units     The units in which to return the distance: `M` for miles, `K` for kilometers or `N` for nautical miles.
+ * @returns         The distance.
+ */
+export function distanceBetweenLocations(loc1: TWLocation, loc2: TWLocation, units: string = 'M'): number {
+    const radians = (degrees: number) => degrees * Math.PI / 180;
+    const latitudeDelta = radians(loc2.latitude - loc1.latitude);
+    const longitudeDelta = radians(loc2.longitude - loc1.longitude);
+
+    const a = Math.sin(latitudeDelta / 2) ** 2 + Math.cos(radians(loc1.latitude)) * Math.cos(radians(loc2.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+    return 2 * (EarthRadius[units] || EarthRadius.M) * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * The key used by the encryption functions when no key is specified.
+ */
+const DefaultEncryptionKey = 'bm-thing-transformer-runtime';
+
+/**
+ * Returns a copy of the given date to which the given number of milliseconds were added.
+ * Dates may originate from a different context, so they are converted via their timestamp.
+ * @param date      The date.
+ * @param amount    The number of milliseconds.
+ * @returns         A date.
+ */
+function dateByAdding(date: Date | undefined, amount: number): Date {
+    return new Date(new Date(date?.getTime() ?? Date.now()).getTime() + amount);
+}
+
+/**
+ * Returns a copy of the given date in which the given component was modified by the given amount.
+ * @param date      The date.
+ * @param component The date component to modify.
+ * @param amount    The amount to add to the component.
+ * @returns         A date.
+ */
+function dateByAddingComponent(date: Date | undefined, component: 'FullYear' | 'Month', amount: number): Date {
+    const result = new Date(date?.getTime() ?? Date.now());
+    result[`set${component}`](result[`get${component}`]() + (amount || 0));
+    return result;
+}
+
+/**
+ * The tokens supported in date format patterns, mapped to functions that return their values.
+ */
+const DateFormatTokens: Record<string, (date: Date) => string> = {
+    yyyy: d => String(d.getFullYear()),
+    yy: d => String(d.getFullYear()).substring(2),
+    MMMM: d => d.toLocaleString('en-US', {month: 'long'}),
+    MMM: d => d.toLocaleString('en-US', {month: 'short'}),
+    MM: d => String(d.getMonth() + 1).padStart(2, '0'),
+    M: d => String(d.getMonth() + 1),
+    dd: d => String(d.getDate()).padStart(2, '0'),
+    d: d => String(d.getDate()),
+    EEEE: d => d.toLocaleString('en-US', {weekday: 'long'}),
+    EEE: d => d.toLocaleString('en-US', {weekday: 'short'}),
+    HH: d => String(d.getHours()).padStart(2, '0'),
+    H: d => String(d.getHours()),
+    hh: d => String(d.getHours() % 12 || 12).padStart(2, '0'),
+    h: d => String(d.getHours() % 12 || 12),
+    mm: d => String(d.getMinutes()).padStart(2, '0'),
+    m: d => String(d.getMinutes()),
+    ss: d => String(d.getSeconds()).padStart(2, '0'),
+    s: d => String(d.getSeconds()),
+    SSS: d => String(d.getMilliseconds()).padStart(3, '0'),
+    a: d => d.getHours() < 12 ? 'AM' : 'PM'
+};
+
+/**
+ * A regex that matches the tokens and quoted literals in a date format pattern.
+ */
+const DateFormatRegex = new RegExp(`'[^']*'|${Object.keys(DateFormatTokens).join('|')}`, 'g');
+
+/**
+ * Returns the key used to encrypt and decrypt values.
+ * @param key       The key specified by the caller.
+ * @returns         A 256 bit key.
+ */
+function encryptionKey(key: string = DefaultEncryptionKey): Buffer {
+    return crypto.createHash('sha256').update(key).digest();
+}
+
+/**
+ * Encrypts the given value with the given key.
+ * @param key       The key.
+ * @param value     The value to encrypt.
+ * @returns         The encrypted value, encoded as base64.
+ */
+function encrypt(key: string | undefined, value: string = ''): string {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', encryptionKey(key), iv);
+    return Buffer.concat([iv, cipher.update(value, 'utf8'), cipher.final()]).toString('base64');
+}
+
+/**
+ * Decrypts the given value with the given key.
+ * @param key       The key.
+ * @param value     The value to decrypt, encoded as base64.
+ * @returns         The decrypted value.
+ */
+function decrypt(key: string | undefined, value: string = ''): string {
+    const data = Buffer.from(value, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-cbc', encryptionKey(key), data.slice(0, 16));
+    return Buffer.concat([decipher.update(data.slice(16)), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Returns an object containing implementations of the global functions declared in `Globals.d.ts`.
+ * @returns     An object whose keys are the names of the functions.
+ */
+export function TWRuntimeGlobalFunctions(): Record<string, Function> {
+    const globals = {
+        dateAddMilliseconds: (dateValue?: Date, amount: number = 0) => dateByAdding(dateValue, amount),
+        dateAddSeconds: (dateValue?: Date, amount: number = 0) => dateByAdding(dateValue, amount * 1000),
+        dateAddMinutes: (dateValue?: Date, amount: number = 0) => dateByAdding(dateValue, amount * 60000),
+        dateAddHours: (dateValue?: Date, amount: number = 0) => dateByAdding(dateValue, amount * 3600000),
+        dateAddDays: (dateValue?: Date, amount: number = 0) => dateByAdding(dateValue, amount * 86400000),
+        dateAddMonths: (dateValue?: Date, amount: number = 0) => dateByAddingComponent(dateValue, 'Month', amount),
+        dateAddYears: (dateValue?: Date, amount: number = 0) => dateByAddingComponent(dateValue, 'FullYear', amount),
+
+        dateDayOfYear: (dateValue?: Date) => {
+            const date = new Date(dateValue?.getTime() ?? Date.now());
+            return Math.floor((date.getTime() - new Date(date.getFullYear(), 0, 1).getTime()) / 86400000);
+        },
+        dateDayOfWeek: (dateValue?: Date) => new Date(dateValue?.getTime() ?? Date.now()).getDay() || 7,
+        dateMin: (date1: Date, date2: Date) => Math.min(date1.getTime(), date2.getTime()),
+        dateMax: (date1: Date, date2: Date) => Math.max(date1.getTime(), date2.getTime()),
+        dateDifference: (date1: Date, date2: Date) => date1.getTime() - date2.getTime(),
+        dateOffset: (dateValue?: Date) => -new Date(dateValue?.getTime() ?? Date.now()).getTimezoneOffset() * 60000,
+
+        dateFormat: (dateValue?: Date, format: string = 'yyyy-MM-dd HH:mm:ss') => {
+            const date = new Date(dateValue?.getTime() ?? Date.now());
+            return format.replace(DateFormatRegex, token => token.startsWith("'") ? token.slice(1, -1) : DateFormatTokens[token](date));
+        },
+        dateFormatISO: (dateValue?: Date) => new Date(dateValue?.getTime() ?? Date.now()).toISOString(),
+        parseDateISO: (stringDate: string) => new Date(stringDate),
+        parseDate: (stringDate: string, format: string = 'yyyy-MM-dd HH:mm:ss') => {
+            // Extract the numeric components of the date in the order in which they appear in the format
+            const components = {yyyy: 1970, MM: 1, dd: 1, HH: 0, mm: 0, ss: 0, SSS: 0};
+            const order = (format.match(/yyyy|MM|dd|HH|mm|ss|SSS/g) || []) as (keyof typeof components)[];
+            const values = stringDate.match(/\d+/g) || [];
+
+            order.forEach((token, index) => {
+                if (values[index] !== undefined) components[token] = parseInt(values[index]);
+            });
+
+            return new Date(components.yyyy, components.MM - 1, components.dd, components.HH, components.mm, components.ss, components.SSS);
+        },
+
+        // Diagnostic tracing has no effect in the local runtime
+        enableDiagnosticTrace: () => true,
+        disableDiagnosticTrace: () => true,
+
+        base64EncodeString: (value: string = '') => Buffer.from(value, 'utf8').toString('base64'),
+        base64DecodeString: (value: string = '') => Buffer.from(value, 'base64').toString('utf8'),
+        base64EncodeBytes: (value: any) => Buffer.from(value || []).toString('base64'),
+        base64DecodeBytes: (value: string = '') => [...Buffer.from(value, 'base64')],
+
+        encryptString: (value?: string) => encrypt(undefined, value),
+        encryptPropertyValue: (value?: string) => encrypt(undefined, value),
+        encryptStringWithKey: (key?: string, value?: string) => encrypt(key, value),
+        decryptStringWithkey: (key?: string, value?: string) => decrypt(key, value),
+
+        distanceBetween: (loc1: TWLocation, loc2: TWLocation, units: string = 'M') => distanceBetweenLocations(loc1, loc2, units),
+        createCircularGeoFence: (location: TWLocation, radius: number, units: string = 'M', resolution: number = 36) => {
+            const result = new TWRuntimeInfoTable({location: {name: 'location', baseType: 'LOCATION'}});
+            const angularRadius = radius / (EarthRadius[units] || EarthRadius.M) * 180 / Math.PI;
+
+            for (let i = 0; i < resolution; i++) {
+                const angle = 2 * Math.PI * i / resolution;
+                result.AddRow({location: {
+                    latitude: location.latitude + angularRadius * Math.sin(angle),
+                    longitude: location.longitude + angularRadius * Math.cos(angle) / Math.cos(location.latitude * Math.PI / 180),
+                    altitude: location.altitude || 0
+                }});
+            }
+
+            return result;
+        },
+        containsLocation: (location: TWLocation, geoFence: TWRuntimeInfoTable, locationField: string = 'location') => {
+            // Ray casting algorithm for determining if the location is inside the geofence polygon
+            const points: TWLocation[] = geoFence.rows.map(row => row[locationField]);
+            let inside = false;
+
+            for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+                const pi = points[i], pj = points[j];
+                if ((pi.latitude > location.latitude) != (pj.latitude > location.latitude) &&
+                    location.longitude < (pj.longitude - pi.longitude) * (location.latitude - pi.latitude) / (pj.latitude - pi.latitude) + pi.longitude) {
+                    inside = !inside;
+                }
+            }
+
+            return inside;
+        },
+
+        generateGUID: () => crypto.randomBytes(16).toString('hex').replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5'),
+        getHostIPAddress: () => '127.0.0.1',
+        getAdapterIPAddress: (name?: string) => {
+            const interfaces = os.networkInterfaces();
+            const addresses = (name ? interfaces[name] : Object.values(interfaces).flat()) || [];
+            return addresses.find(a => a?.family == 'IPv4' && !a.internal)?.address || '127.0.0.1';
+        },
+        formatNumber: (value: number, format: string = '0.00') => {
+            const decimals = format.includes('.') ? format.split('.')[1].replace(/[^0#]/g, '').length : 0;
+            const grouping = format.includes(',');
+            return value.toLocaleString('en-US', {minimumFractionDigits: decimals, maximumFractionDigits: decimals, useGrouping: grouping});
+        },
+        pause: (value: number) => {
+            // Block the current thread, as services are expected to run synchronously
+            Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, value);
+        }
+    };
+
+    return globals;
+}
@@ -0,0 +1,1012 @@
+import { TWBaseTypes, TWFieldBase, TWInfoTable } from '../transformer/TWCoreTypes';
+import { distanceBetweenLocations, TWLocation } from './Globals';
+
+/**
+ * The interface for the JSON representation of an infotable, as used by the Thingworx REST API.
+ */
+export interface TWJSONInfoTable {
+    dataShape: {
+        fieldDefinitions: Record<string, TWRuntimeFieldDefinitionInit>;
+    };
+
+    rows: Record<string, unknown>[];
+}
+
+/**
+ * The properties required to define an infotable field. The remaining properties are optional.
+ */
+export type TWRuntimeFieldDefinitionInit = Partial<TWFieldBase> & {name: string, baseType: string};
+
+/**
+ * The interface for a query that can be applied to an infotable, matching the `QUERY` type declared in `TWBaseTypes.d.ts`.
+ */
+export interface TWRuntimeQuery {
+    sorts?: TWRuntimeQuerySort[];
+    filters?: TWRuntimeQueryFilter;
+}
+
+/**
+ * The interface for a sort specified in a query.
+ */
+export interface TWRuntimeQuerySort {
+    fieldName: string;
+    isAscending?: boolean;
+    isCaseSensitive?: boolean;
+}
+
+/**
+ * The interface for a filter specified in a query. The properties that are used depend on the type of filter.
+ */
+export interface TWRuntimeQueryFilter {
+    type: string;
+    fieldName?: string;
+    filters?: TWRuntimeQueryFilter[];
+    value?: unknown;
+    values?: unknown[];
+    from?: unknown;
+    to?: unknown;
+    expression?: string;
+    tags?: string | {vocabulary: string, vocabularyTerm: string}[];
+    distance?: number;
+    units?: string;
+    location?: TWLocation;
+}
+
+/**
+ * Returns a value that can be compared using the standard operators. Dates are compared
+ * using their timestamps as they may originate from a different context.
+ * @param value     The value.
+ * @returns         A comparable value.
+ */
+function comparableValue(value: any): unknown {
+    if (value && typeof value.getTime == 'function') return value.getTime();
+    return value;
+}
+
+/**
+ * Compares the given values for sorting. Missing values are sorted before all other values.
+ * @param a                 The first value.
+ * @param b                 The second value.
+ * @param isCaseSensitive   When set to `false`, strings are compared without regard to their case.
+ * @returns                 A negative number if `a` is less than `b`, a positive number if it is greater and `0` if they are equal.
+ */
+function compareValues(a: unknown, b: unknown, isCaseSensitive: boolean = true): number {
+    let left = comparableValue(a) as any, right = comparableValue(b) as any;
+
+    if (left === undefined || left === null) return right === undefined || right === null ? 0 : -1;
+    if (right === undefined || right === null) return 1;
+
+    if (!isCaseSensitive && typeof left == 'string' && typeof right == 'string') {
+        left = left.toLowerCase();
+        right = right.toLowerCase();
+    }
+
+    return left < right ? -1 : (left > right ? 1 : 0);
+}
+
+/**
+ * Returns whether the given values are equal. Objects are compared using their JSON representation.
+ * @param a         The first value.
+ * @param b         The second value.
+ * @returns         `true` if the values are equal.
+ */
+function valuesAreEqual(a: unknown, b: unknown): boolean {
+    const left = comparableValue(a), right = comparableValue(b);
+    if (left && right && typeof left == 'object' && typeof right == 'object') {
+        return JSON.stringify(left) == JSON.stringify(right);
+    }
+
+    return left === right;
+}
+
+/**
+ * Returns whether the given value should be considered missing by the `MissingValue` filter.
+ * @param value     The value.
+ * @returns         `true` if the value is missing.
+ */
+function valueIsMissing(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+/**
+ * Returns a regex equivalent to the given `LIKE` pattern, in which `%` and `*` match any number of characters
+ * while `_` and `?` match a single character. The comparison is not case sensitive.
+ * @param pattern   The pattern.
+ * @returns         A regex.
+ */
+function regexOfLikePattern(pattern: string): RegExp {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/[%*]/g, '.*').replace(/[_?]/g, '.');
+    return new RegExp(`^${source}$`, 'is');
+}
+
+/**
+ * Returns the tags contained in the given value, in the `Vocabulary:Term` format.
+ * @param value     A string of tags separated by semicolons or an array of tag objects.
+ * @returns         A set of tags.
+ */
+function tagsOfValue(value: unknown): Set<string> {
+    if (Array.isArray(value)) {
+        return new Set(value.map(tag => typeof tag == 'string' ? tag : `${tag.vocabulary}:${tag.vocabularyTerm}`));
+    }
+
+    return new Set(String(value || '').split(';').map(tag => tag.trim()).filter(tag => tag));
+}
+
+/**
+ * Returns the base type that should be used for a field that contains the given value.
+ * @param value     The value.
+ * @returns         A base type name.
+ */
+function baseTypeOfValue(value: any): string {
+    if (value instanceof TWRuntimeInfoTable) return 'INFOTABLE';
+    if (value && typeof value.getTime == 'function') return 'DATETIME';
+
+    return TWBaseTypes[typeof value] || 'JSON';
+}
+
+/**
+ * Converts the given serialized value into a value of the given base type. Values that are not strings
+ * are returned unchanged, except for dates specified as timestamps and JSON infotables.
+ * @param value     The value, as found in an XML or JSON infotable.
+ * @param baseType  The base type.
+ * @returns         The converted value.
+ */
+function valueOfBaseType(value: unknown, baseType: string): unknown {
+    if (value === undefined || value === null) return value;
+
+    switch (baseType) {
+        case 'NUMBER':
+        case 'INTEGER':
+        case 'LONG':
+            return typeof value == 'string' ? parseFloat(value) : value;
+        case 'BOOLEAN':
+            return typeof value == 'string' ? value == 'true' : value;
+        case 'DATETIME':
+            // Dates are serialized as timestamps in XML infotables
+            if (typeof value == 'string' && /^-?\d+$/.test(value)) return new Date(parseFloat(value));
+            return typeof value == 'string' || typeof value == 'number' ? new Date(value) : value;
+        case 'JSON':
+            if (typeof value != 'string') return value;
+            try {
+                return JSON.parse(value);
+            }
+            catch (e) {
+                return value;
+            }
+        case 'LOCATION':
+            if (typeof value != 'string') return value;
+            const [latitude, longitude, altitude] = value.split(',').map(parseFloat);
+            return {latitude, longitude, altitude: altitude || 0};
+        case 'INFOTABLE':
+            if (value instanceof TWRuntimeInfoTable) return value;
+            if (typeof value == 'string') return TWRuntimeInfoTable.fromJSON(JSON.parse(value));
+            if (typeof value == 'object' && 'rows' in value!) return TWRuntimeInfoTable.fromJSON(value as TWJSONInfoTable);
+            return value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Converts the given value of the given base type into the value stored in an XML infotable, from which it is
+ * restored by `valueOfBaseType`. Dates are stored as timestamps, locations as comma separated coordinates and
+ * JSON values as their JSON text.
+ * @param value     The value.
+ * @param baseType  The base type.
+ * @returns         The serialized value.
+ */
+function XMLValueOfBaseType(value: unknown, baseType: string): unknown {
+    if (value === undefined || value === null) return value;
+
+    switch (baseType) {
+        case 'DATETIME':
+            return typeof (value as Date).getTime == 'function' ? (value as Date).getTime() : value;
+        case 'JSON':
+            return JSON.stringify(value);
+        case 'LOCATION':
+            if (typeof value != 'object') return value;
+            const {latitude, longitude, altitude} = value as TWLocation;
+            return `${latitude},${longitude},${altitude || 0}`;
+        case 'INFOTABLE':
+            if (value instanceof TWRuntimeInfoTable) return value.toXML();
+            if (typeof value == 'object' && 'rows' in value) return TWRuntimeInfoTable.fromJSON(value as TWJSONInfoTable).toXML();
+            return value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * The definition of an infotable field, implementing the `FieldDefinitionClass` API declared in `TWBaseTypes.d.ts`.
+ */
+export class TWRuntimeFieldDefinition implements TWFieldBase {
+    name: string;
+    baseType: string;
+    description: string;
+    aspects: TWFieldBase['aspects'] & {isPrimaryKey?: boolean};
+    ordinal: number;
+
+    /**
+     * @param field         The properties of the field.
+     * @param ordinal       The ordinal to use if the field does not specify one.
+     */
+    constructor(field: TWRuntimeFieldDefinitionInit, ordinal: number = 0) {
+        this.name = field.name;
+        this.baseType = field.baseType;
+        this.description = field.description || '';
+        this.aspects = {...field.aspects};
+        this.ordinal = field.ordinal ?? ordinal;
+    }
+
+    getName(): string {
+        return this.name;
+    }
+
+    setName(name: string): void {
+        this.name = name;
+    }
+
+    getDescription(): string {
+        return this.description;
+    }
+
+    setDescription(description: string): void {
+        this.description = description;
+    }
+
+    getBaseType(): string {
+        return this.baseType;
+    }
+
+    setBaseType(baseType: string): void {
+        this.baseType = baseType;
+    }
+
+    getOrdinal(): number {
+        return this.ordinal;
+    }
+
+    setOrdinal(ordinal: number): void {
+        this.ordinal = ordinal;
+    }
+
+    get defaultValue(): unknown {
+        return this.aspects.defaultValue;
+    }
+
+    hasDefaultValue(): boolean {
+        return this.aspects.defaultValue !== undefined;
+    }
+
+    isStreamEntry(): boolean {
+        return false;
+    }
+
+    isDataTableEntry(): boolean {
+        return false;
+    }
+
+    isContentCrawlerEntry(): boolean {
+        return false;
+    }
+
+    isNullable(): boolean {
+        return !this.aspects.isPrimaryKey;
+    }
+
+    clone(): TWRuntimeFieldDefinition {
+        return new TWRuntimeFieldDefinition(this.toJSON());
+    }
+
+    toJSON(): TWFieldBase {
+        return {name: this.name, baseType: this.baseType, description: this.description, aspects: {...this.aspects}, ordinal: this.ordinal};
+    }
+}
+
+/**
+ * The data shape of an infotable, implementing the `DataShapeDefinition` API declared in `TWBaseTypes.d.ts`.
+ */
+export class TWRuntimeDataShape {
+
+    /**
+     * The fields of this data shape, keyed by name.
+     */
+    fieldDefinitions: Record<string, TWRuntimeFieldDefinition> = {};
+
+    /**
+     * The fields of this data shape, keyed by name.
+     */
+    get fields(): Record<string, TWRuntimeFieldDefinition> {
+        return this.fieldDefinitions;
+    }
+
+    getFields(): Record<string, TWRuntimeFieldDefinition> {
+        return this.fieldDefinitions;
+    }
+
+    getFieldDefinition(name: string): TWRuntimeFieldDefinition | undefined {
+        return this.fieldDefinitions[name];
+    }
+
+    hasPrimaryKey(): boolean {
+        return Object.values(this.fieldDefinitions).some(f => f.aspects.isPrimaryKey);
+    }
+
+    hasField(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.fieldDefinitions, name);
+    }
+
+    clone(): TWRuntimeDataShape {
+        const result = new TWRuntimeDataShape;
+        for (const name in this.fieldDefinitions) {
+            result.fieldDefinitions[name] = this.fieldDefinitions[name].clone();
+        }
+
+        return result;
+    }
+
+    toJSON(): {fieldDefinitions: Record<string, TWFieldBase>} {
+        const fieldDefinitions: Record<string, TWFieldBase> = {};
+        for (const name in this.fieldDefinitions) {
+            fieldDefinitions[name] = this.fieldDefinitions[name].toJSON();
+        }
+
+        return {fieldDefinitions};
+    }
+}
+
+/**
+ * A row of an infotable, implementing the `ValueCollection` API declared in `TWBaseTypes.d.ts`. The values
+ * are stored as the row's own properties.
+ */
+export class TWRuntimeValueCollection {
+    [field: string]: any;
+
+    /**
+     * @param values        The initial values.
+     */
+    constructor(values: Record<string, unknown> = {}) {
+        Object.assign(this, values);
+    }
+
+    getValue(name: string): unknown {
+        return this[name];
+    }
+
+    setValue(name: string, value: unknown): void {
+        this[name] = value;
+    }
+
+    has(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this, name);
+    }
+
+    clone(): TWRuntimeValueCollection {
+        const result = new TWRuntimeValueCollection;
+        for (const name of Object.keys(this)) {
+            result[name] = this[name] instanceof TWRuntimeInfoTable ? this[name].clone() : this[name];
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns an infotable containing this row, whose fields are derived from this row's values.
+     * @returns         An infotable.
+     */
+    toInfoTable(): TWRuntimeInfoTable {
+        const result = new TWRuntimeInfoTable;
+        for (const name of Object.keys(this)) {
+            result.AddField({name, baseType: baseTypeOfValue(this[name])});
+        }
+
+        result.AddRow(this);
+        return result;
+    }
+
+    toJSON(): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        for (const name of Object.keys(this)) {
+            result[name] = this[name] instanceof TWRuntimeInfoTable ? this[name].ToJSON() : this[name];
+        }
+
+        return result;
+    }
+}
+
+/**
+ * The rows of an infotable, implementing the `ValueCollectionList` API declared in `TWBaseTypes.d.ts`.
+ */
+export class TWRuntimeValueCollectionList extends Array<TWRuntimeValueCollection> {
+
+    getLength(): number {
+        return this.length;
+    }
+
+    getFirstRow(): TWRuntimeValueCollection | undefined {
+        return this[0];
+    }
+
+    getLastRow(): TWRuntimeValueCollection | undefined {
+        return this[this.length - 1];
+    }
+
+    getRow(index: number): TWRuntimeValueCollection | undefined {
+        return this[index];
+    }
+
+    toArray(): Record<string, unknown>[] {
+        return Array.from(this, row => row.toJSON());
+    }
+}
+
+/**
+ * Returns a new row containing the values of the given row that correspond to fields of the given data shape.
+ * @param row           The row, which may be a plain object or a row of another infotable.
+ * @param dataShape     The data shape.
+ * @returns             A row.
+ */
+function valueCollectionOfRow(row: Record<string, unknown>, dataShape: TWRuntimeDataShape): TWRuntimeValueCollection {
+    const result = new TWRuntimeValueCollection;
+
+    for (const name in dataShape.fieldDefinitions) {
+        if (name in row) result[name] = row[name];
+    }
+
+    return result;
+}
+
+/**
+ * The handler of the proxy that wraps each infotable. Numeric keys return the row at that index, while
+ * the names of fields that don't collide with infotable members access the value of that field in the first row.
+ */
+const InfoTableProxyHandler: ProxyHandler<TWRuntimeInfoTable> = {
+    get(target, key, receiver) {
+        if (typeof key == 'string') {
+            if (/^\d+$/.test(key)) return target.rows[key];
+            if (!(key in target) && target.dataShape.hasField(key)) return target.rows[0]?.[key];
+        }
+
+        return Reflect.get(target, key, receiver);
+    },
+
+    set(target, key, value, receiver) {
+        if (typeof key == 'string') {
+            if (/^\d+$/.test(key)) {
+                target.rows[key] = valueCollectionOfRow(value, target.dataShape);
+                return true;
+            }
+
+            if (!(key in target) && target.dataShape.hasField(key)) {
+                if (!target.rows.length) target.AddRow({});
+                target.rows[0][key] = value;
+                return true;
+            }
+        }
+
+        return Reflect.set(target, key, value, receiver);
+    },
+
+    has(target, key) {
+        if (typeof key == 'string') {
+            if (/^\d+$/.test(key)) return parseInt(key) < target.rows.length;
+            if (target.dataShape.hasField(key)) return true;
+        }
+
+        return key in target;
+    }
+};
+
+/**
+ * An in-memory infotable that implements the `InfoTable` API declared in `TWBaseTypes.d.ts`. As with thingworx infotables,
+ * rows can be accessed by index and the fields of the first row can be accessed directly on the infotable.
+ *
+ * Infotables can be created from and converted to the JSON infotable format used by the REST API, and can also be
+ * created from the XML representation used by entity exports and configuration tables.
+ */
+export class TWRuntimeInfoTable {
+    [field: string]: any;
+
+    /**
+     * The data shape of this infotable.
+     */
+    dataShape: TWRuntimeDataShape;
+
+    /**
+     * The rows of this infotable.
+     */
+    rows: TWRuntimeValueCollectionList;
+
+    /**
+     * @param fieldDefinitions      The field definitions of the infotable's data shape.
+     */
+    constructor(fieldDefinitions: Record<string, TWRuntimeFieldDefinitionInit> = {}) {
+        this.dataShape = new TWRuntimeDataShape;
+        this.rows = new TWRuntimeValueCollectionList;
+
+        for (const name in fieldDefinitions) {
+            this.AddField(fieldDefinitions[name]);
+        }
+
+        return new Proxy(this, InfoTableProxyHandler);
+    }
+
+    /**
+     * Returns an infotable created from the given JSON infotable. If the JSON infotable does not
+     * specify a data shape, its fields are derived from the values in its rows.
+     * @param json          The JSON infotable or an infotable as stored by the transformer.
+     * @returns             An infotable.
+     */
+    static fromJSON(json: TWJSONInfoTable | TWInfoTable): TWRuntimeInfoTable {
+        const infotable = new TWRuntimeInfoTable(json.dataShape?.fieldDefinitions);
+
+        if (!json.dataShape) {
+            for (const row of json.rows || []) {
+                for (const name in row) {
+                    if (!infotable.hasField(name) && row[name] !== undefined && row[name] !== null) {
+                        infotable.AddField({name, baseType: baseTypeOfValue(row[name])});
+                    }
+                }
+            }
+        }
+
+        for (const row of json.rows || []) {
+            const values: Record<string, unknown> = {};
+            for (const name in row) {
+                values[name] = valueOfBaseType(row[name], infotable.dataShape.fieldDefinitions[name]?.baseType);
+            }
+
+            infotable.AddRow(values);
+        }
+
+        return infotable;
+    }
+
+    /**
+     * Returns an infotable created from the given XML element, such as a configuration table. This accepts both the
+     * objects returned when parsing XML with `xml2js` and the objects used by the transformer to build XML files.
+     * @param table         An object containing the `DataShape` and `Rows` elements.
+     * @returns             An infotable.
+     */
+    static fromXML(table: any): TWRuntimeInfoTable {
+        const infotable = new TWRuntimeInfoTable;
+
+        for (const field of table.DataShape?.[0]?.FieldDefinitions?.[0]?.FieldDefinition || []) {
+            const aspects: Record<string, unknown> = {};
+            for (const key in field.$) {
+                if (key.startsWith('aspect.')) aspects[key.substring('aspect.'.length)] = field.$[key];
+            }
+
+            infotable.AddField({
+                name: field.$.name,
+                baseType: field.$.baseType,
+                description: field.$.description || '',
+                aspects,
+                ordinal: field.$.ordinal !== undefined ? parseInt(field.$.ordinal) : undefined
+            });
+        }
+
+        for (const row of table.Rows?.[0]?.Row || []) {
+            const values: Record<string, unknown> = {};
+
+            for (const name in row) {
+                const field = infotable.dataShape.fieldDefinitions[name];
+                let value = Array.isArray(row[name]) ? row[name][0] : row[name];
+
+                if (field?.baseType == 'INFOTABLE' && value && typeof value == 'object' && value.DataShape) {
+                    values[name] = TWRuntimeInfoTable.fromXML(value);
+                    continue;
+                }
+
+                // Elements with attributes store their text in the _ property
+                if (value && typeof value == 'object' && !(typeof value.getTime == 'function')) {
+                    value = value._ ?? '';
+                }
+
+                values[name] = valueOfBaseType(value, field?.baseType);
+            }
+
+            infotable.AddRow(values);
+        }
+
+        return infotable;
+    }
+
+    /**
+     * Returns whether the given row matches the given query filter.
+     * @param row           The row.
+     * @param filter        The query filter.
+     * @returns             `true` if the row matches the filter.
+     */
+    static rowMatchesFilter(row: Record<string, unknown>, filter: TWRuntimeQueryFilter): boolean {
+        const value = filter.fieldName !== undefined ? row[filter.fieldName] : undefined;
+
+        switch (filter.type.toUpperCase()) {
+            case 'AND':
+                return (filter.filters || []).every(f => TWRuntimeInfoTable.rowMatchesFilter(row, f));
+            case 'OR':
+                return (filter.filters || []).some(f => TWRuntimeInfoTable.rowMatchesFilter(row, f));
+            case 'EQ':
+                return valuesAreEqual(value, filter.value);
+            case 'NEQ':
+                return !valuesAreEqual(value, filter.value);
+            case 'GT':
+                return !valueIsMissing(value) && compareValues(value, filter.value) > 0;
+            case 'GE':
+                return !valueIsMissing(value) && compareValues(value, filter.value) >= 0;
+            case 'LT':
+                return !valueIsMissing(value) && compareValues(value, filter.value) < 0;
+            case 'LE':
+                return !valueIsMissing(value) && compareValues(value, filter.value) <= 0;
+            case 'LIKE':
+                return !valueIsMissing(value) && regexOfLikePattern(String(filter.value)).test(String(value));
+            case 'NOTLIKE':
+                return valueIsMissing(value) || !regexOfLikePattern(String(filter.value)).test(String(value));
+            case 'MATCHES':
+                return !valueIsMissing(value) && new RegExp(`^(?:${filter.expression})$`, 's').test(String(value));
+            case 'NOTMATCHES':
+                return valueIsMissing(value) || !new RegExp(`^(?:${filter.expression})$`, 's').test(String(value));
+            case 'BETWEEN':
+                return !valueIsMissing(value) && compareValues(value, filter.from) >= 0 && compareValues(value, filter.to) <= 0;
+            case 'NOTBETWEEN':
+                return valueIsMissing(value) || compareValues(value, filter.from) < 0 || compareValues(value, filter.to) > 0;
+            case 'IN':
+                return (filter.values || []).some(v => valuesAreEqual(value, v));
+            case 'NOTIN':
+                return !(filter.values || []).some(v => valuesAreEqual(value, v));
+            case 'MISSINGVALUE':
+                return valueIsMissing(value);
+            case 'NOTMISSINGVALUE':
+                return !valueIsMissing(value);
+            case 'TAGGED':
+            case 'NOTTAGGED':
+                // A row is tagged if its tags include all of the tags specified in the filter
+                const tags = tagsOfValue(value);
+                const isTagged = [...tagsOfValue(filter.tags)].every(tag => tags.has(tag));
+                return filter.type.toUpperCase() == 'TAGGED' ? isTagged : !isTagged;
+            case 'NEAR':
+            case 'NOTNEAR':
+                if (valueIsMissing(value)) return filter.type.toUpperCase() == 'NOTNEAR';
+                const isNear = distanceBetweenLocations(value as TWLocation, filter.location!, filter.units) <= filter.distance!;
+                return filter.type.toUpperCase() == 'NEAR' ? isNear : !isNear;
+            default:
+                throw new Error(`Unknown query filter type "${filter.type}".`);
+        }
+    }
+
+    /**
+     * The number of rows in this infotable.
+     */
+    get length(): number {
+        return this.rows.length;
+    }
+
+    *[Symbol.iterator](): Iterator<TWRuntimeValueCollection> {
+        yield* this.rows;
+    }
+
+    /**
+     * Returns the number of rows in this infotable.
+     * @returns         The number of rows.
+     */
+    getLength(): number {
+        return this.rows.length;
+    }
+
+    /**
+     * Returns the number of rows in this infotable.
+     * @returns         The number of rows.
+     */
+    getRowCount(): number {
+        return this.rows.length;
+    }
+
+    /**
+     * Returns the number of rows in this infotable.
+     * @returns         The number of rows.
+     */
+    RowCount(): number {
+        return this.rows.length;
+    }
+
+    /**
+     * Returns whether this infotable has no rows.
+     * @returns         `true` if the infotable is empty.
+     */
+    isEmpty(): boolean {
+        return !this.rows.length;
+    }
+
+    /**
+     * Returns this infotable's data shape.
+     * @returns         The data shape.
+     */
+    getDataShape(): TWRuntimeDataShape {
+        return this.dataShape;
+    }
+
+    /**
+     * Adds a field to this infotable's data shape. If a field with the same name exists, it is replaced.
+     * @param field     The field definition.
+     */
+    AddField(field: TWRuntimeFieldDefinitionInit): void {
+        this.dataShape.fieldDefinitions[field.name] = new TWRuntimeFieldDefinition(field, this.getFieldCount());
+    }
+
+    /**
+     * Returns the definition of the given field.
+     * @param name      The name of the field.
+     * @returns         The field definition, or `undefined` if the field doesn't exist.
+     */
+    getField(name: string): TWRuntimeFieldDefinition | undefined {
+        return this.dataShape.getFieldDefinition(name);
+    }
+
+    /**
+     * Returns whether this infotable's data shape contains the given field.
+     * @param name      The name of the field.
+     * @returns         `true` if the field exists.
+     */
+    hasField(name: string): boolean {
+        return this.dataShape.hasField(name);
+    }
+
+    /**
+     * Returns the number of fields in this infotable's data shape.
+     * @returns         The number of fields.
+     */
+    getFieldCount(): number {
+        return Object.keys(this.dataShape.fieldDefinitions).length;
+    }
+
+    /**
+     * Returns the row at the given index.
+     * @param index     The index of the row.
+     * @returns         The row, or `undefined` if the index is out of bounds.
+     */
+    getRow(index: number): TWRuntimeValueCollection | undefined {
+        return this.rows[index];
+    }
+
+    /**
+     * Returns the first row.
+     * @returns         The row, or `undefined` if the infotable is empty.
+     */
+    getFirstRow(): TWRuntimeValueCollection | undefined {
+        return this.rows[0];
+    }
+
+    /**
+     * Returns the last row.
+     * @returns         The row, or `undefined` if the infotable is empty.
+     */
+    getLastRow(): TWRuntimeValueCollection | undefined {
+        return this.rows[this.rows.length - 1];
+    }
+
+    /**
+     * Adds a row to the end of this infotable. Only the values of fields in the data shape are retained.
+     * @param row       The row to add.
+     */
+    AddRow(row: Record<string, unknown>): void {
+        this.rows.push(valueCollectionOfRow(row, this.dataShape));
+    }
+
+    /**
+     * Removes the row at the given index.
+     * @param index     The index of the row.
+     */
+    RemoveRow(index: number): void {
+        this.rows.splice(index, 1);
+    }
+
+    /**
+     * Removes all rows from this infotable.
+     */
+    RemoveAllRows(): void {
+        this.rows.length = 0;
+    }
+
+    /**
+     * Returns a new infotable with the same data shape, containing a copy of the row at the given index.
+     * @param index     The index of the row.
+     * @returns         An infotable.
+     */
+    CopyValues(index: number): TWRuntimeInfoTable {
+        const result = this.emptyCopy();
+        if (this.rows[index]) result.rows.push(this.rows[index].clone());
+
+        return result;
+    }
+
+    /**
+     * Removes all rows after the given number of rows from this infotable.
+     * @param maxItems  The number of rows to keep.
+     */
+    topN(maxItems: number): void {
+        if (this.rows.length > maxItems) this.rows.length = Math.max(maxItems, 0);
+    }
+
+    /**
+     * Returns a new infotable containing copies of the first rows of this infotable.
+     * @param maxItems  The number of rows to copy.
+     * @returns         An infotable.
+     */
+    topNToNewTable(maxItems: number): TWRuntimeInfoTable {
+        const result = this.emptyCopy();
+        result.rows.push(...this.rows.slice(0, Math.max(maxItems, 0)).map(row => row.clone()));
+
+        return result;
+    }
+
+    /**
+     * Returns the first row whose values are equal to the given values.
+     * @param values    The values to match.
+     * @returns         The row, or `undefined` if no row matches.
+     */
+    Find(values: Record<string, unknown>): TWRuntimeValueCollection | undefined {
+        return this.rows.find(row => this.rowMatchesValues(row, values));
+    }
+
+    /**
+     * Removes the rows whose values are not equal to the given values from this infotable.
+     * @param values    The values to match.
+     */
+    Filter(values: Record<string, unknown>): void {
+        const rows = this.rows.filter(row => this.rowMatchesValues(row, values));
+        this.rows.length = 0;
+        this.rows.push(...rows);
+    }
+
+    /**
+     * Removes the rows whose values are equal to the given values from this infotable.
+     * @param values    The values to match.
+     * @returns         The number of rows that were removed.
+     */
+    Delete(values: Record<string, unknown>): number {
+        const rows = this.rows.filter(row => !this.rowMatchesValues(row, values));
+        const count = this.rows.length - rows.length;
+
+        this.rows.length = 0;
+        this.rows.push(...rows);
+
+        return count;
+    }
+
+    /**
+     * Sorts this infotable's rows on the given field.
+     * @param name          The name of the field.
+     * @param ascending     Whether to sort in ascending order. Defaults to `true`.
+     */
+    Sort({name, ascending = true}: {name: string, ascending?: boolean}): void {
+        this.rows.sort((a, b) => compareValues(a[name], b[name]) * (ascending ? 1 : -1));
+    }
+
+    /**
+     * Returns a new infotable containing the rows that match the given query, sorted as specified by the query.
+     * @param query         The query.
+     * @returns             An infotable.
+     */
+    Query(query: TWRuntimeQuery = {}): TWRuntimeInfoTable {
+        const result = this.emptyCopy();
+        const filter = query.filters;
+
+        result.rows.push(...this.rows.filter(row => !filter || TWRuntimeInfoTable.rowMatchesFilter(row, filter)).map(row => row.clone()));
+
+        const sorts = query.sorts || [];
+        result.rows.sort((a, b) => {
+            for (const sort of sorts) {
+                const order = compareValues(a[sort.fieldName], b[sort.fieldName], !!sort.isCaseSensitive);
+                if (order) return sort.isAscending === false ? -order : order;
+            }
+
+            return 0;
+        });
+
+        return result;
+    }
+
+    /**
+     * Returns a copy of this infotable.
+     * @returns         An infotable.
+     */
+    clone(): TWRuntimeInfoTable {
+        const result = this.emptyCopy();
+        result.rows.push(...this.rows.map(row => row.clone()));
+
+        return result;
+    }
+
+    /**
+     * Returns the JSON representation of this infotable.
+     * @returns         A JSON infotable.
+     */
+    ToJSON(): TWJSONInfoTable {
+        return {
+            dataShape: this.dataShape.toJSON(),
+            rows: this.rows.toArray()
+        };
+    }
+
+    /**
+     * Returns the JSON representation of this infotable.
+     * @returns         A JSON infotable.
+     */
+    toJSON(): TWJSONInfoTable {
+        return this.ToJSON();
+    }
+
+    /**
+     * Returns the XML element representation of this infotable, in the format used by `xml2js` to build XML files,
+     * with each value serialized in the same way as Thingworx. This is the inverse of `fromXML`.
+     * @param withOrdinals  Defaults to `false`. If set to `true`, the ordinal of each field is included.
+     * @returns             An object containing the `DataShape` and `Rows` elements.
+     */
+    toXML(withOrdinals: boolean = false) {
+        const fields = Object.values(this.dataShape.fieldDefinitions);
+
+        return {
+            $: {} as Record<string, string>,
+            DataShape: [
+                {
+                    FieldDefinitions: [
+                        {
+                            FieldDefinition: fields.map(field => {
+                                const attributes: Record<string, unknown> = {
+                                    baseType: field.baseType,
+                                    description: field.description,
+                                    name: field.name
+                                };
+
+                                for (const aspect in field.aspects) {
+                                    attributes[`aspect.${aspect}`] = field.aspects[aspect];
+                                }
+
+                                if (withOrdinals) {
+                                    attributes.ordinal = field.ordinal;
+                                }
+
+                                return {$: attributes};
+                            })
+                        }
+                    ]
+                }
+            ],
+            Rows: [
+                {
+                    Row: Array.from(this.rows, row => {
+                        const values: Record<string, unknown> = {};
+                        // Missing values are omitted, because empty elements would be restored as empty strings
+                        for (const field of fields) {
+                            if (row[field.name] !== undefined && row[field.name] !== null) values[field.name] = XMLValueOfBaseType(row[field.name], field.baseType);
+                        }
+
+                        return values;
+                    })
+                }
+            ]
+        };
+    }
+
+    /**
+     * Returns an empty infotable with a copy of this infotable's data shape.
+     * @returns         An infotable.
+     */
+    private emptyCopy(): TWRuntimeInfoTable {
+        const result = new TWRuntimeInfoTable;
+        result.dataShape = this.dataShape.clone();
+
+        return result;
+    }
+
+    /**
+     * Returns whether the given row's values are equal to the given values.
+     * @param row       The row.
+     * @param values    The values to match.
+     * @returns         `true` if the row matches.
+     */
+    private rowMatchesValues(row: TWRuntimeValueCollection, values: Record<string, unknown>): boolean {
+        return Object.keys(values).every(name => valuesAreEqual(row[name], values[name]));
+    }
+
+}
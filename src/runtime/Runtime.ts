@@ -0,0 +1,704 @@
+import * as vm from 'vm';
+import { parseStringPromise } from 'xml2js';
+import type { TWThingTransformer } from '../transformer/ThingTransformer';
+import { GlobalFunction, TWEntityKind, TWFieldBase, TWInfoTable, TWPropertyDefinition, TWServiceParameter, TWSubscriptionDefinition } from '../transformer/TWCoreTypes';
+import { TWEntityImporter } from '../transformer/EntityImporter';
+import { globalFunctionLibrariesOfFunctions } from '../transformer/GlobalFunctionLibrary';
+import { TWRuntimeInfoTable, TWRuntimeFieldDefinitionInit } from './InfoTable';
+import { TWRuntimeGlobalFunctions } from './Globals';
+
+/**
+ * The entity kinds that can be loaded into the runtime.
+ */
+const RuntimeEntityKinds = [TWEntityKind.Thing, TWEntityKind.ThingTemplate, TWEntityKind.ThingShape, TWEntityKind.DataShape];
+
+/**
+ * The names of the parameters that are made available to subscriptions.
+ */
+const SubscriptionParameterNames = ['alertName', 'eventData', 'eventName', 'eventTime', 'source', 'sourceProperty'];
+
+/**
+ * The interface for a service that can be executed by the runtime.
+ */
+export interface TWRuntimeService {
+    name: string;
+    parameterDefinitions: Pick<TWServiceParameter, 'name' | 'baseType' | 'aspects'>[];
+    code?: string;
+
+    /**
+     * The name of the service handler. Only `Script` services can be executed.
+     */
+    handler: string;
+}
+
+/**
+ * The interface for an entity loaded into the runtime, either from a transformer or from an XML file.
+ */
+export interface TWRuntimeEntity {
+    name: string;
+    kind: TWEntityKind;
+
+    /**
+     * For things, the name of the thing template. For thing templates, the name of the base thing template.
+     */
+    thingTemplate?: string;
+
+    /**
+     * The names of the thing shapes implemented by this entity.
+     */
+    thingShapes: string[];
+
+    /**
+     * For data shapes, the name of the base data shape.
+     */
+    baseDataShape?: string;
+
+    properties: Pick<TWPropertyDefinition, 'name' | 'baseType' | 'aspects'>[];
+    services: TWRuntimeService[];
+    events: {name: string, dataShape?: string}[];
+    subscriptions: Pick<TWSubscriptionDefinition, 'name' | 'enabled' | 'eventName' | 'source' | 'sourceProperty' | 'code'>[];
+    fields: Pick<TWFieldBase, 'name' | 'baseType' | 'aspects'>[];
+    configuration: Record<string, TWInfoTable>;
+
+    /**
+     * For things, the initial values of their properties, which take precedence over the default values of the
+     * property definitions. Values may be specified in the same format as default values.
+     */
+    propertyValues?: Record<string, unknown>;
+}
+
+/**
+ * The interface for a message written to the logger by a service.
+ */
+export interface TWRuntimeLogEntry {
+    level: 'trace' | 'debug' | 'info' | 'warn' | 'error';
+    message: string;
+}
+
+/**
+ * The interface for an event fired while running services.
+ */
+export interface TWRuntimeFiredEvent {
+    source: string;
+    eventName: string;
+    sourceProperty: string;
+    eventData: TWRuntimeInfoTable;
+}
+
+/**
+ * The state of a thing created by the runtime.
+ */
+interface TWRuntimeThingState {
+    thing: Record<string, any>;
+    values: Record<string, unknown>;
+    subscriptions: TWRuntimeEntity['subscriptions'];
+}
+
+/**
+ * A local emulation of the thingworx runtime that can execute the services and subscriptions generated by the transformer.
+ * Entities are loaded either from a transformer store or from the exported XML files and are then exposed via the `Things` and
+ * `DataShapes` collections, which are also available to the executed code, together with `logger`, `Resources` and the global
+ * functions declared in `Globals.d.ts`.
+ *
+ * Property changes are tracked and trigger the matching `DataChange` subscriptions, while events fired by services are recorded
+ * in the `firedEvents` array and dispatched to the subscriptions that listen for them.
+ */
+export class TWRuntime {
+
+    /**
+     * The entities loaded into this runtime, keyed by their kind and name.
+     */
+    entities: Record<string, TWRuntimeEntity> = {};
+
+    /**
+     * The things available in this runtime. Things are created when first accessed.
+     */
+    Things: Record<string, any>;
+
+    /**
+     * The data shapes available in this runtime.
+     */
+    DataShapes: Record<string, any>;
+
+    /**
+     * The resources available in this runtime. Additional resources may be added to this object.
+     */
+    Resources: Record<string, any>;
+
+    /**
+     * The messages written to the logger.
+     */
+    logs: TWRuntimeLogEntry[] = [];
+
+    /**
+     * The events fired by things in this runtime, including data change events.
+     */
+    firedEvents: TWRuntimeFiredEvent[] = [];
+
+    /**
+     * The state of the things that have been created.
+     */
+    private things: Record<string, TWRuntimeThingState> = {};
+
+    /**
+     * Maps the class names of entities loaded from a store to their exported names.
+     */
+    private classNames: Record<string, string> = {};
+
+    /**
+     * The context in which code is executed.
+     */
+    private context: vm.Context;
+
+    /**
+     * A cache of functions compiled from service and subscription code.
+     */
+    private compiledFunctions: Record<string, Function> = {};
+
+    constructor() {
+        this.Things = new Proxy({}, {
+            get: (target, name) => typeof name == 'string' ? this.thingNamed(name) : undefined,
+            has: (target, name) => typeof name == 'string' && !!this.thingNamed(name),
+            ownKeys: () => this.thingNames(),
+            getOwnPropertyDescriptor: (target, name) => typeof name == 'string' && this.thingNamed(name) ? {enumerable: true, configurable: true, value: this.thingNamed(name)} : undefined
+        });
+
+        this.DataShapes = new Proxy({}, {
+            get: (target, name) => typeof name == 'string' ? this.dataShapeNamed(name) : undefined,
+            has: (target, name) => typeof name == 'string' && !!this.entityNamed(TWEntityKind.DataShape, name)
+        });
+
+        this.Resources = {
+            InfoTableFunctions: {
+                CreateInfoTable: () => new TWRuntimeInfoTable(),
+                CreateInfoTableFromDataShape: ({dataShapeName}: {dataShapeName: string}) => new TWRuntimeInfoTable(this.fieldsOfDataShape(dataShapeName))
+            }
+        };
+
+        const log = (level: TWRuntimeLogEntry['level']) => (...messages: unknown[]) => {
+            this.logs.push({level, message: messages.map(m => typeof m == 'string' ? m : JSON.stringify(m)).join(' ')});
+        };
+
+        this.context = vm.createContext({
+            ...TWRuntimeGlobalFunctions(),
+            Things: this.Things,
+            DataShapes: this.DataShapes,
+            Resources: this.Resources,
+            logger: {trace: log('trace'), debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error')}
+        });
+    }
+
+    /**
+     * Loads the thing, thing template, thing shape and data shape entities from the given transformer store.
+     * The transformers must have completed the after phase, so that their services contain the compiled code.
+     * @param store         The transformer store.
+     */
+    loadStore(store: Record<string, TWThingTransformer>): void {
+        for (const key in store) {
+            if (key.startsWith('@')) continue;
+
+            const transformer = store[key];
+            if (!RuntimeEntityKinds.includes(transformer.entityKind)) continue;
+
+            const name = transformer.exportedName || transformer.className!;
+            const configuration: Record<string, TWInfoTable> = {};
+            for (const table in transformer.configuration || {}) {
+                configuration[table] = transformer.configuration![table];
+            }
+
+            this.classNames[transformer.className!] = name;
+            this.addEntity({
+                name,
+                kind: transformer.entityKind,
+                thingTemplate: transformer.thingTemplateName,
+                thingShapes: transformer.thingShapes,
+                baseDataShape: transformer.baseDataShapeName,
+                properties: transformer.properties,
+                services: transformer.services.map(s => ({
+                    name: s.name,
+                    parameterDefinitions: s.parameterDefinitions,
+                    code: s.code,
+                    handler: s.SQLInfo?.handler || 'Script'
+                })),
+                events: transformer.events,
+                subscriptions: transformer.subscriptions,
+                fields: transformer.fields,
+                configuration
+            });
+        }
+
+        // Global functions compiled into libraries are defined in the context, as their library things do when they start
+        const functions = store['@globalFunctions'] as unknown as Record<string, GlobalFunction> | undefined;
+        for (const library of Object.values(globalFunctionLibrariesOfFunctions(functions || {}))) {
+            this.context[library.identifier] = vm.runInContext(library.expression, this.context);
+        }
+    }
+
+    /**
+     * Loads the thing, thing template, thing shape and data shape entities from the given entity XML.
+     * @param xml           The contents of an XML file exported by thingworx or generated by the transformer.
+     */
+    async loadXML(xml: string): Promise<void> {
+        const XML = await parseStringPromise(xml);
+        const entities = XML?.Entities;
+        if (!entities) {
+            throw new Error(`The XML does not contain any entities.`);
+        }
+
+        const aspectsOfAttributes = (attributes: Record<string, string>) => {
+            const aspects: Record<string, string> = {};
+            for (const key in attributes) {
+                if (key.startsWith('aspect.')) aspects[key.substring('aspect.'.length)] = attributes[key];
+            }
+            return aspects;
+        };
+
+        const fieldsOfElements = (elements: any[] = []) => elements.map(field => ({
+            name: field.$.name,
+            baseType: field.$.baseType,
+            description: field.$.description || '',
+            aspects: aspectsOfAttributes(field.$),
+            ordinal: parseInt(field.$.ordinal || '0')
+        }));
+
+        for (const kind of RuntimeEntityKinds) {
+            for (const entity of entities[kind + 's']?.[0]?.[kind] || []) {
+                const shape = kind == TWEntityKind.ThingShape ? entity : entity.ThingShape?.[0] || {};
+                const implementations = shape.ServiceImplementations?.[0]?.ServiceImplementation || [];
+
+                const configuration: Record<string, TWInfoTable> = {};
+                for (const table of entity.ConfigurationTables?.[0]?.ConfigurationTable || []) {
+                    configuration[table.$.name] = TWRuntimeInfoTable.fromXML(table);
+                }
+
+                // The values of thing properties are stored as text, or as the data shape and rows of an infotable
+                const propertyValues: Record<string, unknown> = {};
+                const properties = entity.ThingProperties?.[0];
+                for (const name in typeof properties == 'object' ? properties : {}) {
+                    const value = properties[name]?.[0]?.Value?.[0];
+                    if (value === undefined) continue;
+
+                    if (typeof value == 'object' && (value.DataShape || value.InfoTable)) {
+                        propertyValues[name] = TWRuntimeInfoTable.fromXML(value.InfoTable?.[0] || value);
+                    }
+                    else {
+                        const text = typeof value == 'object' ? value._ ?? '' : value;
+                        propertyValues[name] = text.trim();
+                    }
+                }
+
+                this.addEntity({
+                    name: entity.$.name,
+                    kind,
+                    thingTemplate: entity.$.thingTemplate || entity.$.baseThingTemplate || undefined,
+                    thingShapes: (entity.ImplementedShapes?.[0]?.ImplementedShape || []).map(s => s.$.name),
+                    baseDataShape: entity.$.baseDataShape || undefined,
+                    properties: (shape.PropertyDefinitions?.[0]?.PropertyDefinition || []).map(property => ({
+                        name: property.$.name,
+                        baseType: property.$.baseType,
+                        aspects: aspectsOfAttributes(property.$)
+                    })),
+                    services: (shape.ServiceDefinitions?.[0]?.ServiceDefinition || []).map(service => {
+                        const implementation = TWEntityImporter.implementationNamed(implementations, service.$.name);
+                        return {
+                            name: service.$.name,
+                            parameterDefinitions: fieldsOfElements(service.ParameterDefinitions?.[0]?.FieldDefinition),
+                            code: TWEntityImporter.scriptRowOfImplementation(implementation).code,
+                            handler: implementation?.$.handlerName || 'Script'
+                        };
+                    }),
+                    events: (shape.EventDefinitions?.[0]?.EventDefinition || []).map(event => ({name: event.$.name, dataShape: event.$.dataShape})),
+                    subscriptions: (shape.Subscriptions?.[0]?.Subscription || []).map(subscription => ({
+                        name: subscription.$.name,
+                        enabled: subscription.$.enabled != 'false',
+                        eventName: subscription.$.eventName,
+                        source: subscription.$.source || '',
+                        sourceProperty: subscription.$.sourceProperty || '',
+                        code: TWEntityImporter.scriptRowOfImplementation(subscription.ServiceImplementation?.[0]).code
+                    })),
+                    fields: fieldsOfElements(entity.FieldDefinitions?.[0]?.FieldDefinition),
+                    configuration,
+                    propertyValues
+                });
+            }
+        }
+    }
+
+    /**
+     * Adds the given entity to this runtime, replacing any existing entity of the same kind with the same name.
+     * @param entity        The entity to add.
+     */
+    addEntity(entity: TWRuntimeEntity): void {
+        this.entities[`${entity.kind}/${entity.name}`] = entity;
+
+        if (entity.kind == TWEntityKind.Thing) {
+            delete this.things[entity.name];
+        }
+    }
+
+    /**
+     * Returns the entity of the given kind with the given name.
+     * @param kind          The kind of entity.
+     * @param name          The name of the entity. For entities loaded from a store, this may also be the class name.
+     * @returns             The entity, or `undefined` if it was not loaded.
+     */
+    entityNamed(kind: TWEntityKind, name: string): TWRuntimeEntity | undefined {
+        return this.entities[`${kind}/${name}`] || this.entities[`${kind}/${this.classNames[name]}`];
+    }
+
+    /**
+     * Creates a thing with the given name that is based on the given thing template and implements the given thing shapes.
+     * @param name          The name of the thing.
+     * @param thingTemplate The name of the thing template.
+     * @param thingShapes   The names of the thing shapes.
+     * @returns             The thing.
+     */
+    createThing(name: string, thingTemplate: string, thingShapes: string[] = []): any {
+        this.addEntity({
+            name,
+            kind: TWEntityKind.Thing,
+            thingTemplate,
+            thingShapes,
+            properties: [],
+            services: [],
+            events: [],
+            subscriptions: [],
+            fields: [],
+            configuration: {}
+        });
+
+        return this.thingNamed(name);
+    }
+
+    /**
+     * Replaces the thing with the given name with the given object. This can be used to provide
+     * implementations for entities that are not part of the project.
+     * @param name          The name of the thing.
+     * @param thing         An object containing the thing's members.
+     */
+    mockThing(name: string, thing: Record<string, any>): void {
+        this.things[name] = {thing: {name, ...thing}, values: {}, subscriptions: []};
+    }
+
+    /**
+     * Replaces the implementation of the given service with the given function.
+     * @param thingName     The name of the thing.
+     * @param serviceName   The name of the service.
+     * @param service       The function to invoke instead of the service. It receives the service parameters as its argument.
+     */
+    mockService(thingName: string, serviceName: string, service: (parameters: any) => unknown): void {
+        const thing = this.thingNamed(thingName);
+        if (!thing) {
+            throw new Error(`The thing "${thingName}" does not exist.`);
+        }
+
+        thing[serviceName] = service;
+    }
+
+    /**
+     * Discards all things along with their property values, as well as the recorded logs and events.
+     * Loaded entities are retained.
+     */
+    reset(): void {
+        this.things = {};
+        this.logs = [];
+        this.firedEvents = [];
+    }
+
+    /**
+     * Returns the names of all the things that exist in this runtime.
+     * @returns             An array of thing names.
+     */
+    private thingNames(): string[] {
+        const names = new Set(Object.keys(this.things));
+        for (const key in this.entities) {
+            if (this.entities[key].kind == TWEntityKind.Thing) names.add(this.entities[key].name);
+        }
+
+        return [...names];
+    }
+
+    /**
+     * Returns the thing with the given name, creating it if needed.
+     * @param name          The name of the thing.
+     * @returns             The thing, or `undefined` if it doesn't exist.
+     */
+    private thingNamed(name: string): any {
+        if (this.things[name]) return this.things[name].thing;
+
+        const entity = this.entityNamed(TWEntityKind.Thing, name);
+        if (!entity) return;
+        if (this.things[entity.name]) return this.things[entity.name].thing;
+
+        const state: TWRuntimeThingState = {thing: {name: entity.name}, values: {}, subscriptions: []};
+        this.things[entity.name] = state;
+
+        const configuration: Record<string, TWInfoTable> = {};
+        const propertyValues = entity.propertyValues || {};
+
+        for (const ancestor of this.inheritanceChainOfEntity(entity)) {
+            for (const property of ancestor.properties) {
+                const value = property.name in propertyValues ? propertyValues[property.name] : property.aspects.defaultValue;
+                state.values[property.name] = this.valueOfDefault(value, property.baseType, property.aspects.dataShape);
+
+                Object.defineProperty(state.thing, property.name, {
+                    enumerable: true,
+                    configurable: true,
+                    get: () => state.values[property.name],
+                    set: value => this.setPropertyValue(state, property, value)
+                });
+            }
+
+            for (const service of ancestor.services) {
+                state.thing[service.name] = (parameters: Record<string, unknown> = {}) => this.invokeService(state.thing, service, parameters);
+            }
+
+            for (const event of ancestor.events) {
+                state.thing[event.name] = (eventData?: unknown) => {
+                    this.dispatchEvent(entity.name, event.name, this.infotableOfData(eventData, event.dataShape));
+                };
+            }
+
+            Object.assign(configuration, ancestor.configuration);
+            state.subscriptions.push(...ancestor.subscriptions);
+        }
+
+        state.thing.GetConfigurationTable = ({tableName}: {tableName: string}) => {
+            if (!configuration[tableName]) {
+                throw new Error(`The configuration table "${tableName}" does not exist on "${entity.name}".`);
+            }
+
+            return TWRuntimeInfoTable.fromJSON(configuration[tableName]);
+        };
+
+        return state.thing;
+    }
+
+    /**
+     * Returns the entities whose members are inherited by the given entity, starting with the
+     * base thing template and ending with the entity itself. Entities that were not loaded are skipped.
+     * @param entity        The entity.
+     * @param visited       The names of the entities that were already visited.
+     * @returns             An array of entities.
+     */
+    private inheritanceChainOfEntity(entity: TWRuntimeEntity, visited: Set<string> = new Set): TWRuntimeEntity[] {
+        const key = `${entity.kind}/${entity.name}`;
+        if (visited.has(key)) return [];
+        visited.add(key);
+
+        const result: TWRuntimeEntity[] = [];
+
+        const thingTemplate = entity.thingTemplate && this.entityNamed(TWEntityKind.ThingTemplate, entity.thingTemplate);
+        if (thingTemplate) {
+            result.push(...this.inheritanceChainOfEntity(thingTemplate, visited));
+        }
+
+        for (const name of entity.thingShapes) {
+            const thingShape = this.entityNamed(TWEntityKind.ThingShape, name);
+            if (thingShape) result.push(...this.inheritanceChainOfEntity(thingShape, visited));
+        }
+
+        result.push(entity);
+        return result;
+    }
+
+    /**
+     * Returns the data shape with the given name.
+     * @param name          The name of the data shape.
+     * @returns             The data shape, or `undefined` if it was not loaded.
+     */
+    private dataShapeNamed(name: string): any {
+        const entity = this.entityNamed(TWEntityKind.DataShape, name);
+        if (!entity) return;
+
+        return {
+            name: entity.name,
+            CreateValues: () => new TWRuntimeInfoTable(this.fieldsOfDataShape(name)),
+            CreateValuesWithData: ({values}: {values?: Record<string, unknown>} = {}) => this.infotableOfData(values || {}, name)
+        };
+    }
+
+    /**
+     * Returns the field definitions of the given data shape, including the inherited fields.
+     * @param name          The name of the data shape.
+     * @returns             The field definitions, keyed by name.
+     */
+    private fieldsOfDataShape(name?: string): Record<string, TWRuntimeFieldDefinitionInit> {
+        const entity = name ? this.entityNamed(TWEntityKind.DataShape, name) : undefined;
+        if (!entity) return {};
+
+        const fields = this.fieldsOfDataShape(entity.baseDataShape);
+        for (const field of entity.fields) {
+            fields[field.name] = field;
+        }
+
+        return fields;
+    }
+
+    /**
+     * Converts the given data into an infotable.
+     * @param data          An infotable, a JSON infotable, an array of rows or a single row.
+     * @param dataShape     The name of the infotable's data shape. If the data shape was not loaded, the fields are derived from the data.
+     * @returns             An infotable.
+     */
+    private infotableOfData(data: unknown, dataShape?: string): TWRuntimeInfoTable {
+        if (data instanceof TWRuntimeInfoTable) return data;
+
+        if (data && typeof data == 'object' && 'rows' in data && 'dataShape' in data) {
+            return TWRuntimeInfoTable.fromJSON(data as TWInfoTable);
+        }
+
+        const rows = (Array.isArray(data) ? data : data ? [data] : []) as Record<string, unknown>[];
+        let fields = this.fieldsOfDataShape(dataShape);
+
+        if (!Object.keys(fields).length) {
+            fields = {};
+            for (const name of new Set(rows.flatMap(row => Object.keys(row)))) {
+                fields[name] = {name, baseType: 'ANYSCALAR'};
+            }
+        }
+
+        const result = new TWRuntimeInfoTable(fields);
+        for (const row of rows) {
+            result.AddRow(row);
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts the given default value into a value of the given base type.
+     * @param value         The default value, as specified in the property or parameter definition.
+     * @param baseType      The base type.
+     * @param dataShape     For infotables, the name of the data shape.
+     * @returns             The converted value.
+     */
+    private valueOfDefault(value: unknown, baseType: string, dataShape?: string): unknown {
+        if (value === undefined || value === '') return undefined;
+        if (typeof value != 'string') return baseType == 'INFOTABLE' ? this.infotableOfData(value, dataShape) : value;
+
+        switch (baseType) {
+            case 'NUMBER':
+            case 'INTEGER':
+            case 'LONG':
+                return parseFloat(value);
+            case 'BOOLEAN':
+                return value == 'true';
+            case 'DATETIME':
+                return new Date(value);
+            case 'JSON':
+            case 'INFOTABLE':
+                // JSON default values are not required to be strict JSON
+                const json = vm.runInContext(`(${value})`, this.context);
+                return baseType == 'INFOTABLE' ? this.infotableOfData(json, dataShape) : json;
+            default:
+                return value;
+        }
+    }
+
+    /**
+     * Updates the value of the given property and fires the data change event if needed.
+     * @param state         The state of the thing.
+     * @param property      The property definition.
+     * @param value         The new value.
+     */
+    private setPropertyValue(state: TWRuntimeThingState, property: TWRuntimeEntity['properties'][number], value: unknown): void {
+        const oldValue = state.values[property.name];
+        state.values[property.name] = value;
+
+        const dataChangeType = property.aspects.dataChangeType || 'VALUE';
+        if (dataChangeType == 'NEVER') return;
+
+        if (dataChangeType != 'ALWAYS') {
+            const comparable = (v: unknown) => v && typeof v == 'object' ? JSON.stringify(v) : v;
+            if (comparable(oldValue) === comparable(value)) return;
+        }
+
+        const vtq = (value: unknown) => {
+            const result = new TWRuntimeInfoTable({
+                value: {name: 'value', baseType: property.baseType},
+                time: {name: 'time', baseType: 'DATETIME'},
+                quality: {name: 'quality', baseType: 'STRING'}
+            });
+            result.AddRow({value, time: new Date, quality: 'GOOD'});
+            return result;
+        };
+
+        const eventData = new TWRuntimeInfoTable({
+            newValue: {name: 'newValue', baseType: 'VTQ'},
+            oldValue: {name: 'oldValue', baseType: 'VTQ'}
+        });
+        eventData.AddRow({newValue: vtq(value), oldValue: vtq(oldValue)});
+
+        this.dispatchEvent(state.thing.name, 'DataChange', eventData, property.name);
+    }
+
+    /**
+     * Records the given event and runs the subscriptions that listen for it.
+     * @param source        The name of the thing that fired the event.
+     * @param eventName     The name of the event.
+     * @param eventData     The event data.
+     * @param sourceProperty    For data change events, the name of the property that changed.
+     */
+    private dispatchEvent(source: string, eventName: string, eventData: TWRuntimeInfoTable, sourceProperty: string = ''): void {
+        this.firedEvents.push({source, eventName, sourceProperty, eventData});
+
+        for (const name of this.thingNames()) {
+            const thing = this.thingNamed(name);
+            const state = this.things[name];
+
+            for (const subscription of state.subscriptions) {
+                if (!subscription.enabled || subscription.eventName != eventName) continue;
+                if ((subscription.source || thing.name) != source) continue;
+                if (subscription.sourceProperty && subscription.sourceProperty != sourceProperty) continue;
+
+                const fn = this.compiledFunction(subscription.code, SubscriptionParameterNames);
+                fn.call(undefined, thing, '', eventData, eventName, new Date, source, sourceProperty);
+            }
+        }
+    }
+
+    /**
+     * Invokes the given service on the given thing.
+     * @param thing         The thing.
+     * @param service       The service definition.
+     * @param parameters    The service parameters.
+     * @returns             The service result.
+     */
+    private invokeService(thing: Record<string, any>, service: TWRuntimeService, parameters: Record<string, unknown>): unknown {
+        if (service.handler != 'Script' || service.code === undefined) {
+            throw new Error(`The service "${thing.name}.${service.name}" cannot be executed locally. Use mockService to provide an implementation for it.`);
+        }
+
+        const names = service.parameterDefinitions.map(p => p.name);
+        const values = service.parameterDefinitions.map(p => {
+            const value = parameters[p.name];
+            if (value === undefined) return this.valueOfDefault(p.aspects.defaultValue, p.baseType, p.aspects.dataShape);
+
+            return p.baseType == 'INFOTABLE' ? this.infotableOfData(value, p.aspects.dataShape) : value;
+        });
+
+        const fn = this.compiledFunction(service.code, names, true);
+        return fn.call(undefined, thing, ...values);
+    }
+
+    /**
+     * Compiles the given service or subscription code into a function that takes `me` as its first argument,
+     * followed by the given parameters.
+     * @param code          The code.
+     * @param parameters    The names of the parameters.
+     * @param isService     If `true`, the function returns the value of the `result` variable, if the code declares it.
+     * @returns             A function.
+     */
+    private compiledFunction(code: string, parameters: string[], isService: boolean = false): Function {
+        const returnStatement = isService ? `return typeof result == 'undefined' ? undefined : result;\n` : '';
+        const source = `(function (me${parameters.map(p => `, ${p}`).join('')}) {\n${code}\n${returnStatement}})`;
+
+        if (!this.compiledFunctions[source]) {
+            this.compiledFunctions[source] = vm.runInContext(source, this.context);
+        }
+
+        return this.compiledFunctions[source];
+    }
+
+}
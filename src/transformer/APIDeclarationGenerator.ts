@@ -1,4 +1,4 @@
-import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataShapeField } from './TWCoreTypes';
+import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataShapeField, TWEventDefinition } from './TWCoreTypes';
 
  /**
   * A regex that is used to test if a string has any non-alphanumeric character.
@@ -10,6 +10,196 @@ import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataSha
   */
  export const NonAlphanumericRegexGlobal = /[^a-zA-Z\d_]/g;
  
+/**
+ * The interface for a JSON schema object in an OpenAPI document.
+ */
+export interface TWOpenAPISchema {
+    type?: string;
+    format?: string;
+    description?: string;
+    properties?: Record<string, TWOpenAPISchema>;
+    required?: string[];
+    items?: TWOpenAPISchema;
+    default?: unknown;
+    $ref?: string;
+}
+
+/**
+ * The interface for an OpenAPI 3 document.
+ */
+export interface TWOpenAPIDocument {
+    openapi: string;
+    info: { title: string, version: string, description?: string };
+    paths: Record<string, Record<string, unknown>>;
+    components: {
+        schemas: Record<string, TWOpenAPISchema>;
+        securitySchemes: Record<string, unknown>;
+    };
+    security: Record<string, string[]>[];
+}
+
+/**
+ * Describes how a value sent to or received from a thingworx service is converted by a generated API client.
+ * This is either the name of a base type or, for infotables, an object that describes the infotable's fields.
+ */
+export type TWAPIClientType = string | { baseType: string, fields: Record<string, TWAPIClientType> };
+
+/**
+ * The typescript types used by API clients for the base types whose values are not strings.
+ */
+const APIClientBaseTypes: Record<string, string> = {
+    NOTHING: 'void',
+    NUMBER: 'number',
+    INTEGER: 'number',
+    LONG: 'number',
+    TIMESPAN: 'number',
+    BOOLEAN: 'boolean',
+    DATETIME: 'Date',
+    TWJSON: 'any',
+    VARIANT: 'any',
+    QUERY: 'Record<string, any>',
+    LOCATION: '{latitude: number, longitude: number, altitude?: number, units?: string}',
+    TAGS: '{vocabulary: string, vocabularyTerm: string}[]',
+};
+
+/**
+ * The source code of the base class from which the generated API clients inherit.
+ */
+const APIClientBaseClass = `
+/**
+ * Describes how a value sent to or received from a thingworx service is converted.
+ */
+export type ThingworxClientType = string | { baseType: string, fields: Record<string, ThingworxClientType> };
+
+/**
+ * The base class of the generated clients, which invokes services via the thingworx REST API.
+ */
+export class ThingworxClient {
+
+    /**
+     * @param baseURL           The URL of the thingworx server, e.g. \`https://example.com\`.
+     * @param appKey            If specified, the application key used to authenticate the requests.
+     * @param fetchFunction     If specified, the function used to make the requests. Defaults to \`fetch\`.
+     */
+    constructor(readonly baseURL: string, readonly appKey?: string, readonly fetchFunction: typeof fetch = (input, init) => fetch(input, init)) {}
+
+    /**
+     * Converts the given value into the format expected by thingworx.
+     * @param value     The value to convert.
+     * @param type      The type of the value.
+     * @returns         The converted value.
+     */
+    protected serializedValue(value: any, type: ThingworxClientType): any {
+        if (value === undefined || value === null) return value;
+
+        if (typeof type != 'string') {
+            const fieldDefinitions: Record<string, {name: string, baseType: string}> = {};
+            for (const name in type.fields) {
+                const field = type.fields[name];
+                fieldDefinitions[name] = {name, baseType: typeof field == 'string' ? field : field.baseType};
+            }
+
+            const rows = (value as Record<string, any>[]).map(row => {
+                const result: Record<string, any> = {};
+                for (const name in row) {
+                    result[name] = type.fields[name] ? this.serializedValue(row[name], type.fields[name]) : row[name];
+                }
+                return result;
+            });
+
+            return {dataShape: {fieldDefinitions}, rows};
+        }
+
+        if (type == 'DATETIME' && value instanceof Date) return value.getTime();
+
+        return value;
+    }
+
+    /**
+     * Converts the given value returned by thingworx into its client representation. Infotables are converted
+     * into arrays of rows, dates into \`Date\` objects and JSON strings into objects.
+     * @param value     The value to convert.
+     * @param type      The type of the value.
+     * @returns         The converted value.
+     */
+    protected deserializedValue(value: any, type: ThingworxClientType): any {
+        if (value === undefined || value === null) return value;
+
+        if (typeof type != 'string') {
+            return ((value.rows || []) as Record<string, any>[]).map(row => {
+                const result: Record<string, any> = {};
+                for (const name in row) {
+                    result[name] = type.fields[name] ? this.deserializedValue(row[name], type.fields[name]) : row[name];
+                }
+                return result;
+            });
+        }
+
+        if (type == 'DATETIME') return new Date(value);
+        if (type == 'JSON' && typeof value == 'string') return JSON.parse(value);
+
+        return value;
+    }
+
+    /**
+     * Invokes the given service and returns its converted result.
+     * @param thingName         The name of the thing.
+     * @param serviceName       The name of the service.
+     * @param args              The service's arguments.
+     * @param parameterTypes    The types of the service's parameters.
+     * @param resultType        The type of the service's result, if it returns a value.
+     * @returns                 A promise that resolves with the result.
+     */
+    protected async invoke(thingName: string, serviceName: string, args: Record<string, any> | undefined, parameterTypes: Record<string, ThingworxClientType>, resultType?: ThingworxClientType): Promise<any> {
+        const body: Record<string, any> = {};
+        for (const name in args) {
+            body[name] = parameterTypes[name] ? this.serializedValue(args[name], parameterTypes[name]) : args[name];
+        }
+
+        const headers: Record<string, string> = {'Content-Type': 'application/json', Accept: 'application/json'};
+        if (this.appKey) headers.appKey = this.appKey;
+
+        const url = \`\${this.baseURL}/Thingworx/Things/\${encodeURIComponent(thingName)}/Services/\${encodeURIComponent(serviceName)}\`;
+        const response = await this.fetchFunction(url, {method: 'POST', headers, body: JSON.stringify(body)});
+        if (!response.ok) {
+            throw new Error(\`Service \${thingName}.\${serviceName} failed with status \${response.status}: \${await response.text()}\`);
+        }
+
+        if (!resultType) return undefined;
+
+        // Results that aren't infotables are returned in the "result" field of the infotable's first row
+        const infoTable = await response.json();
+        return typeof resultType == 'string' ? this.deserializedValue(infoTable.rows?.[0]?.result, resultType) : this.deserializedValue(infoTable, resultType);
+    }
+}
+`;
+
+/**
+ * The JSON schemas of the base types whose values are not strings.
+ */
+const OpenAPIBaseTypeSchemas: Record<string, TWOpenAPISchema> = {
+    NUMBER: {type: 'number'},
+    INTEGER: {type: 'integer', format: 'int32'},
+    LONG: {type: 'integer', format: 'int64'},
+    BOOLEAN: {type: 'boolean'},
+    DATETIME: {type: 'integer', format: 'int64', description: 'The number of milliseconds since the unix epoch.'},
+    TIMESPAN: {type: 'integer', format: 'int64'},
+    PASSWORD: {type: 'string', format: 'password'},
+    IMAGE: {type: 'string', format: 'byte'},
+    BLOB: {type: 'string', format: 'byte'},
+    TWJSON: {type: 'object'},
+    QUERY: {type: 'object'},
+    VARIANT: {},
+    LOCATION: {
+        type: 'object',
+        properties: {latitude: {type: 'number'}, longitude: {type: 'number'}, altitude: {type: 'number'}, units: {type: 'string'}}
+    },
+    TAGS: {
+        type: 'array',
+        items: {type: 'object', properties: {vocabulary: {type: 'string'}, vocabularyTerm: {type: 'string'}}}
+    },
+};
+
 /**
  * A class that contains various static methods for parsing entity metadata
  * objects into typescript class declarations.
@@ -76,6 +266,7 @@ import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataSha
 
     /**
      * Returns a string that represents a typescript declaration of a given property definition.
+     * Read only properties are declared as `readonly`.
      * @param property          The property definition.
      * @returns                 A string representing a property declaration.
      */
@@ -86,11 +277,38 @@ import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataSha
             name = JSON.stringify(name);
         }
 
+        const modifier = (property as TWPropertyDefinition).aspects?.isReadOnly ? 'readonly ' : '';
+
         return `
     /**
      * ${property.description}
      */
-    ${name}: ${this.baseTypeOfPropertyDefinition(property)};
+    ${modifier}${name}: ${this.baseTypeOfPropertyDefinition(property)};
+    `;
+    }
+
+    /**
+     * Returns a string that represents a typescript declaration of a given event definition.
+     * @param event             The event definition.
+     * @returns                 A string representing an event declaration.
+     */
+    static declarationOfEvent(event: TWEventDefinition): string {
+        // Use string literals for names with special characters
+        let name = event.name;
+        if (NonAlphanumericRegex.test(name)) {
+            name = JSON.stringify(name);
+        }
+
+        let dataShape = event.dataShape || 'unknown';
+        if (NonAlphanumericRegex.test(dataShape)) {
+            dataShape = JSON.stringify(dataShape);
+        }
+
+        return `
+    /**
+     * ${event.description}
+     */
+    ${name}: EVENT<${dataShape}>;
     `;
     }
 
@@ -116,4 +334,246 @@ import {TWServiceDefinition, TWPropertyDefinition, TWServiceParameter, TWDataSha
 `;
     }
 
+    /**
+     * Returns the name under which the schema of the given data shape is added to an OpenAPI document's components.
+     * @param dataShape     The name of the data shape.
+     * @returns             The name of the schema component.
+     */
+    static schemaNameOfDataShape(dataShape: string): string {
+        return dataShape.replace(NonAlphanumericRegexGlobal, '_');
+    }
+
+    /**
+     * Returns the JSON schema of the infotable format used by the thingworx REST API.
+     * @param dataShape         The name of the infotable's data shape, if it has one.
+     * @param dataShapes        The names of the data shapes whose schemas are included in the document. Rows of
+     *                          other data shapes are described as plain objects.
+     * @returns                 A JSON schema.
+     */
+    static infoTableSchemaOfDataShape(dataShape: string | undefined, dataShapes: Set<string>): TWOpenAPISchema {
+        const rowSchema: TWOpenAPISchema = dataShape && dataShapes.has(dataShape) ?
+            {$ref: `#/components/schemas/${this.schemaNameOfDataShape(dataShape)}`} :
+            {type: 'object'};
+
+        return {
+            type: 'object',
+            properties: {
+                dataShape: {type: 'object', properties: {fieldDefinitions: {type: 'object'}}},
+                rows: {type: 'array', items: rowSchema}
+            }
+        };
+    }
+
+    /**
+     * Returns the JSON schema that describes the values of the given property definition's base type.
+     * @param definition        The property definition.
+     * @param dataShapes        The names of the data shapes whose schemas are included in the document.
+     * @returns                 A JSON schema.
+     */
+    static schemaOfPropertyDefinition(definition: TWServiceParameter, dataShapes: Set<string>): TWOpenAPISchema {
+        const baseType = this.baseTypeOfPropertyDefinition(definition);
+
+        const schema: TWOpenAPISchema = baseType.startsWith('INFOTABLE') ?
+            this.infoTableSchemaOfDataShape(definition.aspects?.dataShape, dataShapes) :
+            {...(OpenAPIBaseTypeSchemas[baseType] || {type: 'string'})};
+
+        if (definition.description) schema.description = definition.description;
+        const defaultValue = definition.aspects?.defaultValue;
+        if (defaultValue !== undefined) {
+            // Default values of numeric parameters may be stored as strings
+            schema.default = (schema.type == 'number' || schema.type == 'integer') && typeof defaultValue == 'string' ? Number(defaultValue) : defaultValue;
+        }
+
+        return schema;
+    }
+
+    /**
+     * Returns the JSON schema of a data shape with the given fields, which describes a row of an infotable.
+     * @param fields            The data shape's fields.
+     * @param dataShapes        The names of the data shapes whose schemas are included in the document.
+     * @returns                 A JSON schema.
+     */
+    static schemaOfDataShapeFields(fields: TWDataShapeField[], dataShapes: Set<string>): TWOpenAPISchema {
+        const properties: Record<string, TWOpenAPISchema> = {};
+
+        for (const field of fields) {
+            properties[field.name] = this.schemaOfPropertyDefinition(field, dataShapes);
+        }
+
+        return {type: 'object', properties};
+    }
+
+    /**
+     * Returns the OpenAPI operation that invokes the given service via the thingworx REST API.
+     * @param thingName         The name of the thing containing the service.
+     * @param service           The service definition.
+     * @param dataShapes        The names of the data shapes whose schemas are included in the document.
+     * @returns                 An OpenAPI operation object.
+     */
+    static operationOfService(thingName: string, service: TWServiceDefinition, dataShapes: Set<string>): Record<string, unknown> {
+        const properties: Record<string, TWOpenAPISchema> = {};
+        const required: string[] = [];
+
+        for (const argument of service.parameterDefinitions) {
+            properties[argument.name] = this.schemaOfPropertyDefinition(argument, dataShapes);
+            if (argument.aspects.isRequired && argument.aspects.defaultValue === undefined) required.push(argument.name);
+        }
+
+        const operation: Record<string, unknown> = {
+            operationId: `${thingName}_${service.name}`.replace(NonAlphanumericRegexGlobal, '_'),
+            tags: [thingName],
+            requestBody: {
+                required: required.length > 0,
+                content: {'application/json': {schema: required.length ? {type: 'object', properties, required} : {type: 'object', properties}}}
+            },
+        };
+
+        if (service.description) operation.summary = service.description;
+
+        // Async services and services that don't return anything respond with an empty body; other services
+        // return their result as an infotable, whose single row contains the result in its "result" field
+        const resultType = service.resultType;
+        if (service.aspects.isAsync || resultType.baseType == 'NOTHING') {
+            operation.responses = {200: {description: resultType.description || 'The service was invoked.'}};
+        }
+        else {
+            const schema = resultType.baseType == 'INFOTABLE' ?
+                this.infoTableSchemaOfDataShape(resultType.aspects?.dataShape, dataShapes) :
+                {
+                    type: 'object',
+                    properties: {
+                        dataShape: {type: 'object', properties: {fieldDefinitions: {type: 'object'}}},
+                        rows: {type: 'array', items: {type: 'object', properties: {result: this.schemaOfPropertyDefinition(resultType, dataShapes)}}}
+                    }
+                };
+
+            operation.responses = {200: {description: resultType.description || 'The result of the service.', content: {'application/json': {schema}}}};
+        }
+
+        return operation;
+    }
+
+    /**
+     * Returns the source code of the base class from which the generated API clients inherit.
+     * @returns             Typescript source code.
+     */
+    static clientBaseClass(): string {
+        return APIClientBaseClass;
+    }
+
+    /**
+     * Returns a string that represents the typescript type used by API clients for the values of the given
+     * property definition's base type.
+     * @param definition        The property definition.
+     * @param dataShapes        The data shapes for which row interfaces are generated, mapped to their fields.
+     * @returns                 A typescript type string.
+     */
+    static clientTypeOfPropertyDefinition(definition: TWServiceParameter, dataShapes: Map<string, TWDataShapeField[]>): string {
+        const baseType = this.baseTypeOfPropertyDefinition(definition);
+
+        if (baseType.startsWith('INFOTABLE')) {
+            const dataShape = definition.aspects?.dataShape;
+            return dataShape && dataShapes.has(dataShape) ? `${this.schemaNameOfDataShape(dataShape)}[]` : 'Record<string, any>[]';
+        }
+
+        return APIClientBaseTypes[baseType] || 'string';
+    }
+
+    /**
+     * Returns an object that describes how API clients convert the values of the given property definition.
+     * @param definition        The property definition.
+     * @param dataShapes        The data shapes for which row interfaces are generated, mapped to their fields.
+     * @param visited           The data shapes whose fields are being described, used to stop recursion.
+     * @returns                 A client type.
+     */
+    static clientTypeDescriptorOfPropertyDefinition(definition: TWServiceParameter, dataShapes: Map<string, TWDataShapeField[]>, visited: Set<string> = new Set): TWAPIClientType {
+        if (definition.baseType != 'INFOTABLE') return definition.baseType;
+
+        const fields: Record<string, TWAPIClientType> = {};
+        const dataShape = definition.aspects?.dataShape;
+        if (dataShape && dataShapes.has(dataShape) && !visited.has(dataShape)) {
+            visited.add(dataShape);
+            for (const field of dataShapes.get(dataShape)!) {
+                fields[field.name] = this.clientTypeDescriptorOfPropertyDefinition(field, dataShapes, visited);
+            }
+            visited.delete(dataShape);
+        }
+
+        return {baseType: 'INFOTABLE', fields};
+    }
+
+    /**
+     * Returns a string that represents the interface that API clients use for the rows of the given data shape.
+     * @param dataShape         The name of the data shape.
+     * @param fields            The data shape's fields.
+     * @param dataShapes        The data shapes for which row interfaces are generated, mapped to their fields.
+     * @returns                 A string representing an interface declaration.
+     */
+    static clientInterfaceOfDataShape(dataShape: string, fields: TWDataShapeField[], dataShapes: Map<string, TWDataShapeField[]>): string {
+        const members = fields.map(field => {
+            const name = NonAlphanumericRegex.test(field.name) ? JSON.stringify(field.name) : field.name;
+            const docs = field.description ? `
+    /**
+     * ${field.description}
+     */` : '';
+
+            return `${docs}
+    ${name}?: ${this.clientTypeOfPropertyDefinition(field, dataShapes)};
+`;
+        });
+
+        return `
+export interface ${this.schemaNameOfDataShape(dataShape)} {
+${members.join('')}
+}
+`;
+    }
+
+    /**
+     * Returns a string that represents an API client method that invokes the given service.
+     * @param thingName         The name of the thing containing the service.
+     * @param service           The service definition.
+     * @param dataShapes        The data shapes for which row interfaces are generated, mapped to their fields.
+     * @returns                 A string representing a method declaration.
+     */
+    static clientMethodOfService(thingName: string, service: TWServiceDefinition, dataShapes: Map<string, TWDataShapeField[]>): string {
+        // Use string literals for names with special characters
+        let name = service.name;
+        if (NonAlphanumericRegex.test(name)) {
+            name = JSON.stringify(name);
+        }
+
+        const docs: string[] = service.description ? [service.description] : [];
+        const args: string[] = [];
+        const parameterTypes: Record<string, TWAPIClientType> = {};
+        for (const argument of service.parameterDefinitions) {
+            // Arguments with default values can be omitted by clients
+            const isOptional = !argument.aspects.isRequired || argument.aspects.defaultValue !== undefined;
+            args.push(`${argument.name}${isOptional ? '?' : ''}: ${this.clientTypeOfPropertyDefinition(argument, dataShapes)}`);
+            parameterTypes[argument.name] = this.clientTypeDescriptorOfPropertyDefinition(argument, dataShapes);
+            if (argument.description) docs.push(`@param ${argument.name} ${argument.description}`);
+        }
+
+        const hasResult = !service.aspects.isAsync && service.resultType.baseType != 'NOTHING';
+        const resultType = hasResult ? this.clientTypeOfPropertyDefinition(service.resultType, dataShapes) : 'void';
+        const invokeArgs = [JSON.stringify(thingName), JSON.stringify(service.name), 'args', JSON.stringify(parameterTypes)];
+        if (hasResult) invokeArgs.push(JSON.stringify(this.clientTypeDescriptorOfPropertyDefinition(service.resultType, dataShapes)));
+        if (hasResult && service.resultType.description) docs.push(`@return ${service.resultType.description}`);
+
+        const comment = docs.length ? `
+    /**
+     * ${docs.join('\n     * ')}
+     */` : '';
+
+        // The arguments object can be omitted when all of the service's arguments are optional
+        const argsType = args.length > 0 ? `{${args.join(', ')}}` : 'Record<string, never>';
+        const argsOptional = service.parameterDefinitions.every(argument => !argument.aspects.isRequired || argument.aspects.defaultValue !== undefined);
+
+        return `${comment}
+    ${name}(args${argsOptional ? '?' : ''}: ${argsType}): Promise<${resultType}> {
+        return this.invoke(${invokeArgs.join(', ')});
+    }
+`;
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { Breakpoint } from './DebugTypes';
+
+/**
+ * The interface for the coverage data returned by the `GetCoverage` service of a project's coverage thing.
+ */
+export interface TWCoverageData {
+    /**
+     * The checkpoint locations added in the coverage build, indexed by the path of their source file.
+     */
+    breakpoints: Record<string, Breakpoint[]>;
+
+    /**
+     * The number of times each checkpoint was executed, indexed by its location ID. Checkpoints that
+     * were never executed may be missing.
+     */
+    hits: Record<string, number>;
+}
+
+/**
+ * The interface for a location in an istanbul coverage report.
+ */
+interface TWIstanbulLocation {
+    start: { line: number, column: number };
+    end: { line: number, column: number };
+}
+
+/**
+ * The interface for the coverage of a single file in an istanbul coverage report.
+ */
+export interface TWIstanbulFileCoverage {
+    path: string;
+    statementMap: Record<string, TWIstanbulLocation>;
+    fnMap: Record<string, never>;
+    branchMap: Record<string, never>;
+    s: Record<string, number>;
+    f: Record<string, number>;
+    b: Record<string, number[]>;
+}
+
+/**
+ * Returns the path under which the given file should appear in a coverage report.
+ * @param filename      The absolute path to the file.
+ * @param root          If specified, the folder relative to which the path should be returned.
+ * @returns             The path.
+ */
+function reportPathOfFile(filename: string, root?: string): string {
+    return root ? path.relative(root, filename).split(path.sep).join('/') : filename;
+}
+
+/**
+ * Returns the hit count of each line in the given file. When a line contains multiple checkpoints,
+ * the count of the line is the highest count of any of its checkpoints.
+ * @param breakpoints   The checkpoint locations in the file.
+ * @param hits          The hit count of each checkpoint.
+ * @returns             A map of line numbers to hit counts, sorted by line number.
+ */
+function lineHitsOfBreakpoints(breakpoints: Breakpoint[], hits: Record<string, number>): Map<number, number> {
+    const lines = new Map<number, number>();
+
+    for (const breakpoint of [...breakpoints].sort((a, b) => a.line - b.line)) {
+        lines.set(breakpoint.line, Math.max(lines.get(breakpoint.line) || 0, hits[breakpoint.locationID] || 0));
+    }
+
+    return lines;
+}
+
+/**
+ * Converts the given coverage data into an lcov tracefile.
+ * @param coverage      The coverage data returned by the coverage thing.
+ * @param root          If specified, the folder relative to which the source file paths should be written.
+ * @returns             The contents of the tracefile.
+ */
+export function lcovReportOfCoverage(coverage: TWCoverageData, root?: string): string {
+    const records: string[] = [];
+
+    for (const [filename, breakpoints] of Object.entries(coverage.breakpoints)) {
+        const lines = lineHitsOfBreakpoints(breakpoints, coverage.hits);
+        const record = ['TN:', `SF:${reportPathOfFile(filename, root)}`];
+
+        for (const [line, count] of lines) {
+            record.push(`DA:${line},${count}`);
+        }
+
+        record.push(`LF:${lines.size}`);
+        record.push(`LH:${[...lines.values()].filter(count => count > 0).length}`);
+        record.push('end_of_record');
+
+        records.push(record.join('\n'));
+    }
+
+    return records.length ? records.join('\n') + '\n' : '';
+}
+
+/**
+ * Converts the given coverage data into an istanbul coverage report, using the format of
+ * the `coverage-final.json` file. Each checkpoint is reported as a statement.
+ * @param coverage      The coverage data returned by the coverage thing.
+ * @param root          If specified, the folder relative to which the source file paths should be written.
+ * @returns             An object containing the coverage of each file, indexed by its path.
+ */
+export function istanbulReportOfCoverage(coverage: TWCoverageData, root?: string): Record<string, TWIstanbulFileCoverage> {
+    const report: Record<string, TWIstanbulFileCoverage> = {};
+
+    for (const [filename, breakpoints] of Object.entries(coverage.breakpoints)) {
+        const reportPath = reportPathOfFile(filename, root);
+        const fileCoverage: TWIstanbulFileCoverage = {path: reportPath, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {}};
+
+        // NOTE: Breakpoint columns are 1-indexed, but istanbul columns are 0-indexed
+        breakpoints.forEach((breakpoint, index) => {
+            fileCoverage.statementMap[index] = {
+                start: {line: breakpoint.line, column: (breakpoint.column || 1) - 1},
+                end: {line: breakpoint.endLine || breakpoint.line, column: (breakpoint.endColumn || breakpoint.column || 1) - 1}
+            };
+            fileCoverage.s[index] = coverage.hits[breakpoint.locationID] || 0;
+        });
+
+        report[reportPath] = fileCoverage;
+    }
+
+    return report;
+}
@@ -0,0 +1,731 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NonAlphanumericRegexGlobal } from './APIDeclarationGenerator';
+
+/**
+ * The interface for a value imported from an npm package that is bundled into the services using it.
+ */
+export interface TWBundledImport {
+    /**
+     * The module specifier of the import, e.g. `lodash-es` or `date-fns/format`.
+     */
+    specifier: string;
+
+    /**
+     * The name of the imported export. This is `"default"` for default imports and `"*"` for namespace imports.
+     */
+    name: string;
+
+    /**
+     * The path to the file containing the import.
+     */
+    containingFile: string;
+
+    /**
+     * The name of the variable that holds the imported value in the bundled code.
+     */
+    variable: string;
+}
+
+/**
+ * The interface for the code bundled into a service or subscription.
+ */
+export interface TWBundle {
+    /**
+     * The bundled code, which declares the variable of each import.
+     */
+    code: string;
+
+    /**
+     * The IDs of the modules included in the bundle, which are their paths relative to their `node_modules` folder.
+     */
+    modules: string[];
+
+    /**
+     * The size of the bundled code, in bytes.
+     */
+    size: number;
+}
+
+/**
+ * The interface for a package module that was converted to ES5 commonjs code.
+ */
+interface TWBundledModule {
+    /**
+     * The ID of the module.
+     */
+    id: string;
+
+    /**
+     * The transpiled code of the module.
+     */
+    code: string;
+
+    /**
+     * The paths to the modules required by this module, indexed by the specifier used to require them. Modules that
+     * cannot be resolved, such as node's built in modules, are missing and fail when they are required.
+     */
+    dependencies: Record<string, string>;
+}
+
+/**
+ * The interface for an export of a module.
+ */
+interface TWModuleExport {
+    /**
+     * The path to the module.
+     */
+    filename: string;
+
+    /**
+     * The name of the export, or `"*"` for the whole module.
+     */
+    name: string;
+}
+
+/**
+ * The interface for the top level structure of an ES module, used to include only the statements
+ * that the exports used from the module depend on.
+ */
+interface TWModuleStructure {
+    /**
+     * The parsed source of the module.
+     */
+    source: ts.SourceFile;
+
+    /**
+     * The names of the top level bindings and imports referenced by each top level statement.
+     */
+    references: Map<ts.Statement, Set<string>>;
+
+    /**
+     * The statements that declare each top level binding.
+     */
+    declarations: Map<string, ts.Statement[]>;
+
+    /**
+     * The local binding of each export declared by this module, and whether it is exported by an `export { ... }`
+     * clause instead of by its declaration.
+     */
+    exports: Map<string, { local: string, clause: boolean }>;
+
+    /**
+     * The module specifier and the imported export of each import binding.
+     */
+    imports: Map<string, { specifier: string, name: string }>;
+
+    /**
+     * The statements that don't declare any binding, which are assumed to have side effects and are always included.
+     */
+    sideEffects: ts.Statement[];
+
+    /**
+     * The specifiers of the modules imported for their side effects.
+     */
+    sideEffectImports: string[];
+}
+
+/**
+ * The interface for an ES module whose statements are included in a bundle based on the exports that are used.
+ */
+interface TWPrunedModule {
+    /**
+     * The structure of the module.
+     */
+    structure: TWModuleStructure;
+
+    /**
+     * The exports used from the module.
+     */
+    names: Set<string>;
+
+    /**
+     * The top level statements that are included.
+     */
+    statements: Set<ts.Statement>;
+
+    /**
+     * The import bindings referenced by the included statements.
+     */
+    imports: Set<string>;
+}
+
+/**
+ * The name of the binding used for default exports that don't declare a name, such as `export default {...}`.
+ */
+const AnonymousDefaultExport = '*default*';
+
+/**
+ * The extensions tried, in order, when resolving the path of a module.
+ */
+const ModuleExtensions = ['', '.js', '.mjs', '.cjs', '.json', '/index.js', '/index.mjs', '/index.cjs'];
+
+/**
+ * A cache of the modules that were already transpiled, indexed by filename.
+ */
+const BundledModules = new Map<string, TWBundledModule>();
+
+/**
+ * A cache of the structure of the modules that were already parsed, indexed by filename. Commonjs and JSON
+ * modules, which have no statically known exports, are cached as `undefined`.
+ */
+const ModuleStructures = new Map<string, TWModuleStructure | undefined>();
+
+/**
+ * Returns the name of the variable that holds the given export of the given package in bundled code.
+ * @param specifier     The module specifier.
+ * @param name          The name of the export.
+ * @returns             The variable name.
+ */
+export function variableNameOfBundledImport(specifier: string, name: string): string {
+    return `__${specifier.replace(NonAlphanumericRegexGlobal, '_')}$${name == '*' ? 'exports' : name}`;
+}
+
+/**
+ * Returns the path of the file that the given path refers to, trying the extensions and folder
+ * entry points used by node.
+ * @param filename      The path to resolve.
+ * @returns             The path to the file, or `undefined` if it doesn't exist.
+ */
+function resolvedFile(filename: string): string | undefined {
+    for (const extension of ModuleExtensions) {
+        const candidate = filename + extension;
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) return candidate;
+    }
+
+    // Folders can also specify their entry point via a package.json file
+    const packageJSONPath = path.join(filename, 'package.json');
+    if (fs.existsSync(packageJSONPath)) {
+        const packageJSON = JSON.parse(fs.readFileSync(packageJSONPath, 'utf8'));
+
+        // Prefer the ES module entry point, whose exports can be resolved statically
+        const entry = packageJSON.module || packageJSON.main;
+        if (entry) return resolvedFile(path.join(filename, entry));
+    }
+}
+
+/**
+ * Returns the path of the file that the given package specifier refers to, searching the `node_modules`
+ * folders of the given directory and its parents.
+ * @param specifier     The package specifier, optionally followed by a path into the package.
+ * @param directory     The directory from which the package is imported.
+ * @returns             The path to the file, or `undefined` if the package can't be found.
+ */
+function resolvedPackageFile(specifier: string, directory: string): string | undefined {
+    const components = specifier.split('/');
+    const packageName = components.splice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+
+    for (let folder = directory; ; folder = path.dirname(folder)) {
+        const packagePath = path.join(folder, 'node_modules', packageName);
+        if (fs.existsSync(packagePath)) {
+            return resolvedFile(path.join(packagePath, ...components));
+        }
+
+        if (path.dirname(folder) == folder) return;
+    }
+}
+
+/**
+ * Returns the path of the file required by the given specifier from the given file.
+ * @param specifier     The module specifier.
+ * @param filename      The path to the file requiring the module.
+ * @returns             The path to the file, or `undefined` if it can't be resolved.
+ */
+function resolvedModuleFile(specifier: string, filename: string): string | undefined {
+    const directory = path.dirname(filename);
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        return resolvedFile(path.resolve(directory, specifier));
+    }
+
+    return resolvedPackageFile(specifier, directory);
+}
+
+/**
+ * Returns the ID of the module at the given path, which is its path relative to the outermost `node_modules` folder.
+ * @param filename      The path to the module.
+ * @returns             The module ID.
+ */
+function moduleIDOfFile(filename: string): string {
+    const components = filename.split(path.sep);
+    return components.slice(components.indexOf('node_modules') + 1).join('/');
+}
+
+/**
+ * Converts the module at the given path into ES5 commonjs code and resolves the modules it requires.
+ * @param filename      The path to the module.
+ * @returns             The transpiled module.
+ */
+function bundledModuleOfFile(filename: string): TWBundledModule {
+    const cachedModule = BundledModules.get(filename);
+    if (cachedModule) return cachedModule;
+
+    const module = bundledModuleOfSource(filename, fs.readFileSync(filename, 'utf8'), specifier => resolvedModuleFile(specifier, filename));
+
+    BundledModules.set(filename, module);
+    return module;
+}
+
+/**
+ * Converts the given source code of the module at the given path into ES5 commonjs code and resolves the modules it requires.
+ * @param filename      The path to the module.
+ * @param text          The source code of the module.
+ * @param resolve       A function that returns the path of the module required by the given specifier.
+ * @returns             The transpiled module.
+ */
+function bundledModuleOfSource(filename: string, text: string, resolve: (specifier: string) => string | undefined): TWBundledModule {
+    const module: TWBundledModule = {id: moduleIDOfFile(filename), code: '', dependencies: {}};
+
+    if (filename.endsWith('.json')) {
+        module.code = `module.exports = ${text.trim()};`;
+    }
+    else {
+        // The ES5 target and commonjs modules are supported by rhino; emit helpers are added to each module that needs them.
+        // Package code may spread or iterate over any iterable, such as strings, so iteration is not restricted to arrays
+        module.code = ts.transpileModule(text, {
+            fileName: filename.replace(/\.[mc]js$/, '.js'),
+            compilerOptions: {
+                target: ts.ScriptTarget.ES5,
+                module: ts.ModuleKind.CommonJS,
+                allowJs: true,
+                esModuleInterop: true,
+                downlevelIteration: true,
+                sourceMap: false
+            }
+        }).outputText;
+
+        // Find the modules required by the transpiled code
+        const visitor = (node: ts.Node) => {
+            if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text == 'require') {
+                const argument = node.arguments[0];
+                if (argument && ts.isStringLiteral(argument)) {
+                    const dependency = resolve(argument.text);
+                    if (dependency) module.dependencies[argument.text] = dependency;
+                }
+            }
+            ts.forEachChild(node, visitor);
+        };
+        visitor(ts.createSourceFile(filename, module.code, ts.ScriptTarget.ES5, true, ts.ScriptKind.JS));
+    }
+
+    return module;
+}
+
+/**
+ * Returns the names of the bindings declared by the given binding name, including the ones in destructuring patterns.
+ * @param name          The binding name.
+ * @returns             An array of names.
+ */
+function namesOfBindingName(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) return [name.text];
+
+    return name.elements.flatMap(element => ts.isOmittedExpression(element) ? [] : namesOfBindingName(element.name));
+}
+
+/**
+ * Returns the names of the identifiers referenced by the given statement. Property names are excluded, but
+ * identifiers that are shadowed by local declarations are not, so this may include more names than needed.
+ * @param statement     The statement.
+ * @returns             A set of names.
+ */
+function referencesOfStatement(statement: ts.Statement): Set<string> {
+    const references = new Set<string>();
+
+    const visitor = (node: ts.Node) => {
+        if (ts.isIdentifier(node)) {
+            const parent = node.parent;
+            const isPropertyName = (ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent) ||
+                ts.isPropertyDeclaration(parent) || ts.isGetAccessor(parent) || ts.isSetAccessor(parent)) && parent.name == node;
+
+            if (!isPropertyName && !(ts.isBindingElement(parent) && parent.propertyName == node)) references.add(node.text);
+        }
+        ts.forEachChild(node, visitor);
+    };
+    visitor(statement);
+
+    return references;
+}
+
+/**
+ * Returns the top level structure of the ES module at the given path.
+ * @param filename      The path to the module.
+ * @returns             The structure of the module, or `undefined` if it is a commonjs or JSON module.
+ */
+function moduleStructureOfFile(filename: string): TWModuleStructure | undefined {
+    if (ModuleStructures.has(filename)) return ModuleStructures.get(filename);
+
+    let structure: TWModuleStructure | undefined;
+
+    const source = filename.endsWith('.json') ? undefined : ts.createSourceFile(filename, fs.readFileSync(filename, 'utf8'), ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    if (source && ts.isExternalModule(source)) {
+        structure = {source, references: new Map, declarations: new Map, exports: new Map, imports: new Map, sideEffects: [], sideEffectImports: []};
+
+        for (const statement of source.statements) {
+            if (ts.isImportDeclaration(statement)) {
+                const specifier = (statement.moduleSpecifier as ts.StringLiteral).text;
+                const clause = statement.importClause;
+
+                if (!clause) {
+                    structure.sideEffectImports.push(specifier);
+                    continue;
+                }
+
+                if (clause.name) structure.imports.set(clause.name.text, {specifier, name: 'default'});
+
+                if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+                    structure.imports.set(clause.namedBindings.name.text, {specifier, name: '*'});
+                }
+                else if (clause.namedBindings) {
+                    for (const element of clause.namedBindings.elements) {
+                        structure.imports.set(element.name.text, {specifier, name: (element.propertyName || element.name).text});
+                    }
+                }
+                continue;
+            }
+
+            if (ts.isExportDeclaration(statement)) {
+                // Re-exports from other modules are resolved by `declarationOfExport`, so only local export clauses are needed
+                if (!statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+                    for (const element of statement.exportClause.elements) {
+                        structure.exports.set(element.name.text, {local: (element.propertyName || element.name).text, clause: true});
+                    }
+                }
+                continue;
+            }
+
+            const isExported = !!statement.modifiers?.some(m => m.kind == ts.SyntaxKind.ExportKeyword);
+            const isDefault = !!statement.modifiers?.some(m => m.kind == ts.SyntaxKind.DefaultKeyword);
+
+            let bindings: string[] = [];
+            if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+                bindings = [statement.name?.text || AnonymousDefaultExport];
+            }
+            else if (ts.isVariableStatement(statement)) {
+                bindings = statement.declarationList.declarations.flatMap(d => namesOfBindingName(d.name));
+            }
+            else if (ts.isExportAssignment(statement)) {
+                bindings = [AnonymousDefaultExport];
+            }
+
+            if (ts.isExportAssignment(statement) || (isExported && isDefault)) {
+                structure.exports.set('default', {local: bindings[0], clause: false});
+            }
+            else if (isExported) {
+                for (const binding of bindings) structure.exports.set(binding, {local: binding, clause: false});
+            }
+
+            for (const binding of bindings) {
+                structure.declarations.set(binding, [...(structure.declarations.get(binding) || []), statement]);
+            }
+
+            if (!bindings.length) structure.sideEffects.push(statement);
+
+            structure.references.set(statement, referencesOfStatement(statement));
+        }
+    }
+
+    ModuleStructures.set(filename, structure);
+    return structure;
+}
+
+/**
+ * Finds the module that declares the given export of the module at the given path, following the re-exports
+ * of ES modules. Commonjs modules are considered to declare all of their exports.
+ * @param filename      The path to the module.
+ * @param name          The name of the export.
+ * @param visited       The modules that were already searched, used to stop on circular re-exports.
+ * @returns             The path to the declaring module and the name of the export in that module, or
+ *                      `undefined` if the module has no such export.
+ */
+function declarationOfExport(filename: string, name: string, visited: Set<string> = new Set): { filename: string, name: string } | undefined {
+    if (visited.has(filename)) return;
+    visited.add(filename);
+
+    if (filename.endsWith('.json') || name == '*') return {filename, name};
+
+    const source = ts.createSourceFile(filename, fs.readFileSync(filename, 'utf8'), ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    if (!ts.isExternalModule(source)) return {filename, name};
+
+    const starExports: string[] = [];
+    for (const statement of source.statements) {
+        // Local exports are declared by this module
+        if (statement.modifiers?.some(m => m.kind == ts.SyntaxKind.ExportKeyword)) {
+            if (statement.modifiers.some(m => m.kind == ts.SyntaxKind.DefaultKeyword)) {
+                if (name == 'default') return {filename, name};
+            }
+            else if (ts.isVariableStatement(statement)) {
+                if (statement.declarationList.declarations.some(d => ts.isIdentifier(d.name) && d.name.text == name)) return {filename, name};
+            }
+            else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name?.text == name) {
+                return {filename, name};
+            }
+        }
+        else if (ts.isExportAssignment(statement)) {
+            if (name == 'default') return {filename, name};
+        }
+        else if (ts.isExportDeclaration(statement)) {
+            const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+            const target = specifier && resolvedModuleFile(specifier, filename);
+
+            if (!statement.exportClause) {
+                if (target) starExports.push(target);
+            }
+            else if (ts.isNamespaceExport(statement.exportClause)) {
+                if (statement.exportClause.name.text == name) return target ? {filename: target, name: '*'} : {filename, name};
+            }
+            else {
+                const element = statement.exportClause.elements.find(e => e.name.text == name);
+                if (element) {
+                    // Re-exports are declared by the module they come from, while local re-exports are declared by this module
+                    return target ? declarationOfExport(target, (element.propertyName || element.name).text, visited) : {filename, name};
+                }
+            }
+        }
+    }
+
+    // Star exports never include the default export
+    if (name == 'default') return;
+
+    for (const target of starExports) {
+        const declaration = declarationOfExport(target, name, visited);
+        if (declaration) return declaration;
+    }
+}
+
+/**
+ * Finds the module that declares the export referenced by the given import.
+ * @param bundledImport     The import.
+ * @returns                 The path to the declaring module and the name of the export in that module.
+ */
+export function declarationOfBundledImport(bundledImport: TWBundledImport): { filename: string, name: string } {
+    const filename = resolvedPackageFile(bundledImport.specifier, path.dirname(bundledImport.containingFile));
+    if (!filename) {
+        throw new Error(`The package "${bundledImport.specifier}" could not be found.`);
+    }
+
+    const declaration = declarationOfExport(filename, bundledImport.name);
+    if (!declaration) {
+        throw new Error(`The package "${bundledImport.specifier}" has no export named "${bundledImport.name}".`);
+    }
+
+    return declaration;
+}
+
+/**
+ * Finds the module that declares the export imported by the given import of the module at the given path.
+ * @param filename      The path to the importing module.
+ * @param imported      The module specifier and the name of the imported export.
+ * @returns             The declaring module and the name of the export in that module, or `undefined`
+ *                      if the imported module can't be resolved.
+ */
+function declarationOfModuleImport(filename: string, imported: { specifier: string, name: string }): TWModuleExport | undefined {
+    const target = resolvedModuleFile(imported.specifier, filename);
+    if (!target) return;
+
+    return declarationOfExport(target, imported.name) || {filename: target, name: imported.name};
+}
+
+/**
+ * Includes the statements that declare the given binding of the given module, together with the statements that
+ * they reference. The exports imported by these statements are added to the given array of pending exports.
+ * @param module        The module.
+ * @param binding       The name of the top level binding or import binding.
+ * @param filename      The path to the module.
+ * @param pending       The exports that are used but were not included yet.
+ */
+function includeBindingOfModule(module: TWPrunedModule, binding: string, filename: string, pending: TWModuleExport[]): void {
+    const imported = module.structure.imports.get(binding);
+    if (imported) {
+        if (module.imports.has(binding)) return;
+        module.imports.add(binding);
+
+        const declaration = declarationOfModuleImport(filename, imported);
+        if (declaration) pending.push(declaration);
+        return;
+    }
+
+    for (const statement of module.structure.declarations.get(binding) || []) {
+        includeStatementOfModule(module, statement, filename, pending);
+    }
+}
+
+/**
+ * Includes the given statement of the given module, together with the statements that it references.
+ * @param module        The module.
+ * @param statement     The statement to include.
+ * @param filename      The path to the module.
+ * @param pending       The exports that are used but were not included yet.
+ */
+function includeStatementOfModule(module: TWPrunedModule, statement: ts.Statement, filename: string, pending: TWModuleExport[]): void {
+    if (module.statements.has(statement)) return;
+    module.statements.add(statement);
+
+    for (const reference of module.structure.references.get(statement)!) {
+        includeBindingOfModule(module, reference, filename, pending);
+    }
+}
+
+/**
+ * Converts the included statements of the given ES module into ES5 commonjs code. The imports of the module refer
+ * directly to the modules that declare the imported values, so that the modules re-exporting them are not needed.
+ * @param filename      The path to the module.
+ * @param module        The module.
+ * @returns             The transpiled module.
+ */
+function bundledModuleOfPrunedModule(filename: string, module: TWPrunedModule): TWBundledModule {
+    const {structure} = module;
+    const lines: string[] = [];
+    const targets: Record<string, string> = {};
+
+    // Modules required through their ID are resolved to the module with that ID
+    const specifierOfModule = (target: string) => {
+        const id = moduleIDOfFile(target);
+        targets[id] = target;
+        return JSON.stringify(id);
+    };
+
+    for (const specifier of structure.sideEffectImports) {
+        const target = resolvedModuleFile(specifier, filename);
+        lines.push(`import ${target ? specifierOfModule(target) : JSON.stringify(specifier)};`);
+    }
+
+    for (const binding of module.imports) {
+        const imported = structure.imports.get(binding)!;
+        const declaration = declarationOfModuleImport(filename, imported);
+        const specifier = declaration ? specifierOfModule(declaration.filename) : JSON.stringify(imported.specifier);
+        const name = declaration ? declaration.name : imported.name;
+
+        if (name == '*') {
+            lines.push(`import * as ${binding} from ${specifier};`);
+        }
+        else if (name == 'default') {
+            lines.push(`import ${binding} from ${specifier};`);
+        }
+        else {
+            lines.push(`import { ${name} as ${binding} } from ${specifier};`);
+        }
+    }
+
+    for (const statement of structure.source.statements) {
+        if (module.statements.has(statement)) lines.push(statement.getText(structure.source));
+    }
+
+    const clause = [...module.names].filter(name => structure.exports.get(name)?.clause).map(name => `${structure.exports.get(name)!.local} as ${name}`);
+    if (clause.length) lines.push(`export { ${clause.join(', ')} };`);
+
+    return bundledModuleOfSource(filename, lines.join('\n'), specifier => targets[specifier]);
+}
+
+/**
+ * Returns an expression that evaluates to the given export of the module with the given ID, loaded
+ * through the given loader function.
+ * @param loader        The name of the loader function.
+ * @param id            The module ID.
+ * @param name          The name of the export.
+ * @returns             The expression.
+ */
+function expressionOfExport(loader: string, id: string, name: string): string {
+    return name == '*' ? `${loader}(${JSON.stringify(id)})` : `${loader}(${JSON.stringify(id)}, ${JSON.stringify(name)})`;
+}
+
+/**
+ * Bundles the given imports into ES5 code that can be added to the body of a service. ES modules are tree shaken:
+ * only the statements that the used exports depend on are included, and their imports refer directly to the modules
+ * declaring the imported values, skipping the modules that re-export them. Commonjs modules, whose exports can't be
+ * determined statically, and modules imported as namespaces are included whole, together with the modules they require.
+ * @param imports       The imports to bundle.
+ * @returns             The bundle.
+ */
+export function bundleOfImports(imports: TWBundledImport[]): TWBundle {
+    const wholeModules = new Set<string>();
+    const prunedModules = new Map<string, TWPrunedModule>();
+    const pending: TWModuleExport[] = [];
+    const declarations: string[] = [];
+
+    for (const bundledImport of imports) {
+        const declaration = declarationOfBundledImport(bundledImport);
+        pending.push(declaration);
+
+        declarations.push(`var ${bundledImport.variable} = ${expressionOfExport('__bundle', moduleIDOfFile(declaration.filename), declaration.name)};`);
+    }
+
+    // Find the used exports of each module, including the exports they import in turn
+    while (pending.length) {
+        const {filename, name} = pending.pop()!;
+        if (wholeModules.has(filename)) continue;
+
+        const structure = moduleStructureOfFile(filename);
+        if (!structure || name == '*') {
+            wholeModules.add(filename);
+            for (const dependency of Object.values(bundledModuleOfFile(filename).dependencies)) {
+                pending.push({filename: dependency, name: '*'});
+            }
+            continue;
+        }
+
+        let module = prunedModules.get(filename);
+        if (!module) {
+            module = {structure, names: new Set, statements: new Set, imports: new Set};
+            prunedModules.set(filename, module);
+
+            for (const statement of structure.sideEffects) {
+                includeStatementOfModule(module, statement, filename, pending);
+            }
+            for (const specifier of structure.sideEffectImports) {
+                const target = resolvedModuleFile(specifier, filename);
+                if (target) pending.push({filename: target, name: '*'});
+            }
+        }
+
+        if (module.names.has(name)) continue;
+        module.names.add(name);
+
+        const exported = structure.exports.get(name);
+        if (exported) includeBindingOfModule(module, exported.local, filename, pending);
+    }
+
+    const modules = new Map<string, TWBundledModule>();
+    for (const filename of wholeModules) {
+        const module = bundledModuleOfFile(filename);
+        modules.set(module.id, module);
+    }
+    for (const [filename, module] of prunedModules) {
+        if (wholeModules.has(filename)) continue;
+
+        const bundledModule = bundledModuleOfPrunedModule(filename, module);
+        modules.set(bundledModule.id, bundledModule);
+    }
+
+    const definitions = [...modules.values()].map(module => {
+        const dependencies: Record<string, string> = {};
+        for (const specifier in module.dependencies) {
+            dependencies[specifier] = moduleIDOfFile(module.dependencies[specifier]);
+        }
+
+        return `${JSON.stringify(module.id)}: [function (module, exports, require) {\n${module.code}\n}, ${JSON.stringify(dependencies)}]`;
+    });
+
+    const code = `var __bundle = (function () {
+    var modules = {${definitions.join(',\n')}};
+    var cache = {};
+    function load(id) {
+        if (cache[id]) return cache[id].exports;
+        var module = cache[id] = {exports: {}};
+        var definition = modules[id];
+        definition[0].call(module.exports, module, module.exports, function (specifier) {
+            if (!definition[1][specifier]) throw new Error('Cannot find module "' + specifier + '"');
+            return load(definition[1][specifier]);
+        });
+        return module.exports;
+    }
+    return function (id, name) {
+        var exports = load(id);
+        if (name == 'default') return exports && exports.__esModule ? exports['default'] : exports;
+        return name ? exports[name] : exports;
+    };
+})();
+${declarations.join('\n')}
+`;
+
+    return {code, modules: [...modules.keys()], size: Buffer.byteLength(code, 'utf8')};
+}
@@ -0,0 +1,986 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseStringPromise } from 'xml2js';
+import { TWDataThings, TWEntityKind } from './TWCoreTypes';
+
+/**
+ * A regex that is used to test if a string is a valid identifier.
+ */
+const IdentifierRegex = /^[A-Za-z_$][A-Za-z\d_$]*$/;
+
+/**
+ * The entity kinds that can be converted into typescript source files.
+ */
+const ImportableEntityKinds = [
+    TWEntityKind.Thing,
+    TWEntityKind.ThingTemplate,
+    TWEntityKind.ThingShape,
+    TWEntityKind.DataShape,
+    TWEntityKind.Organization
+];
+
+/**
+ * The names of the runtime permissions, in the order in which they are declared
+ * in the `Permission` enum.
+ */
+const PermissionNames = ['PropertyRead', 'PropertyWrite', 'ServiceInvoke', 'EventInvoke', 'EventSubscribe'];
+
+/**
+ * The names of the configuration tables that are generated by the transformer and should
+ * not be imported.
+ */
+const GeneratedConfigurationTables = ['_BMDebuggerBreakpointLocations', '_BMDebugMetadata'];
+
+/**
+ * The indentation used for class members.
+ */
+const MemberIndentation = '    ';
+
+/**
+ * The indentation used for statements in method bodies.
+ */
+const BodyIndentation = '        ';
+
+/**
+ * The interface for a permission decorator that should be applied to a class or member.
+ */
+interface TWImportedPermission {
+    /**
+     * The name of the decorator, such as `allow` or `denyInstance`.
+     */
+    decorator: string;
+
+    /**
+     * The name of the member to which the permission applies, or `*` for the entire entity.
+     */
+    resource: string;
+
+    /**
+     * The principal expression, such as `Users.Administrator`.
+     */
+    principal: string;
+
+    /**
+     * The permissions granted or denied to the principal.
+     */
+    permissions: string[];
+}
+
+/**
+ * A class that converts entity XML files, such as the ones created by a Thingworx export or by the
+ * transformer itself, into equivalent typescript source files.
+ *
+ * Things, thing templates, thing shapes, data shapes and organizations are each converted into a separate
+ * source file. All users and groups are combined into a single user list source file.
+ */
+export class TWEntityImporter {
+
+    /**
+     * The typescript sources generated so far, indexed by their path relative to the output folder.
+     */
+    sources: Record<string, string> = {};
+
+    /**
+     * The name of the user list class that will contain the imported users and groups.
+     */
+    userListName: string;
+
+    /**
+     * The declarations of the users imported so far, indexed by their names.
+     */
+    private users: Record<string, string> = {};
+
+    /**
+     * The declarations of the groups imported so far, indexed by their names.
+     */
+    private groups: Record<string, string> = {};
+
+    /**
+     * @param userListName      The name of the user list class that will contain the imported users and groups.
+     */
+    constructor(userListName: string = 'ImportedUsers') {
+        this.userListName = userListName;
+    }
+
+    /**
+     * Returns a string that can be used to reference the given entity in an `extends` clause or in a type
+     * argument. This is the entity name if it is a valid identifier, or a string literal otherwise.
+     * @param name          The name of the entity.
+     * @returns             An identifier or string literal.
+     */
+    static referenceOfEntityNamed(name: string): string {
+        return IdentifierRegex.test(name) ? name : JSON.stringify(name);
+    }
+
+    /**
+     * Returns a valid class name derived from the given entity name.
+     * @param name          The name of the entity.
+     * @returns             A class name.
+     */
+    static classNameOfEntityNamed(name: string): string {
+        if (IdentifierRegex.test(name)) return name;
+
+        const className = name.replace(/[^A-Za-z\d_$]/g, '_');
+        return /^\d/.test(className) ? '_' + className : className;
+    }
+
+    /**
+     * Returns the typescript type that should be used for the given field definition.
+     * @param field         The XML field definition attributes.
+     * @returns             A typescript type string.
+     */
+    static typeOfField(field: Record<string, string>): string {
+        switch (field.baseType) {
+            case 'JSON':
+                return 'TWJSON';
+            case 'INFOTABLE':
+                return field['aspect.dataShape'] ? `INFOTABLE<${this.referenceOfEntityNamed(field['aspect.dataShape'])}>` : 'INFOTABLE';
+            case 'THINGNAME':
+                if (field['aspect.thingShape']) {
+                    return `THINGNAME<${JSON.stringify(field['aspect.thingTemplate'] || 'GenericThing')}, ${JSON.stringify(field['aspect.thingShape'])}>`;
+                }
+                return field['aspect.thingTemplate'] ? `THINGNAME<${JSON.stringify(field['aspect.thingTemplate'])}>` : 'THINGNAME';
+            default:
+                return field.baseType;
+        }
+    }
+
+    /**
+     * Returns the typescript expression that represents the given default value.
+     * @param value         The default value, as it appears in the XML.
+     * @param baseType      The base type of the field.
+     * @returns             A typescript expression, or `undefined` if the default value cannot be represented.
+     */
+    static literalOfDefaultValue(value: string, baseType: string): string | undefined {
+        switch (baseType) {
+            case 'NUMBER':
+            case 'INTEGER':
+            case 'LONG':
+                return isNaN(parseFloat(value)) ? undefined : String(parseFloat(value));
+            case 'BOOLEAN':
+                return value == 'true' ? 'true' : 'false';
+            case 'DATETIME':
+                return `new Date(${JSON.stringify(value)})`;
+            case 'JSON':
+                return value.trim() || undefined;
+            case 'INFOTABLE':
+            case 'QUERY':
+            case 'IMAGE':
+            case 'BLOB':
+                return undefined;
+            default:
+                return JSON.stringify(value);
+        }
+    }
+
+    /**
+     * Returns the typescript object literal that represents the given configuration table row.
+     * @param row           The row.
+     * @returns             An object literal.
+     */
+    static literalOfRow(row: Record<string, unknown>): string {
+        const fields = Object.keys(row).map(key => `${IdentifierRegex.test(key) ? key : JSON.stringify(key)}: ${JSON.stringify(row[key])}`);
+        return `{${fields.join(', ')}}`;
+    }
+
+    /**
+     * Returns a JSDoc comment containing the given lines.
+     * @param lines         The lines of the comment. Empty lines at the beginning or the end are removed.
+     * @param indentation   The indentation to use.
+     * @returns             A JSDoc comment followed by a newline, or an empty string if there is no documentation.
+     */
+    static documentationOfLines(lines: (string | undefined)[], indentation: string = ''): string {
+        const text = lines.filter(l => l !== undefined).join('\n').trim();
+        if (!text) return '';
+
+        return `${indentation}/**\n${text.replace(/\*\//g, '*\\/').split('\n').map(l => `${indentation} * ${l}`.trimEnd()).join('\n')}\n${indentation} */\n`;
+    }
+
+    /**
+     * Returns the decorator expression that references the given principal.
+     * @param principal     The XML principal attributes.
+     * @returns             A property access expression such as `Users.Administrator`.
+     */
+    static referenceOfPrincipal(principal: Record<string, string>): string {
+        return `${principal.type}s.${principal.name}`;
+    }
+
+    /**
+     * Returns the permission decorators described by the given XML permissions element.
+     * @param permissions   The XML permissions element, such as `RunTimePermissions`.
+     * @param instance      Set to `true` for instance runtime permissions.
+     * @returns             An array of permissions.
+     */
+    static permissionsOfElement(permissions: any, instance: boolean = false): TWImportedPermission[] {
+        const result: TWImportedPermission[] = [];
+
+        for (const resource of permissions?.[0]?.Permissions || []) {
+            const resourceName = resource.$?.resourceName || '*';
+
+            // Group the permissions by principal, so that each principal requires a single decorator
+            const principals: Record<string, TWImportedPermission> = {};
+            for (const permission of PermissionNames) {
+                for (const principal of resource[permission]?.[0]?.Principal || []) {
+                    const isPermitted = principal.$.isPermitted == 'true';
+                    const decorator = (isPermitted ? 'allow' : 'deny') + (instance ? 'Instance' : '');
+                    const key = `${decorator}:${principal.$.type}:${principal.$.name}`;
+
+                    principals[key] = principals[key] || {decorator, resource: resourceName, principal: this.referenceOfPrincipal(principal.$), permissions: []};
+                    principals[key].permissions.push(`Permission.${permission}`);
+                }
+            }
+
+            result.push(...Object.values(principals));
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the visibility decorator described by the given XML visibility element.
+     * @param visibility    The XML visibility element, such as `VisibilityPermissions`.
+     * @param decorator     The name of the decorator to use.
+     * @returns             A decorator, or an empty string if no visibility permissions are specified.
+     */
+    static visibilityDecoratorOfElement(visibility: any, decorator: string): string {
+        const organizations: string[] = [];
+
+        for (const principal of visibility?.[0]?.Visibility?.[0]?.Principal || []) {
+            if (principal.$.type == 'OrganizationalUnit') {
+                const [organization, unit] = principal.$.name.split(':');
+                organizations.push(`Unit(Organizations.${organization}, ${JSON.stringify(unit)})`);
+            }
+            else {
+                organizations.push(`Organizations.${principal.$.name}`);
+            }
+        }
+
+        return organizations.length ? `@${decorator}(${organizations.join(', ')})\n` : '';
+    }
+
+    /**
+     * Returns the rows of the given XML configuration table, with their values converted to the appropriate types.
+     * @param table         The XML configuration table.
+     * @returns             An array of rows.
+     */
+    static rowsOfConfigurationTable(table: any): Record<string, unknown>[] {
+        const fields: Record<string, string> = {};
+        for (const field of table.DataShape?.[0]?.FieldDefinitions?.[0]?.FieldDefinition || []) {
+            fields[field.$.name] = field.$.baseType;
+        }
+
+        return (table.Rows?.[0]?.Row || []).map(row => {
+            const result: Record<string, unknown> = {};
+
+            for (const key in row) {
+                const value = typeof row[key][0] == 'string' ? row[key][0] : row[key][0]?._ || '';
+
+                switch (fields[key]) {
+                    case 'NUMBER':
+                    case 'INTEGER':
+                    case 'LONG':
+                        result[key] = parseFloat(value);
+                        break;
+                    case 'BOOLEAN':
+                        result[key] = value == 'true';
+                        break;
+                    default:
+                        result[key] = value;
+                }
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Returns the code of the script service implementation with the given name.
+     * @param implementations   The XML service implementations.
+     * @param name              The name of the service.
+     * @returns                 The implementation, or `undefined` if it could not be found.
+     */
+    static implementationNamed(implementations: any[], name: string): any {
+        return implementations.find(i => i.$.name == name);
+    }
+
+    /**
+     * Returns the first row of the first configuration table of the given service implementation.
+     * @param implementation    The XML service implementation.
+     * @returns                 The row.
+     */
+    static scriptRowOfImplementation(implementation: any): Record<string, string> {
+        const row = implementation?.ConfigurationTables?.[0]?.ConfigurationTable?.[0]?.Rows?.[0]?.Row?.[0] || {};
+        const result: Record<string, string> = {};
+
+        for (const key in row) {
+            result[key] = typeof row[key][0] == 'string' ? row[key][0] : row[key][0]?._ || '';
+        }
+
+        return result;
+    }
+
+    /**
+     * Converts the given javascript service code into the body of a typescript method. If the code was
+     * generated by the transformer, its wrapper function is removed; otherwise, references to `me` are replaced
+     * with `this` and, for services, the `result` variable is declared and returned.
+     * @param code          The javascript code.
+     * @param resultType    For services, the typescript type of the result. If omitted, the code is treated as a subscription.
+     * @returns             The method body, without the enclosing braces.
+     */
+    static methodBodyOfCode(code: string, resultType?: string): string {
+        const wrapper = resultType ? /^\s*var result = \(function \(\) \{([\s\S]*)\}\)\.apply\(me\);?\s*$/ : /^\s*\(function \(\) \{([\s\S]*)\}\)\.apply\(me\);?\s*$/;
+        const wrappedCode = wrapper.exec(code);
+        if (wrappedCode) {
+            return this.indentedCode(wrappedCode[1]);
+        }
+
+        // The code is unindented before any lines are added to it, so that all of its lines are indented in the same way
+        let body = this.unindentedCode(code);
+        const source = ts.createSourceFile('service.js', body, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+
+        // Find the references to "me" and whether they are all in the service's own scope
+        const references: ts.Identifier[] = [];
+        let hasNestedReferences = false;
+        let declaresResult = false;
+        let referencesResult = false;
+
+        const visit = (node: ts.Node, nested: boolean) => {
+            if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) {
+                nested = true;
+            }
+
+            if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text == 'result' && !nested) {
+                declaresResult = true;
+            }
+
+            if (ts.isIdentifier(node)) {
+                const parent = node.parent;
+                const isMemberName = (ts.isPropertyAccessExpression(parent) && parent.name == node) || (ts.isPropertyAssignment(parent) && parent.name == node);
+
+                if (!isMemberName && node.text == 'me') {
+                    references.push(node);
+                    hasNestedReferences = hasNestedReferences || nested;
+                }
+
+                if (!isMemberName && node.text == 'result') {
+                    referencesResult = true;
+                }
+            }
+
+            ts.forEachChild(node, child => visit(child, nested));
+        };
+        visit(source, false);
+
+        if (hasNestedReferences) {
+            // Functions declared in the service have their own "this" so a "me" constant is needed instead
+            body = `const me = this;\n${body}`;
+        }
+        else {
+            for (const reference of references.reverse()) {
+                body = body.substring(0, reference.getStart(source)) + 'this' + body.substring(reference.getEnd());
+            }
+        }
+
+        if (resultType && resultType != 'NOTHING' && (referencesResult || declaresResult)) {
+            if (!declaresResult) {
+                body = `let result!: ${resultType};\n${body}`;
+            }
+
+            body = `${body}\nreturn result;`;
+        }
+
+        return this.indentedCode(body);
+    }
+
+    /**
+     * Returns the given code with its leading and trailing empty lines and its common indentation removed.
+     * Tabs used for indentation are converted into spaces.
+     * @param code          The code to unindent.
+     * @returns             The unindented code.
+     */
+    static unindentedCode(code: string): string {
+        const lines = code.replace(/\r\n/g, '\n').split('\n').map(l => l.replace(/^\s+/, indentation => indentation.replace(/\t/g, MemberIndentation)));
+
+        while (lines.length && !lines[0].trim()) lines.shift();
+        while (lines.length && !lines[lines.length - 1].trim()) lines.pop();
+
+        const indentation = Math.min(...lines.filter(l => l.trim()).map(l => /^\s*/.exec(l)![0].length));
+
+        return lines.map(l => l.trim() ? l.substring(indentation).trimEnd() : '').join('\n');
+    }
+
+    /**
+     * Returns the given code with its common indentation removed and with the method body indentation added.
+     * @param code          The code to indent.
+     * @returns             The indented code.
+     */
+    static indentedCode(code: string): string {
+        return this.unindentedCode(code).split('\n').map(l => l ? BodyIndentation + l : '').join('\n');
+    }
+
+    /**
+     * Parses the given XML and converts the entities that it contains into typescript sources.
+     * Users and groups are added to the user list, which is generated when `sourceFiles` is invoked.
+     * @param xml           The XML to import.
+     */
+    async importXML(xml: string): Promise<void> {
+        const XML = await parseStringPromise(xml);
+        const entities = XML?.Entities;
+        if (!entities) {
+            throw new Error(`The XML does not contain any entities.`);
+        }
+
+        for (const kind of ImportableEntityKinds) {
+            for (const entity of entities[kind + 's']?.[0]?.[kind] || []) {
+                const className = TWEntityImporter.classNameOfEntityNamed(entity.$.name);
+                let source: string;
+
+                switch (kind) {
+                    case TWEntityKind.DataShape:
+                        source = this.sourceOfDataShape(entity, className);
+                        break;
+                    case TWEntityKind.Organization:
+                        source = this.sourceOfOrganization(entity, className);
+                        break;
+                    default:
+                        source = this.sourceOfThing(entity, className, kind);
+                }
+
+                this.sources[`${kind}s/${className}.ts`] = source;
+            }
+        }
+
+        for (const user of entities.Users?.[0]?.User || []) {
+            this.users[user.$.name] = this.declarationOfUser(user);
+        }
+
+        for (const group of entities.Groups?.[0]?.Group || []) {
+            this.groups[group.$.name] = this.declarationOfGroup(group);
+        }
+    }
+
+    /**
+     * Imports all of the XML files found in the given folder and its subfolders.
+     * @param folder        The path to the folder.
+     */
+    async importFolder(folder: string): Promise<void> {
+        for (const file of fs.readdirSync(folder)) {
+            const filePath = path.join(folder, file);
+
+            if (fs.statSync(filePath).isDirectory()) {
+                await this.importFolder(filePath);
+            }
+            else if (file.toLowerCase().endsWith('.xml')) {
+                await this.importXML(fs.readFileSync(filePath, 'utf8'));
+            }
+        }
+    }
+
+    /**
+     * Returns the typescript sources generated for all of the imported entities, including the
+     * user list, indexed by their path relative to the output folder.
+     * @returns             An object containing the sources.
+     */
+    sourceFiles(): Record<string, string> {
+        const sources = {...this.sources};
+
+        const members = [...Object.values(this.users), ...Object.values(this.groups)];
+        if (members.length) {
+            sources[`Users/${this.userListName}.ts`] = `class ${this.userListName} extends UserList {\n\n${members.join('\n\n')}\n\n}\n`;
+        }
+
+        return sources;
+    }
+
+    /**
+     * Writes the typescript sources generated for all of the imported entities to the given folder.
+     * @param folder        The path to the output folder.
+     */
+    write(folder: string): void {
+        const sources = this.sourceFiles();
+
+        if (!fs.existsSync(folder)) fs.mkdirSync(folder);
+
+        for (const file in sources) {
+            const filePath = path.join(folder, file);
+
+            if (!fs.existsSync(path.dirname(filePath))) fs.mkdirSync(path.dirname(filePath));
+            fs.writeFileSync(filePath, sources[file]);
+        }
+    }
+
+    /**
+     * Returns the decorators that are common to all entity kinds.
+     * @param entity        The XML entity.
+     * @param className     The name of the generated class.
+     * @returns             A string containing the decorators.
+     */
+    private commonDecoratorsOfEntity(entity: any, className: string): string {
+        let decorators = '';
+
+        if (className != entity.$.name) {
+            decorators += `@exportName(${JSON.stringify(entity.$.name)})\n`;
+        }
+
+        if (entity.$['aspect.isEditableExtensionObject'] == 'true') {
+            decorators += '@editable\n';
+        }
+
+        const tags = (entity.$.tags || '').split(';').filter(t => t);
+        if (tags.length) {
+            decorators += `@tags(${tags.map(t => JSON.stringify(t)).join(', ')})\n`;
+        }
+
+        decorators += TWEntityImporter.visibilityDecoratorOfElement(entity.VisibilityPermissions, 'visible');
+
+        return decorators;
+    }
+
+    /**
+     * Returns the decorators for the given permissions.
+     * @param permissions   The permissions.
+     * @param qualified     If set to `true`, the decorators will include the name of the resource.
+     * @param indentation   The indentation to use.
+     * @returns             A string containing the decorators.
+     */
+    private decoratorsOfPermissions(permissions: TWImportedPermission[], qualified: boolean, indentation: string = ''): string {
+        return permissions.map(p => {
+            const args = [...p.permissions, p.principal];
+            if (qualified) args.unshift(JSON.stringify(p.resource));
+
+            return `${indentation}@${p.decorator}(${args.join(', ')})\n`;
+        }).join('');
+    }
+
+    /**
+     * Returns the source of a class that represents the given thing, thing template or thing shape.
+     * @param entity        The XML entity.
+     * @param className     The name of the generated class.
+     * @param kind          The kind of entity.
+     * @returns             The typescript source.
+     */
+    private sourceOfThing(entity: any, className: string, kind: TWEntityKind): string {
+        const shape = kind == TWEntityKind.ThingShape ? entity : entity.ThingShape?.[0] || {};
+
+        // Member permissions are applied to members, while all others are applied to the class
+        // For thing templates and thing shapes, member permissions are always instance permissions
+        const permissions = [
+            ...TWEntityImporter.permissionsOfElement(entity.RunTimePermissions),
+            ...TWEntityImporter.permissionsOfElement(entity.InstanceRunTimePermissions, true)
+        ];
+        const memberNames: string[] = [];
+        const memberPermissions = (name: string) => {
+            memberNames.push(name);
+            return this.decoratorsOfPermissions(permissions.filter(p => p.resource == name && (p.decorator.endsWith('Instance') == (kind != TWEntityKind.Thing))), false, MemberIndentation);
+        };
+
+        const members: string[] = [];
+
+        // **********************************  PROPERTIES  **********************************
+        const remoteBindings = entity.RemotePropertyBindings?.[0]?.RemotePropertyBinding || [];
+        const localBindings = entity.PropertyBindings?.[0]?.PropertyBinding || [];
+
+        for (const property of shape.PropertyDefinitions?.[0]?.PropertyDefinition || []) {
+            const attributes = property.$;
+            let declaration = TWEntityImporter.documentationOfLines([attributes.description], MemberIndentation);
+
+            if (attributes['aspect.isPersistent'] == 'true') declaration += `${MemberIndentation}@persistent\n`;
+            if (attributes['aspect.isLogged'] == 'true') declaration += `${MemberIndentation}@logged\n`;
+            if (attributes['aspect.minimumValue']) declaration += `${MemberIndentation}@minimumValue(${attributes['aspect.minimumValue']})\n`;
+            if (attributes['aspect.maximumValue']) declaration += `${MemberIndentation}@maximumValue(${attributes['aspect.maximumValue']})\n`;
+            if (attributes['aspect.units']) declaration += `${MemberIndentation}@unit(${JSON.stringify(attributes['aspect.units'])})\n`;
+
+            const dataChangeType = attributes['aspect.dataChangeType'] || 'VALUE';
+            const dataChangeThreshold = parseFloat(attributes['aspect.dataChangeThreshold'] || '0');
+            if (dataChangeType != 'VALUE') {
+                declaration += `${MemberIndentation}@dataChangeType(${JSON.stringify(dataChangeType)})\n`;
+            }
+            else if (dataChangeThreshold) {
+                declaration += `${MemberIndentation}@dataChangeType("VALUE", ${dataChangeThreshold})\n`;
+            }
+
+            const remoteBinding = remoteBindings.find(b => b.$.name == attributes.name)?.$;
+            if (remoteBinding) {
+                const args: string[] = [];
+                const pushTypes = {VALUE: 'Value', ALWAYS: 'Always', NEVER: 'Never'};
+                const startTypes = {useDefaultValue: 'DefaultValue', useEdgeValue: 'EdgeValue'};
+
+                if (parseFloat(attributes['aspect.cacheTime'] || '0')) args.push(`cacheTime: ${parseFloat(attributes['aspect.cacheTime'])}`);
+                if (remoteBinding.pushType && remoteBinding.pushType.toUpperCase() != 'VALUE') args.push(`pushType: ${JSON.stringify(pushTypes[remoteBinding.pushType.toUpperCase()] || remoteBinding.pushType)}`);
+                if (parseFloat(remoteBinding.pushThreshold || '0')) args.push(`pushThreshold: ${parseFloat(remoteBinding.pushThreshold)}`);
+                if (remoteBinding['aspect.startType'] && remoteBinding['aspect.startType'] != 'useDefaultValue') args.push(`startType: ${JSON.stringify(startTypes[remoteBinding['aspect.startType']] || remoteBinding['aspect.startType'])}`);
+                if (remoteBinding.foldType && remoteBinding.foldType != 'NONE') args.push(`foldType: ${JSON.stringify(remoteBinding.foldType)}`);
+                if (parseFloat(remoteBinding.timeout || '0')) args.push(`timeout: ${parseFloat(remoteBinding.timeout)}`);
+
+                declaration += `${MemberIndentation}@remote(${JSON.stringify(remoteBinding.sourceName)}${args.length ? `, {${args.join(', ')}}` : ''})\n`;
+            }
+
+            const localBinding = localBindings.find(b => b.$.name == attributes.name)?.$;
+            if (localBinding) {
+                declaration += `${MemberIndentation}@local(${JSON.stringify(localBinding.sourceThingName)}, ${JSON.stringify(localBinding.sourceName)})\n`;
+            }
+
+            declaration += memberPermissions(attributes.name);
+
+            const readonly = attributes['aspect.isReadOnly'] == 'true' ? 'readonly ' : '';
+            const defaultValue = attributes['aspect.defaultValue'] !== undefined ? TWEntityImporter.literalOfDefaultValue(attributes['aspect.defaultValue'], attributes.baseType) : undefined;
+            const type = TWEntityImporter.typeOfField(attributes);
+
+            declaration += `${MemberIndentation}${readonly}${attributes.name}${defaultValue !== undefined ? `: ${type} = ${defaultValue}` : `!: ${type}`};`;
+
+            members.push(declaration);
+        }
+
+        // **********************************  EVENTS  **********************************
+        const remoteEventBindings = entity.RemoteEventBindings?.[0]?.RemoteEventBinding || [];
+
+        for (const event of shape.EventDefinitions?.[0]?.EventDefinition || []) {
+            const attributes = event.$;
+            let declaration = TWEntityImporter.documentationOfLines([attributes.description], MemberIndentation);
+
+            const remoteBinding = remoteEventBindings.find(b => b.$.name == attributes.name)?.$;
+            if (remoteBinding) {
+                declaration += `${MemberIndentation}@remoteEvent(${JSON.stringify(remoteBinding.sourceName)})\n`;
+            }
+
+            declaration += memberPermissions(attributes.name);
+
+            declaration += `${MemberIndentation}${attributes.name}!: EVENT<${attributes.dataShape ? TWEntityImporter.referenceOfEntityNamed(attributes.dataShape) : 'any'}>;`;
+
+            members.push(declaration);
+        }
+
+        // **********************************  SERVICES  **********************************
+        const implementations = shape.ServiceImplementations?.[0]?.ServiceImplementation || [];
+        const remoteServiceBindings = entity.RemoteServiceBindings?.[0]?.RemoteServiceBinding || [];
+        const definitions = shape.ServiceDefinitions?.[0]?.ServiceDefinition || [];
+
+        for (const service of definitions) {
+            const attributes = service.$;
+            const parameters = (service.ParameterDefinitions?.[0]?.FieldDefinition || []).map(p => p.$);
+            const result = service.ResultType?.[0]?.$ || {baseType: 'NOTHING'};
+            const isAsync = attributes['aspect.isAsync'] == 'true';
+            const resultType = TWEntityImporter.typeOfField(result);
+
+            let declaration = TWEntityImporter.documentationOfLines([
+                attributes.description,
+                ...parameters.filter(p => p.description).map(p => `@param ${p.name} ${p.description}`),
+                result.description ? `@return ${result.description}` : undefined
+            ], MemberIndentation);
+
+            if (attributes.isAllowOverride == 'false') declaration += `${MemberIndentation}@final\n`;
+
+            const implementation = TWEntityImporter.implementationNamed(implementations, attributes.name);
+            const remoteBinding = remoteServiceBindings.find(b => b.$.name == attributes.name)?.$;
+            let body: string;
+
+            if (remoteBinding) {
+                const args: string[] = [];
+                if (remoteBinding.enableQueue == 'true') args.push('enableQueue: true');
+                if (parseFloat(remoteBinding.timeout || '0')) args.push(`timeout: ${parseFloat(remoteBinding.timeout)}`);
+
+                declaration += `${MemberIndentation}@remoteService(${JSON.stringify(remoteBinding.sourceName)}${args.length ? `, {${args.join(', ')}}` : ''})\n`;
+
+                // The body of remote services is ignored
+                body = resultType == 'NOTHING' || isAsync ? '' : `${BodyIndentation}return undefined as any;`;
+            }
+            else if (implementation?.$.handlerName == 'SQLQuery' || implementation?.$.handlerName == 'SQLCommand') {
+                const handler = implementation.$.handlerName;
+                const row = TWEntityImporter.scriptRowOfImplementation(implementation);
+
+                if (handler == 'SQLQuery') {
+                    declaration += `${MemberIndentation}@SQLQuery(${parseFloat(row.timeout || '60')}, ${parseFloat(row.maxItems || '500')})\n`;
+                }
+                else {
+                    declaration += `${MemberIndentation}@SQLCommand(${parseFloat(row.timeout || '60')})\n`;
+                }
+
+                // Prepared statement parameters and literal replacements are both specified as placeholders
+                const sql = (row.sql || '').replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${').replace(/\[\[(\w+)\]\]/g, '${$1}').replace(/<<(\w+)>>/g, '<<${$1}>>');
+                body = `${BodyIndentation}${handler == 'SQLQuery' ? 'return ' : ''}${handler}\`${sql}\`;`;
+            }
+            else {
+                body = TWEntityImporter.methodBodyOfCode(TWEntityImporter.scriptRowOfImplementation(implementation).code || '', isAsync ? 'NOTHING' : resultType);
+            }
+
+            declaration += memberPermissions(attributes.name);
+
+            let parameterList = '';
+            if (parameters.length) {
+                const names = parameters.map(p => {
+                    const defaultValue = p['aspect.defaultValue'] !== undefined ? TWEntityImporter.literalOfDefaultValue(p['aspect.defaultValue'], p.baseType) : undefined;
+                    return defaultValue !== undefined ? `${p.name} = ${defaultValue}` : p.name;
+                });
+                const types = parameters.map(p => `${p.name}${p['aspect.isRequired'] == 'true' ? '' : '?'}: ${TWEntityImporter.typeOfField(p)}`);
+
+                parameterList = `{${names.join(', ')}}: {${types.join(', ')}}`;
+            }
+
+            declaration += `${MemberIndentation}${isAsync ? 'async ' : ''}${attributes.name}(${parameterList})${isAsync ? '' : `: ${resultType}`} {\n${body}\n${MemberIndentation}}`;
+
+            members.push(declaration);
+        }
+
+        // Implementations without a definition override services inherited from the base entity
+        for (const implementation of implementations) {
+            if (definitions.some(d => d.$.name == implementation.$.name)) continue;
+
+            let declaration = `${MemberIndentation}// The signature of this service is inherited and should be updated to match the overriden service\n`;
+            declaration += `${MemberIndentation}@override\n`;
+            declaration += memberPermissions(implementation.$.name);
+            declaration += `${MemberIndentation}${implementation.$.name}(): any {\n${TWEntityImporter.methodBodyOfCode(TWEntityImporter.scriptRowOfImplementation(implementation).code || '', 'any')}\n${MemberIndentation}}`;
+
+            members.push(declaration);
+        }
+
+        // **********************************  SUBSCRIPTIONS  **********************************
+        for (const subscription of shape.Subscriptions?.[0]?.Subscription || []) {
+            const attributes = subscription.$;
+            let declaration = TWEntityImporter.documentationOfLines([attributes.description], MemberIndentation);
+
+            const args = [JSON.stringify(attributes.eventName)];
+            if (attributes.eventName == 'DataChange' && attributes.sourceProperty) {
+                args.push(JSON.stringify(attributes.sourceProperty));
+            }
+
+            if (attributes.source) {
+                declaration += `${MemberIndentation}@subscription(${[JSON.stringify(attributes.source), ...args].join(', ')})\n`;
+            }
+            else {
+                declaration += `${MemberIndentation}@localSubscription(${args.join(', ')})\n`;
+            }
+
+            const code = TWEntityImporter.scriptRowOfImplementation(subscription.ServiceImplementation?.[0]).code || '';
+            declaration += `${MemberIndentation}${attributes.name}(alertName: STRING, eventData: INFOTABLE, eventName: STRING, eventTime: DATETIME, source: STRING, sourceProperty: STRING) {\n${TWEntityImporter.methodBodyOfCode(code)}\n${MemberIndentation}}`;
+
+            members.push(declaration);
+        }
+
+        // **********************************  CLASS DECLARATION  **********************************
+        let source = TWEntityImporter.documentationOfLines([entity.$.description]);
+
+        if (kind == TWEntityKind.Thing) source += '@ThingDefinition\n';
+        if (kind == TWEntityKind.ThingTemplate) source += '@ThingTemplateDefinition\n';
+
+        source += this.commonDecoratorsOfEntity(entity, className);
+
+        if (kind == TWEntityKind.Thing) {
+            if (entity.$.published == 'true') source += '@published\n';
+            if (entity.$.identifier) source += `@identifier(${JSON.stringify(entity.$.identifier)})\n`;
+        }
+
+        if (entity.$.valueStream) {
+            source += `@valueStream(${JSON.stringify(entity.$.valueStream)})\n`;
+        }
+
+        source += TWEntityImporter.visibilityDecoratorOfElement(entity.InstanceVisibilityPermissions, 'visibleInstance');
+
+        // Permissions that don't refer to a member of this entity are applied to the class
+        const classPermissions = permissions.filter(p => !memberNames.includes(p.resource) || (p.decorator.endsWith('Instance') != (kind != TWEntityKind.Thing)));
+        for (const permission of classPermissions) {
+            if (permission.resource != '*' && permission.decorator.endsWith('Instance')) {
+                // Instance permissions for inherited members cannot be specified via decorators
+                source += `// ${permission.decorator} ${permission.resource}: ${[...permission.permissions, permission.principal].join(', ')}\n`;
+                continue;
+            }
+
+            source += this.decoratorsOfPermissions([permission], permission.resource != '*');
+        }
+
+        source += this.configurationDecoratorsOfEntity(entity);
+
+        source += `class ${className} extends ${this.baseClassOfThing(entity, kind)} {\n\n${members.join('\n\n')}${members.length ? '\n\n' : ''}}\n`;
+
+        return source;
+    }
+
+    /**
+     * Returns the base class expression of the given thing, thing template or thing shape.
+     * @param entity        The XML entity.
+     * @param kind          The kind of entity.
+     * @returns             A base class expression.
+     */
+    private baseClassOfThing(entity: any, kind: TWEntityKind): string {
+        if (kind == TWEntityKind.ThingShape) return 'ThingShapeBase';
+
+        const template: string = (kind == TWEntityKind.Thing ? entity.$.thingTemplate : entity.$.baseThingTemplate) || 'GenericThing';
+        const shapes: string[] = (entity.ImplementedShapes?.[0]?.ImplementedShape || []).map(s => s.$.name);
+
+        // Data things take their data shape from the settings configuration table
+        let dataShape: string | undefined;
+        if (TWDataThings.includes(template)) {
+            const settings = (entity.ConfigurationTables?.[0]?.ConfigurationTable || []).find(t => t.$.name == 'Settings');
+            dataShape = settings ? TWEntityImporter.rowsOfConfigurationTable(settings)[0]?.dataShape as string : undefined;
+        }
+
+        const names = [template, ...shapes];
+        if (names.every(n => IdentifierRegex.test(n)) && (!dataShape || IdentifierRegex.test(dataShape))) {
+            const baseTemplate = dataShape ? (shapes.length ? `DataThing(${template}, ${dataShape})` : `${template}<${dataShape}>`) : template;
+            return shapes.length ? `ThingTemplateWithShapes(${[baseTemplate, ...shapes].join(', ')})` : baseTemplate;
+        }
+
+        return shapes.length ? `ThingTemplateWithShapesReference(${names.map(n => JSON.stringify(n)).join(', ')})` : `ThingTemplateReference(${JSON.stringify(template)})`;
+    }
+
+    /**
+     * Returns the configuration table decorators of the given entity.
+     * @param entity        The XML entity.
+     * @returns             A string containing the decorators.
+     */
+    private configurationDecoratorsOfEntity(entity: any): string {
+        let decorators = '';
+
+        const definitions = entity.ConfigurationTableDefinitions?.[0]?.ConfigurationTableDefinition || [];
+        if (definitions.length) {
+            const tables = definitions.map(d => `${MemberIndentation}${d.$.name}!: ${d.$.isMultiRow == 'true' ? 'MultiRowTable' : 'Table'}<${TWEntityImporter.referenceOfEntityNamed(d.$.dataShapeName)}>;`);
+            decorators += `@ConfigurationTables(class {\n${tables.join('\n')}\n})\n`;
+        }
+
+        const configuration: string[] = [];
+        for (const table of entity.ConfigurationTables?.[0]?.ConfigurationTable || []) {
+            const definition = definitions.find(d => d.$.name == table.$.name);
+            // The settings table of data things is specified through the generic argument
+            if (table.$.name == 'Settings' && TWDataThings.includes(entity.$.thingTemplate)) continue;
+            if (GeneratedConfigurationTables.includes(table.$.name)) continue;
+
+            const rows = TWEntityImporter.rowsOfConfigurationTable(table).map(r => TWEntityImporter.literalOfRow(r));
+            if (!rows.length) continue;
+
+            // The table definition, when available, is more reliable than the table itself
+            const isMultiRow = (definition || table).$.isMultiRow == 'true' || rows.length > 1;
+            const value = isMultiRow ? `[${rows.join(', ')}]` : rows[0];
+            configuration.push(`${MemberIndentation}${table.$.name}: ${value}`);
+        }
+
+        if (configuration.length) {
+            decorators += `@config({\n${configuration.join(',\n')}\n})\n`;
+        }
+
+        return decorators;
+    }
+
+    /**
+     * Returns the source of a class that represents the given data shape.
+     * @param entity        The XML entity.
+     * @param className     The name of the generated class.
+     * @returns             The typescript source.
+     */
+    private sourceOfDataShape(entity: any, className: string): string {
+        const members: string[] = [];
+
+        for (const field of entity.FieldDefinitions?.[0]?.FieldDefinition || []) {
+            const attributes = field.$;
+            let declaration = TWEntityImporter.documentationOfLines([attributes.description], MemberIndentation);
+
+            if (attributes['aspect.isPrimaryKey'] == 'true') declaration += `${MemberIndentation}@primaryKey\n`;
+
+            // The first ordinal is the default one
+            if (parseInt(attributes.ordinal)) declaration += `${MemberIndentation}@ordinal(${parseInt(attributes.ordinal)})\n`;
+
+            const defaultValue = attributes['aspect.defaultValue'] !== undefined ? TWEntityImporter.literalOfDefaultValue(attributes['aspect.defaultValue'], attributes.baseType) : undefined;
+            const type = TWEntityImporter.typeOfField(attributes);
+
+            declaration += `${MemberIndentation}${attributes.name}${defaultValue !== undefined ? `: ${type} = ${defaultValue}` : `!: ${type}`};`;
+
+            members.push(declaration);
+        }
+
+        let source = TWEntityImporter.documentationOfLines([entity.$.description]);
+
+        source += this.commonDecoratorsOfEntity(entity, className);
+        source += this.decoratorsOfPermissions(TWEntityImporter.permissionsOfElement(entity.RunTimePermissions), false);
+
+        const baseDataShape: string = entity.$.baseDataShape;
+        let baseClass = 'DataShapeBase';
+        if (baseDataShape) {
+            baseClass = IdentifierRegex.test(baseDataShape) ? baseDataShape : `DataShapeReference(${JSON.stringify(baseDataShape)})`;
+        }
+
+        source += `class ${className} extends ${baseClass} {\n\n${members.join('\n\n')}${members.length ? '\n\n' : ''}}\n`;
+
+        return source;
+    }
+
+    /**
+     * Returns the source of a class that represents the given organization.
+     * @param entity        The XML entity.
+     * @param className     The name of the generated class.
+     * @returns             The typescript source.
+     */
+    private sourceOfOrganization(entity: any, className: string): string {
+        const units: Record<string, any> = {};
+        for (const unit of entity.OrganizationalUnits?.[0]?.OrganizationalUnit || []) {
+            units[unit.$.name] = unit;
+        }
+
+        const connections: {from: string, to: string}[] = (entity.Connections?.[0]?.Connection || []).map(c => c.$);
+
+        const literalOfUnit = (name: string, indentation: string): string => {
+            const unit = units[name];
+            const lines: string[] = [];
+
+            lines.push(TWEntityImporter.documentationOfLines([unit?.$.description], indentation + MemberIndentation) + `${indentation}${MemberIndentation}name: ${JSON.stringify(name)}`);
+
+            const members = (unit?.Members?.[0]?.Members?.[0]?.Member || []).map(m => TWEntityImporter.referenceOfPrincipal(m.$));
+            if (members.length) {
+                lines.push(`${indentation}${MemberIndentation}members: [${members.join(', ')}]`);
+            }
+
+            const subunits = connections.filter(c => c.from == name).map(c => literalOfUnit(c.to, indentation + MemberIndentation + MemberIndentation));
+            if (subunits.length) {
+                lines.push(`${indentation}${MemberIndentation}units: [\n${subunits.join(',\n')}\n${indentation}${MemberIndentation}]`);
+            }
+
+            return `${indentation}{\n${lines.join(',\n')}\n${indentation}}`;
+        };
+
+        const root = connections.find(c => !c.from)?.to || Object.keys(units)[0];
+
+        let source = TWEntityImporter.documentationOfLines([entity.$.description]);
+
+        source += this.commonDecoratorsOfEntity(entity, className);
+        source += this.decoratorsOfPermissions(TWEntityImporter.permissionsOfElement(entity.RunTimePermissions), false);
+
+        source += `class ${className} extends OrganizationBase {\n\n${MemberIndentation}units = ${root ? literalOfUnit(root, MemberIndentation).trimStart() : '{name: ""}'};\n\n}\n`;
+
+        return source;
+    }
+
+    /**
+     * Returns the user list member declaration of the given user.
+     * @param user          The XML user entity.
+     * @returns             A property declaration.
+     */
+    private declarationOfUser(user: any): string {
+        let declaration = TWEntityImporter.documentationOfLines([user.$.description], MemberIndentation);
+        declaration += this.decoratorsOfPermissions(TWEntityImporter.permissionsOfElement(user.RunTimePermissions), false, MemberIndentation);
+
+        // User extensions are stored in a configuration table with name and value columns
+        const extensionsTable = (user.ConfigurationTables?.[0]?.ConfigurationTable || []).find(t => t.$.name == 'UserExtensions');
+        const extensions = extensionsTable ? TWEntityImporter.rowsOfConfigurationTable(extensionsTable) : [];
+
+        const values = extensions.filter(e => e.value !== '').map(e => `${e.name}: ${JSON.stringify(e.value)}`);
+
+        declaration += `${MemberIndentation}${user.$.name} = {${values.length ? ` ${values.join(', ')} ` : ''}};`;
+
+        return declaration;
+    }
+
+    /**
+     * Returns the user list member declaration of the given group.
+     * @param group         The XML group entity.
+     * @returns             A property declaration.
+     */
+    private declarationOfGroup(group: any): string {
+        let declaration = TWEntityImporter.documentationOfLines([group.$.description], MemberIndentation);
+        declaration += this.decoratorsOfPermissions(TWEntityImporter.permissionsOfElement(group.RunTimePermissions), false, MemberIndentation);
+
+        const members = (group.Members?.[0]?.Members?.[0]?.Member || []).map(m => TWEntityImporter.referenceOfPrincipal(m.$));
+
+        declaration += `${MemberIndentation}${group.$.name} = [${members.join(', ')}];`;
+
+        return declaration;
+    }
+
+}
@@ -0,0 +1,112 @@
+import { GlobalFunction } from './TWCoreTypes';
+import { NonAlphanumericRegexGlobal } from './APIDeclarationGenerator';
+import { polyfillsOfRhinoFeatures } from './RhinoCompatibility';
+
+/**
+ * The interface for the library into which the global functions of a project are compiled
+ * when the `globalFunctions` option is set to `"library"`.
+ */
+export interface TWGlobalFunctionLibrary {
+    /**
+     * The name of the project whose global functions are contained in the library.
+     */
+    projectName: string;
+
+    /**
+     * The name of the thing that defines the library when it starts.
+     */
+    name: string;
+
+    /**
+     * The global identifier under which the library object is defined, through which
+     * services and subscriptions call the library's functions.
+     */
+    identifier: string;
+
+    /**
+     * The names of the functions exposed by the library.
+     */
+    functions: string[];
+
+    /**
+     * An expression that evaluates to the library object. This contains the code of the project's
+     * functions, of the functions they depend on from other projects and of their emit helpers.
+     */
+    expression: string;
+}
+
+/**
+ * Returns the name of the thing that contains the global functions library of the given project.
+ * @param projectName   The name of the project.
+ * @returns             The name of the library thing.
+ */
+export function globalFunctionLibraryNameOfProject(projectName: string = ''): string {
+    return projectName ? `${projectName}.GlobalFunctions` : 'GlobalFunctions';
+}
+
+/**
+ * Returns the global identifier under which the global functions library of the given project is defined.
+ * @param projectName   The name of the project.
+ * @returns             The identifier.
+ */
+export function globalFunctionLibraryIdentifierOfProject(projectName: string = ''): string {
+    return projectName ? `__GlobalFunctions_${projectName.replace(NonAlphanumericRegexGlobal, '_')}` : '__GlobalFunctions';
+}
+
+/**
+ * Returns the global functions libraries of the projects whose functions are contained in the given store,
+ * indexed by project name. Only functions that were compiled in library mode are included.
+ * @param functions     The global functions in the transformer store, indexed by name.
+ * @returns             An object containing the library of each project.
+ */
+export function globalFunctionLibrariesOfFunctions(functions: Record<string, GlobalFunction>): Record<string, TWGlobalFunctionLibrary> {
+    const libraries: Record<string, TWGlobalFunctionLibrary> = {};
+
+    for (const fn of Object.values(functions)) {
+        if (fn.projectName === undefined) continue;
+
+        const library = libraries[fn.projectName] = libraries[fn.projectName] || {
+            projectName: fn.projectName,
+            name: globalFunctionLibraryNameOfProject(fn.projectName),
+            identifier: globalFunctionLibraryIdentifierOfProject(fn.projectName),
+            functions: [],
+            expression: ''
+        };
+
+        library.functions.push(fn.name);
+    }
+
+    for (const library of Object.values(libraries)) {
+        // Functions from other projects are copied into the library of each project that depends on them,
+        // because the functions of a library call each other directly
+        const names = new Set(library.functions);
+        let size: number;
+        do {
+            size = names.size;
+            for (const name of [...names]) {
+                for (const dependency of functions[name]?.dependencies || []) {
+                    if (functions[dependency]) names.add(dependency);
+                }
+            }
+        } while (size != names.size);
+
+        // Emit helpers are shared by all functions, so each is only added once
+        const helpers = new Map<string, string>();
+        for (const name of names) {
+            for (const helper of functions[name].emitHelperDependencies || []) {
+                if (typeof helper.text == 'string' && !helpers.has(helper.name)) helpers.set(helper.name, helper.text);
+            }
+        }
+
+        const code = [...helpers.values(), ...[...names].map(name => functions[name].compiledCode || '')];
+
+        // The polyfills used by the functions are added when the library is defined, before any function can be called
+        const polyfills = new Set([...names].flatMap(name => [...functions[name].polyfills || []]));
+        if (polyfills.size) code.unshift(polyfillsOfRhinoFeatures([...polyfills]));
+        const exports = library.functions.map(name => `${name}: ${name}`).join(', ');
+
+        library.expression = `(function () {\n${code.join('\n')}\nreturn {${exports}};\n})()`;
+    }
+
+    return libraries;
+}
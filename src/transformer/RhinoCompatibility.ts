@@ -0,0 +1,305 @@
+import * as ts from 'typescript';
+
+/**
+ * The interface for a javascript feature that may be unavailable in the Rhino engine that runs services.
+ */
+export interface TWRhinoFeature {
+    /**
+     * For builtin functions, an ES5 function expression that implements the feature and is declared as
+     * a local function in the methods that use it when polyfills are enabled.
+     */
+    polyfill?: string;
+}
+
+/**
+ * The builtin objects and functions that are checked, indexed by the name under which they are reported.
+ */
+export const RhinoFeatures: Record<string, TWRhinoFeature> = {
+    'Map': {},
+    'Set': {},
+    'WeakMap': {},
+    'WeakSet': {},
+    'Promise': {},
+    'Symbol': {},
+    'Proxy': {},
+    'Reflect': {},
+    'Symbol.iterator': {},
+    'Symbol.asyncIterator': {},
+    'Array.from': {polyfill: `function (items, mapFn, thisArg) {
+        var result = [];
+        for (var i = 0; i < items.length; i++) result.push(mapFn ? mapFn.call(thisArg, items[i], i) : items[i]);
+        return result;
+    }`},
+    'Array.of': {polyfill: `function () { return Array.prototype.slice.call(arguments); }`},
+    'Array.prototype.includes': {polyfill: `function (value, fromIndex) {
+        for (var i = fromIndex || 0; i < this.length; i++) {
+            if (this[i] === value || (value !== value && this[i] !== this[i])) return true;
+        }
+        return false;
+    }`},
+    'Array.prototype.find': {polyfill: `function (predicate, thisArg) {
+        for (var i = 0; i < this.length; i++) if (predicate.call(thisArg, this[i], i, this)) return this[i];
+    }`},
+    'Array.prototype.findIndex': {polyfill: `function (predicate, thisArg) {
+        for (var i = 0; i < this.length; i++) if (predicate.call(thisArg, this[i], i, this)) return i;
+        return -1;
+    }`},
+    'Array.prototype.fill': {polyfill: `function (value, start, end) {
+        var length = this.length;
+        start = start === undefined ? 0 : (start < 0 ? Math.max(length + start, 0) : Math.min(start, length));
+        end = end === undefined ? length : (end < 0 ? Math.max(length + end, 0) : Math.min(end, length));
+        for (var i = start; i < end; i++) this[i] = value;
+        return this;
+    }`},
+    'Array.prototype.flat': {polyfill: `function flat(depth) {
+        depth = depth === undefined ? 1 : depth;
+        var result = [];
+        for (var i = 0; i < this.length; i++) {
+            if (Array.isArray(this[i]) && depth > 0) result.push.apply(result, flat.call(this[i], depth - 1));
+            else result.push(this[i]);
+        }
+        return result;
+    }`},
+    'Array.prototype.flatMap': {polyfill: `function (callback, thisArg) {
+        var result = [];
+        for (var i = 0; i < this.length; i++) {
+            var value = callback.call(thisArg, this[i], i, this);
+            if (Array.isArray(value)) result.push.apply(result, value);
+            else result.push(value);
+        }
+        return result;
+    }`},
+    'Object.assign': {polyfill: `function (target) {
+        for (var i = 1; i < arguments.length; i++) {
+            var source = arguments[i];
+            if (source) for (var key in source) if (Object.prototype.hasOwnProperty.call(source, key)) target[key] = source[key];
+        }
+        return target;
+    }`},
+    'Object.entries': {polyfill: `function (object) {
+        return Object.keys(object).map(function (key) { return [key, object[key]]; });
+    }`},
+    'Object.values': {polyfill: `function (object) {
+        return Object.keys(object).map(function (key) { return object[key]; });
+    }`},
+    'Object.fromEntries': {polyfill: `function (entries) {
+        var result = {};
+        for (var i = 0; i < entries.length; i++) result[entries[i][0]] = entries[i][1];
+        return result;
+    }`},
+    'String.prototype.includes': {polyfill: `function (search, position) {
+        return this.indexOf(search, position) != -1;
+    }`},
+    'String.prototype.startsWith': {polyfill: `function (search, position) {
+        position = position || 0;
+        return this.substring(position, position + search.length) == search;
+    }`},
+    'String.prototype.endsWith': {polyfill: `function (search, length) {
+        length = length === undefined ? this.length : length;
+        return this.substring(length - search.length, length) == search;
+    }`},
+    'String.prototype.repeat': {polyfill: `function (count) {
+        return new Array(count + 1).join(this);
+    }`},
+    'String.prototype.padStart': {polyfill: `function (length, padding) {
+        var value = String(this);
+        padding = padding === undefined ? ' ' : String(padding);
+        while (value.length < length && padding) value = padding.substring(0, length - value.length) + value;
+        return value;
+    }`},
+    'String.prototype.padEnd': {polyfill: `function (length, padding) {
+        var value = String(this);
+        padding = padding === undefined ? ' ' : String(padding);
+        while (value.length < length && padding) value = value + padding.substring(0, length - value.length);
+        return value;
+    }`},
+    'String.prototype.trimStart': {polyfill: `function () { return this.replace(/^\\s+/, ''); }`},
+    'String.prototype.trimEnd': {polyfill: `function () { return this.replace(/\\s+$/, ''); }`},
+    'Number.isInteger': {polyfill: `function (value) {
+        return typeof value == 'number' && isFinite(value) && Math.floor(value) === value;
+    }`},
+    'Number.isNaN': {polyfill: `function (value) { return typeof value == 'number' && value !== value; }`},
+    'Number.isFinite': {polyfill: `function (value) { return typeof value == 'number' && isFinite(value); }`},
+    'Math.trunc': {polyfill: `function (value) { return value < 0 ? Math.ceil(value) : Math.floor(value); }`},
+    'Math.sign': {polyfill: `function (value) { return value > 0 ? 1 : (value < 0 ? -1 : +value); }`},
+
+    'Arrow functions': {},
+    'Template literals': {},
+    'Classes': {},
+    'Destructuring': {},
+    'Spread': {},
+    'for...of loops': {},
+    'Generators': {},
+    'Exponentiation operator': {},
+    'Optional chaining': {},
+    'Nullish coalescing': {}
+};
+
+/**
+ * The names under which the members of the builtin interfaces declared in the typescript library are reported.
+ */
+const LibraryInterfaceNames: Record<string, string> = {
+    Array: 'Array.prototype',
+    ReadonlyArray: 'Array.prototype',
+    String: 'String.prototype',
+    ArrayConstructor: 'Array',
+    ObjectConstructor: 'Object',
+    StringConstructor: 'String',
+    NumberConstructor: 'Number',
+    SymbolConstructor: 'Symbol',
+    Math: 'Math'
+};
+
+/**
+ * Returns the syntax feature used by the given node, if it is emitted unchanged for the given compilation target.
+ * @param node          The node.
+ * @param target        The compilation target.
+ * @returns             The name of the feature, or `undefined` if the node doesn't use one.
+ */
+function syntaxFeatureOfNode(node: ts.Node, target: ts.ScriptTarget): string | undefined {
+    // Typescript converts the syntax that is newer than the target, so only features supported by it are emitted
+    if (target >= ts.ScriptTarget.ES2015) {
+        if (ts.isArrowFunction(node)) return 'Arrow functions';
+        if (ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) return 'Template literals';
+        if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) return 'Classes';
+        if (ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node)) return 'Destructuring';
+        if (ts.isSpreadElement(node)) return 'Spread';
+        if (ts.isForOfStatement(node)) return 'for...of loops';
+        if ((ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) && node.asteriskToken) return 'Generators';
+    }
+
+    if (target >= ts.ScriptTarget.ES2016 && ts.isBinaryExpression(node)) {
+        const operator = node.operatorToken.kind;
+        if (operator == ts.SyntaxKind.AsteriskAsteriskToken || operator == ts.SyntaxKind.AsteriskAsteriskEqualsToken) return 'Exponentiation operator';
+    }
+
+    if (target >= ts.ScriptTarget.ES2018 && ts.isSpreadAssignment(node)) return 'Spread';
+
+    if (target >= ts.ScriptTarget.ES2020) {
+        if ((ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) && node.questionDotToken) return 'Optional chaining';
+        if (ts.isBinaryExpression(node) && node.operatorToken.kind == ts.SyntaxKind.QuestionQuestionToken) return 'Nullish coalescing';
+    }
+}
+
+/**
+ * Returns the checked feature used by the given node of a service or subscription, if any. Builtins are only
+ * reported when they resolve to the declarations of the typescript library.
+ * @param node          The node, which must be part of the original source file.
+ * @param program       The typescript program.
+ * @returns             The name of the feature, or `undefined` if the node doesn't use one.
+ */
+export function rhinoFeatureOfNode(node: ts.Node, program: ts.Program): string | undefined {
+    const syntaxFeature = syntaxFeatureOfNode(node, program.getCompilerOptions().target ?? ts.ScriptTarget.ES3);
+    if (syntaxFeature) return syntaxFeature;
+
+    if (!ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node)) return;
+
+    // Types don't emit any code
+    for (let parent: ts.Node = node; parent.parent; parent = parent.parent) {
+        if (ts.isTypeNode(parent)) return;
+    }
+
+    const symbol = program.getTypeChecker().getSymbolAtLocation(ts.isIdentifier(node) ? node : node.name);
+
+    // Builtin objects are declared as global variables, while their methods are declared in interfaces
+    if (ts.isIdentifier(node)) {
+        const declaration = symbol?.declarations?.find(ts.isVariableDeclaration);
+        if (declaration && program.isSourceFileDefaultLibrary(declaration.getSourceFile()) && RhinoFeatures[node.text]) return node.text;
+        return;
+    }
+
+    const declaration = symbol?.declarations?.[0];
+    if (!declaration || !program.isSourceFileDefaultLibrary(declaration.getSourceFile())) return;
+
+    if (!ts.isInterfaceDeclaration(declaration.parent)) return;
+    const interfaceName = LibraryInterfaceNames[declaration.parent.name.text];
+    const feature = interfaceName && `${interfaceName}.${node.name.text}`;
+
+    if (feature && RhinoFeatures[feature]) return feature;
+}
+
+/**
+ * Returns the references to builtin objects and static functions in the given javascript code, such as the npm
+ * package code bundled into a method. Because this code has no type information, the methods of builtin prototypes
+ * are not detected, identifiers declared by the code are assumed to shadow the builtins, and the builtins that the
+ * code tests with `typeof` are assumed to be optional.
+ * @param code          The javascript code.
+ * @returns             The referencing nodes and the names of their features, in the order in which they appear.
+ */
+function rhinoFeatureReferencesOfCode(code: string): {node: ts.Node, feature: string}[] {
+    const source = ts.createSourceFile('bundle.js', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+    const declarations = new Set<string>();
+    const references: {node: ts.Node, feature: string}[] = [];
+
+    const visitor = (node: ts.Node) => {
+        if ((ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) ||
+            ts.isClassDeclaration(node) || ts.isBindingElement(node)) && node.name && ts.isIdentifier(node.name)) {
+            declarations.add(node.name.text);
+        }
+        else if (ts.isTypeOfExpression(node) && ts.isIdentifier(node.expression)) {
+            declarations.add(node.expression.text);
+        }
+        else if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && RhinoFeatures[`${node.expression.text}.${node.name.text}`]) {
+            references.push({node, feature: `${node.expression.text}.${node.name.text}`});
+        }
+        else if (ts.isIdentifier(node) && RhinoFeatures[node.text] && !(ts.isPropertyAccessExpression(node.parent) && node.parent.name == node)) {
+            references.push({node, feature: node.text});
+        }
+        ts.forEachChild(node, visitor);
+    };
+    visitor(source);
+
+    return references.filter(reference => !declarations.has(reference.feature.split('.')[0]));
+}
+
+/**
+ * Returns the builtin objects and static functions that are referenced by the given javascript code, such as the
+ * npm package code bundled into a method. Because this code has no type information, the methods of builtin
+ * prototypes are not detected, identifiers declared by the code are assumed to shadow the builtins, and the builtins
+ * that the code tests with `typeof` are assumed to be optional.
+ * @param code          The javascript code.
+ * @returns             The names of the features.
+ */
+export function rhinoFeaturesOfCode(code: string): Set<string> {
+    return new Set(rhinoFeatureReferencesOfCode(code).map(reference => reference.feature));
+}
+
+/**
+ * Returns the name of the local function under which the polyfill of the given feature is declared.
+ * @param feature       The name of the feature, e.g. `Array.prototype.includes`.
+ * @returns             The name of the function, e.g. `__polyfill_Array_prototype_includes`.
+ */
+export function polyfillIdentifierOfRhinoFeature(feature: string): string {
+    return `__polyfill_${feature.replace(/\./g, '_')}`;
+}
+
+/**
+ * Returns a copy of the given javascript code in which the references to the given static functions are
+ * replaced by references to their polyfills.
+ * @param code          The javascript code.
+ * @param features      The names of the polyfilled features.
+ * @returns             The updated code.
+ */
+export function polyfilledCodeOfRhinoFeatures(code: string, features: Set<string>): string {
+    const references = rhinoFeatureReferencesOfCode(code).filter(reference => features.has(reference.feature));
+
+    // The references are replaced from the last one, so that the positions of the others remain valid
+    for (const {node, feature} of references.reverse()) {
+        code = code.substring(0, node.getStart()) + polyfillIdentifierOfRhinoFeature(feature) + code.substring(node.end);
+    }
+
+    return code;
+}
+
+/**
+ * Returns the ES5 code that declares the local functions of the polyfills of the given features. Each of them
+ * refers to the builtin function when it exists, so that the polyfills are only used when it is missing; the
+ * builtin objects and their prototypes are never modified.
+ * @param features      The names of the features.
+ * @returns             The polyfill code.
+ */
+export function polyfillsOfRhinoFeatures(features: string[]): string {
+    return features.filter(feature => RhinoFeatures[feature]?.polyfill).map(feature => {
+        return `var ${polyfillIdentifierOfRhinoFeature(feature)} = ${feature} || ${RhinoFeatures[feature].polyfill};`;
+    }).join('\n');
+}
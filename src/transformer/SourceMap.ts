@@ -0,0 +1,309 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+
+/**
+ * The interface for a version 3 source map.
+ */
+export interface TWSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: string[];
+    names: string[];
+    mappings: string;
+}
+
+/**
+ * Describes the original location of a position in generated code.
+ * Lines and columns are 0-indexed, as in source maps.
+ */
+export interface TWSourceMapping {
+    /**
+     * The column in the generated code.
+     */
+    generatedColumn: number;
+
+    /**
+     * The path to the original source file.
+     */
+    source: string;
+
+    /**
+     * The line in the original source file.
+     */
+    line: number;
+
+    /**
+     * The column in the original source file.
+     */
+    column: number;
+}
+
+/**
+ * A fragment of generated code together with the mappings of each of its lines.
+ */
+export interface TWMappedCode {
+    /**
+     * The generated code.
+     */
+    code: string;
+
+    /**
+     * An array containing the mappings of each line of the generated code.
+     */
+    mappings: TWSourceMapping[][];
+}
+
+/**
+ * A location in an original source file. Lines and columns are 1-indexed, as reported by editors.
+ */
+export interface TWSourceLocation {
+    filename: string;
+    line: number;
+    column: number;
+}
+
+/**
+ * The characters used by the base64 VLQ encoding.
+ */
+const Base64Characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encodes the given number as a base64 VLQ.
+ * @param value     The number to encode.
+ * @returns         The encoded value.
+ */
+function encodedVLQ(value: number): string {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let result = '';
+
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) digit |= 32;
+        result += Base64Characters[digit];
+    } while (vlq > 0);
+
+    return result;
+}
+
+/**
+ * Decodes the base64 VLQs contained in the given mapping segment.
+ * @param segment   The segment to decode.
+ * @returns         An array of numbers.
+ */
+function decodedVLQs(segment: string): number[] {
+    const result: number[] = [];
+    let value = 0, shift = 0;
+
+    for (const character of segment) {
+        const digit = Base64Characters.indexOf(character);
+        value += (digit & 31) << shift;
+
+        if (digit & 32) {
+            shift += 5;
+        }
+        else {
+            result.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = shift = 0;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Decodes the mappings of the given source map.
+ * @param map           The source map.
+ * @param directory     If specified, the directory against which relative sources are resolved.
+ * @returns             An array containing the mappings of each generated line.
+ */
+export function mappingsOfSourceMap(map: TWSourceMap, directory?: string): TWSourceMapping[][] {
+    const sources = map.sources.map(source => {
+        const sourcePath = map.sourceRoot ? path.join(map.sourceRoot, source) : source;
+        return directory ? path.resolve(directory, sourcePath) : sourcePath;
+    });
+
+    // All fields except the generated column are relative to their value in the previous segment
+    let sourceIndex = 0, line = 0, column = 0;
+
+    return map.mappings.split(';').map(generatedLine => {
+        const mappings: TWSourceMapping[] = [];
+        let generatedColumn = 0;
+
+        for (const segment of generatedLine.split(',')) {
+            if (!segment) continue;
+
+            const values = decodedVLQs(segment);
+            generatedColumn += values[0];
+
+            // Segments without a source don't map to any original location
+            if (values.length < 4) continue;
+
+            sourceIndex += values[1];
+            line += values[2];
+            column += values[3];
+
+            mappings.push({generatedColumn, source: sources[sourceIndex], line, column});
+        }
+
+        return mappings;
+    });
+}
+
+/**
+ * Encodes the given mappings as a source map.
+ * @param mappings      An array containing the mappings of each generated line.
+ * @param file          The name of the generated file.
+ * @param root          If specified, the directory relative to which the sources are written.
+ * @returns             A source map.
+ */
+export function sourceMapOfMappings(mappings: TWSourceMapping[][], file: string, root?: string): TWSourceMap {
+    const sources: string[] = [];
+    let sourceIndex = 0, line = 0, column = 0;
+
+    const encodedLines = mappings.map(lineMappings => {
+        let generatedColumn = 0;
+
+        return [...lineMappings].sort((a, b) => a.generatedColumn - b.generatedColumn).map(mapping => {
+            const source = root ? path.relative(root, mapping.source).split(path.sep).join('/') : mapping.source;
+            if (!sources.includes(source)) sources.push(source);
+
+            const index = sources.indexOf(source);
+            const segment = encodedVLQ(mapping.generatedColumn - generatedColumn) + encodedVLQ(index - sourceIndex) +
+                encodedVLQ(mapping.line - line) + encodedVLQ(mapping.column - column);
+
+            generatedColumn = mapping.generatedColumn;
+            sourceIndex = index;
+            line = mapping.line;
+            column = mapping.column;
+
+            return segment;
+        }).join(',');
+    });
+
+    return {version: 3, file, sources, names: [], mappings: encodedLines.join(';')};
+}
+
+/**
+ * Returns a copy of the given mappings, moved by the given number of lines and columns.
+ * @param mappings      The mappings to move.
+ * @param lines         The number of lines by which to move the mappings.
+ * @param columns       The number of columns by which to move the mappings on the first line.
+ * @param original      If `true`, the original locations are moved instead of the generated ones.
+ * @returns             The moved mappings.
+ */
+export function shiftedMappings(mappings: TWSourceMapping[][], lines: number, columns: number, original: boolean = false): TWSourceMapping[][] {
+    if (original) {
+        return mappings.map(lineMappings => lineMappings.map(mapping => ({
+            ...mapping,
+            line: mapping.line + lines,
+            column: mapping.line == 0 ? mapping.column + columns : mapping.column
+        })));
+    }
+
+    const result: TWSourceMapping[][] = [];
+    for (let i = 0; i < lines; i++) result.push([]);
+
+    mappings.forEach((lineMappings, index) => {
+        if (index == 0) {
+            // Mappings moved before the start of the line refer to code that was removed
+            result.push(lineMappings
+                .map(mapping => ({...mapping, generatedColumn: mapping.generatedColumn + columns}))
+                .filter(mapping => mapping.generatedColumn >= 0));
+        }
+        else {
+            result.push(lineMappings);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Returns the mappings of the given code, which contains the code of each of the given fragments.
+ * The fragments must be specified in the order in which they appear in the code, and each of them is matched
+ * after the end of the previous one, so that fragments whose code also appears in earlier fragments are mapped
+ * to the right copy. Lines that don't belong to any fragment have no mappings.
+ * @param code          The generated code.
+ * @param fragments     The mapped fragments that appear in the code, in order.
+ * @returns             An object containing the mappings of each line of the code, and the fragments
+ *                      that could not be found in the code, which have no mappings.
+ */
+export function mappingsOfCodeWithFragments(code: string, fragments: TWMappedCode[]): {mappings: TWSourceMapping[][], missingFragments: TWMappedCode[]} {
+    const mappings: TWSourceMapping[][] = code.split('\n').map(() => []);
+    const missingFragments: TWMappedCode[] = [];
+    let position = 0;
+
+    for (const fragment of fragments) {
+        const index = code.indexOf(fragment.code, position);
+        if (index == -1) {
+            missingFragments.push(fragment);
+            continue;
+        }
+
+        position = index + fragment.code.length;
+
+        const linesBefore = code.substring(0, index).split('\n');
+        const shifted = shiftedMappings(fragment.mappings, linesBefore.length - 1, linesBefore[linesBefore.length - 1].length);
+
+        shifted.forEach((lineMappings, line) => {
+            if (lineMappings.length && mappings[line]) mappings[line].push(...lineMappings);
+        });
+    }
+
+    return {mappings, missingFragments};
+}
+
+/**
+ * Returns the original location of the given position in the code described by the given source map.
+ * @param map           The source map.
+ * @param line          The 1-indexed line in the generated code.
+ * @param column        The 1-indexed column in the generated code. If omitted, the first mapped location
+ *                      on the line is returned.
+ * @param directory     If specified, the directory against which relative sources are resolved.
+ * @returns             The original location, or `undefined` if the position is not mapped.
+ */
+export function originalLocationInSourceMap(map: TWSourceMap, line: number, column?: number, directory?: string): TWSourceLocation | undefined {
+    const lineMappings = mappingsOfSourceMap(map, directory)[line - 1];
+    if (!lineMappings?.length) return undefined;
+
+    // Use the closest mapping that starts before the column
+    let mapping = lineMappings[0];
+    if (column !== undefined) {
+        for (const candidate of lineMappings) {
+            if (candidate.generatedColumn <= column - 1) mapping = candidate;
+        }
+    }
+
+    return {filename: mapping.source, line: mapping.line + 1, column: mapping.column + 1};
+}
+
+/**
+ * Prints the given node together with the mappings between the printed code and the node's original source file.
+ * The printed code is identical to the code returned by a printer's `printNode` method.
+ * @param node          The node to print.
+ * @param sourceFile    The source file containing the node.
+ * @returns             The printed code and its mappings.
+ */
+export function mappedCodeOfNode(node: ts.Statement, sourceFile: ts.SourceFile): TWMappedCode {
+    // Source maps are only generated when emitting entire files, so the node is emitted as the only statement
+    // of a copy of its source file; the copy has the same text, so the node's positions refer to the same locations
+    const result = ts.transpileModule(sourceFile.text, {
+        fileName: sourceFile.fileName,
+        // The node is already transformed, so the emit must not downlevel it or substitute its identifiers again
+        compilerOptions: {sourceMap: true, noEmitHelpers: true, newLine: ts.NewLineKind.LineFeed, target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext},
+        transformers: {
+            // The copy's own statements are removed before they are transformed, and replaced by the node once they would be printed
+            before: [() => file => ts.factory.updateSourceFile(file, [])],
+            after: [() => file => ts.factory.updateSourceFile(file, [node])]
+        }
+    });
+
+    // Unlike printNode, emitting a file adds a new line and a reference to the source map at its end
+    const code = result.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '');
+    const map = JSON.parse(result.sourceMapText!) as TWSourceMap;
+    const mappings = mappingsOfSourceMap(map, path.dirname(sourceFile.fileName)).slice(0, code.split('\n').length);
+
+    return {code, mappings};
+}
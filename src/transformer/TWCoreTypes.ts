@@ -1,5 +1,7 @@
-import type { Node, SourceFile } from 'typescript';
+import type { Node, SourceFile, Diagnostic } from 'typescript';
 import type { EmitHelper } from 'typescript';
+import type { TWSourceMapping } from './SourceMap';
+import type { TWBundledImport } from './DependencyBundler';
 
 export interface TWInfoTable {
     dataShape: {
@@ -130,7 +132,7 @@ export interface TWServiceDefinition {
     isOverriden?: boolean;
 
     /**
-     * An array of global functions referenced in the body of this service.
+     * An array of global functions and helper methods referenced in the body of this service.
      */
     '@globalFunctions': Set<string>;
 
@@ -139,6 +141,22 @@ export interface TWServiceDefinition {
      */
     '@methodHelpers': Set<string>;
 
+    /**
+     * When dependencies are bundled, the npm package exports referenced in the body of this service, indexed by the
+     * name of the variable under which they are inlined.
+     */
+    '@bundledImports': Map<string, TWBundledImport>;
+
+    /**
+     * When polyfills are enabled, the builtin functions used in the body of this service that are missing from Rhino.
+     */
+    '@polyfills': Set<string>;
+
+    /**
+     * In profiled builds, set to `true` if this service should record its entry, exit, duration, arguments and errors.
+     */
+    '@traced'?: boolean;
+
     /**
      * An optional object containing additional information about the service if it is a sql service.
      */
@@ -204,7 +222,7 @@ export interface TWSubscriptionDefinition {
     code: string;
 
     /**
-     * An array of global functions referenced in the body of this subscription.
+     * An array of global functions and helper methods referenced in the body of this subscription.
      */
     '@globalFunctions': Set<string>;
 
@@ -212,6 +230,22 @@ export interface TWSubscriptionDefinition {
      * An array of method helpers referenced in the body of this subscription.
      */
     '@methodHelpers': Set<string>;
+
+    /**
+     * When dependencies are bundled, the npm package exports referenced in the body of this subscription, indexed by the
+     * name of the variable under which they are inlined.
+     */
+    '@bundledImports': Map<string, TWBundledImport>;
+
+    /**
+     * When polyfills are enabled, the builtin functions used in the body of this subscription that are missing from Rhino.
+     */
+    '@polyfills': Set<string>;
+
+    /**
+     * In profiled builds, set to `true` if this subscription should record its entry, exit, duration and errors.
+     */
+    '@traced'?: boolean;
 }
 
 export const enum TWSubscriptionSourceKind {
@@ -338,6 +372,7 @@ export const TWBaseTypes = {
     PERSISTENCEPROVIDERNAME: "PERSISTENCEPROVIDERNAME",
     PROJECTNAME: "PROJECTNAME",
     THINGGROUPNAME: "THINGGROUPNAME",
+    LOCALIZATIONTOKENNAME: "STRING",
 
     
     propertyName: "PROPERTYNAME",
@@ -382,7 +417,13 @@ export const enum TWEntityKind {
     ThingShape = "ThingShape", 
     DataShape = "DataShape", 
     UserList = "UserList", 
-    Organization = "Organization"
+    Organization = "Organization",
+    Mashup = "Mashup",
+    LocalizationTable = "LocalizationTable",
+    ModelTag = "ModelTag",
+    DataTag = "DataTag",
+    StyleDefinition = "StyleDefinition",
+    StateDefinition = "StateDefinition"
 }
 
 export interface TWEntityDefinition {
@@ -477,12 +518,231 @@ export interface TWOrganizationalUnit {
 }
 
 /**
- * The interface for an object that identifies a global function.
+ * The interface for a state that is part of a state definition.
+ */
+export interface TWStateDefinitionState {
+    name: string;
+    displayString: string;
+    defaultStyleDefinition: string;
+    defaultValue?: string | number;
+    comparator?: '<' | '<=' | '==';
+}
+
+/**
+ * The interface for a term that is part of a model or data tag vocabulary.
+ */
+export interface TWVocabularyTerm {
+    name: string;
+    description?: string;
+}
+
+/**
+ * The diagnostic code used for errors reported by the transformer.
+ */
+export const TWDiagnosticCode = 90001;
+
+/**
+ * The interface for an error or warning reported by the transformer when diagnostics are collected
+ * instead of being thrown. This is compatible with the diagnostics reported by the typescript compiler.
+ */
+export interface TWDiagnostic extends Diagnostic {
+    /**
+     * The zero-based line on which the diagnostic was reported.
+     */
+    line: number;
+
+    /**
+     * The zero-based column on which the diagnostic was reported.
+     */
+    column: number;
+
+    /**
+     * The message of the diagnostic.
+     */
+    messageText: string;
+}
+
+/**
+ * The interface for a reference to another entity or to one of its members, that is validated
+ * against the project's entities and the installed declarations after the project is built.
+ */
+export interface TWEntityReference {
+    /**
+     * The kind of entity that is referenced.
+     */
+    entityKind: 'Thing' | 'ThingTemplate' | 'ThingShape' | 'DataShape' | 'ValueStream';
+
+    /**
+     * The name of the referenced entity.
+     */
+    entityName: string;
+
+    /**
+     * For references to members, the kind of member that is referenced.
+     */
+    memberKind?: 'Property' | 'Event';
+
+    /**
+     * For references to members, the name of the member.
+     */
+    memberName?: string;
+
+    /**
+     * The node that contains the reference.
+     */
+    node: Node;
+
+    /**
+     * For references to members, the node that contains the name of the entity, if it is different from `node`.
+     */
+    entityNode?: Node;
+}
+
+/**
+ * The interface for the subset of a project's `package.json` file that is used to describe its extension package.
+ */
+export interface TWPackageJSON {
+    /**
+     * The name of the npm package. This is used as the extension name if `packageName` is not specified.
+     */
+    name: string;
+
+    /**
+     * The name of the extension package.
+     */
+    packageName?: string;
+
+    /**
+     * The version of the extension package.
+     */
+    version: string;
+
+    /**
+     * The description of the extension package.
+     */
+    description?: string;
+
+    /**
+     * The vendor of the extension package.
+     */
+    author?: string | {name: string};
+
+    /**
+     * The minimum thingworx version on which the extension may be installed. The value in
+     * twconfig takes precedence over this value.
+     */
+    minimumThingWorxVersion?: string;
+
+    /**
+     * The extension packages that this extension depends on, mapped to their versions.
+     */
+    thingworxDependencies?: Record<string, string>;
+}
+
+/**
+ * The interface for a media entity created from a file in a project's media folder.
+ */
+export interface TWMediaEntity {
+    /**
+     * The name of the media entity, which is the name of the file without its extension.
+     */
+    name: string;
+
+    /**
+     * The path to the file.
+     */
+    filename: string;
+
+    /**
+     * The root path of the project that contains the file.
+     */
+    root: string;
+
+    /**
+     * The name of the project to which the media entity belongs.
+     */
+    projectName?: string;
+}
+
+/**
+ * The interface for a token that is part of a localization table.
+ */
+export interface TWLocalizationToken {
+    name: string;
+    value: string;
+    description?: string;
+}
+
+/**
+ * The interface for a widget that is part of a mashup, as it appears in the mashup content.
+ */
+export interface TWMashupWidget {
+    Properties: Record<string, unknown>;
+    Widgets: TWMashupWidget[];
+}
+
+/**
+ * The interface for an entity whose services are used by a mashup, as it appears in the mashup content.
+ */
+export interface TWMashupDataSource {
+    DataName: string;
+    EntityName: string;
+    EntityType: string;
+    Id: string;
+    RefreshInterval: number;
+    Services: TWMashupDataService[];
+}
+
+export interface TWMashupDataService {
+    APIMethod: 'post';
+    Characteristic: 'Services';
+    Id: string;
+    Name: string;
+    Parameters: Record<string, unknown>;
+    RefreshInterval: number;
+    Target: string;
+}
+
+export interface TWMashupEvent {
+    EventHandlerArea: 'Data';
+    EventHandlerId: string;
+    EventHandlerService: string;
+    EventTriggerArea: 'UI' | 'Mashup';
+    EventTriggerEvent: string;
+    EventTriggerId: string;
+    EventTriggerSection: string;
+    Id: string;
+}
+
+export interface TWMashupDataBinding {
+    Id: string;
+    PropertyMaps: TWMashupPropertyMap[];
+    SourceArea: 'UI' | 'Data';
+    SourceDetails: string;
+    SourceId: string;
+    SourceSection: string;
+    TargetArea: 'UI' | 'Data';
+    TargetId: string;
+    TargetSection: string;
+}
+
+export interface TWMashupPropertyMap {
+    SourceProperty: string;
+    SourcePropertyBaseType: string;
+    SourcePropertyType: string;
+    TargetProperty: string;
+    TargetPropertyBaseType: string;
+    TargetPropertyType: string;
+}
+
+/**
+ * The interface for an object that identifies a global function or a helper method.
  */
 export interface GlobalFunction {
 
     /**
-     * The name of the function.
+     * The name under which the function is inlined. For functions declared in modules, this is the
+     * name of the function prefixed with the path of the module, e.g. `lib_utils$format`.
      */
     name: string;
 
@@ -491,6 +751,18 @@ export interface GlobalFunction {
      */
     filename: string;
 
+    /**
+     * When global functions are compiled into libraries, the name of the project in which the function
+     * is declared and whose library contains it.
+     */
+    projectName?: string;
+
+    /**
+     * When this is a helper method, the name of the class that declares it. Helper methods are
+     * always copied into the services and subscriptions that call them.
+     */
+    className?: string;
+
     /**
      * An array of global functions that this function invokes.
      */
@@ -506,6 +778,11 @@ export interface GlobalFunction {
      */
     emitHelperDependencies?: EmitHelper[];
 
+    /**
+     * When polyfills are enabled, the builtin functions used by this function that are missing from Rhino.
+     */
+    polyfills: Set<string>;
+
     /**
      * The transformed node of the function.
      */
@@ -516,6 +793,11 @@ export interface GlobalFunction {
      */
     compiledCode?: string;
 
+    /**
+     * When source maps are enabled, the mappings between the compiled code of the function and its source file.
+     */
+    compiledCodeMappings?: TWSourceMapping[][];
+
     /**
      * The source file where this function is defined.
      */
@@ -527,7 +809,12 @@ export interface GlobalFunction {
  */
 export interface GlobalFunctionReference {
     /**
-     * The name of the function.
+     * The name under which the function is inlined.
      */
     name: string;
+
+    /**
+     * When global functions are compiled into libraries, the name of the project in which the function is declared.
+     */
+    projectName?: string;
 }
\ No newline at end of file
@@ -1,8 +1,14 @@
 import * as ts from 'typescript';
-import { MethodHelpers, TWConfig } from '../configuration/TWConfig';
-import { TWEntityKind, TWPropertyDefinition, TWServiceDefinition, TWEventDefinition, TWSubscriptionDefinition, TWBaseTypes, TWPropertyDataChangeKind, TWFieldBase, TWPropertyRemoteBinding, TWPropertyRemoteFoldKind, TWPropertyRemotePushKind, TWPropertyRemoteStartKind, TWPropertyBinding, TWSubscriptionSourceKind, TWServiceParameter, TWDataShapeField, TWConfigurationTable, TWRuntimePermissionsList, TWVisibility, TWExtractedPermissionLists, TWRuntimePermissionDeclaration, TWPrincipal, TWPermission, TWUser, TWUserGroup, TWPrincipalBase, TWOrganizationalUnit, TWConnection, TWDataThings, TWInfoTable, GlobalFunction, GlobalFunctionReference } from './TWCoreTypes';
+import { MethodHelpers, ProfileOptions, RhinoCompatibilityOptions, TWConfig } from '../configuration/TWConfig';
+import { TWEntityKind, TWPropertyDefinition, TWServiceDefinition, TWEventDefinition, TWSubscriptionDefinition, TWBaseTypes, TWPropertyDataChangeKind, TWFieldBase, TWPropertyRemoteBinding, TWPropertyRemoteFoldKind, TWPropertyRemotePushKind, TWPropertyRemoteStartKind, TWPropertyBinding, TWSubscriptionSourceKind, TWServiceParameter, TWDataShapeField, TWConfigurationTable, TWRuntimePermissionsList, TWVisibility, TWExtractedPermissionLists, TWRuntimePermissionDeclaration, TWPrincipal, TWPermission, TWUser, TWUserGroup, TWPrincipalBase, TWOrganizationalUnit, TWConnection, TWDataThings, TWInfoTable, GlobalFunction, GlobalFunctionReference, TWMashupWidget, TWMashupDataSource, TWMashupEvent, TWMashupDataBinding, TWLocalizationToken, TWMediaEntity, TWVocabularyTerm, TWStateDefinitionState, TWPackageJSON, TWDiagnostic, TWDiagnosticCode, TWEntityReference } from './TWCoreTypes';
 import { Breakpoint } from './DebugTypes';
-import { APIGenerator } from './APIDeclarationGenerator';
+import { APIGenerator, NonAlphanumericRegexGlobal, TWOpenAPIDocument } from './APIDeclarationGenerator';
+import { zipArchiveWithFiles } from './ZipArchive';
+import { TWBundle, TWBundledImport, bundleOfImports, declarationOfBundledImport, variableNameOfBundledImport } from './DependencyBundler';
+import { polyfilledCodeOfRhinoFeatures, polyfillIdentifierOfRhinoFeature, polyfillsOfRhinoFeatures, rhinoFeatureOfNode, rhinoFeaturesOfCode, RhinoFeatures } from './RhinoCompatibility';
+import { TWGlobalFunctionLibrary, globalFunctionLibrariesOfFunctions, globalFunctionLibraryIdentifierOfProject } from './GlobalFunctionLibrary';
+import { TWMappedCode, TWSourceLocation, TWSourceMap, mappedCodeOfNode, mappingsOfCodeWithFragments, originalLocationInSourceMap, shiftedMappings, sourceMapOfMappings } from './SourceMap';
+import { TWRuntimeInfoTable } from '../runtime/InfoTable';
 import { Builder } from 'xml2js';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
@@ -37,6 +43,14 @@ interface TransformerStore {
         [key: string]: GlobalFunction;
     }
 
+    /**
+     * A store that is used to keep references to the media entities created from the files
+     * in each project's media folder, indexed by their names.
+     */
+    '@mediaEntities'?: {
+        [key: string]: TWMediaEntity;
+    }
+
     /**
      * A store that is used to keep track of debug information, indexed by filename.
      */
@@ -48,10 +62,45 @@ interface TransformerStore {
         }
     }
 
-    [key: string]: TWThingTransformer | {
+    /**
+     * When diagnostics are collected, an array containing the errors reported by all transformers.
+     */
+    '@diagnostics'?: TWDiagnostic[];
+
+    /**
+     * When source maps are enabled, a store that contains the source map of each service and subscription,
+     * indexed by entity name and then by method name.
+     */
+    '@sourceMaps'?: {
+        [key: string]: {
+            [key: string]: TWSourceMap;
+        }
+    }
+
+    /**
+     * When dependencies are bundled, a store that contains the modules and size of the code bundled into each
+     * service and subscription, indexed by entity name and then by method name.
+     */
+    '@bundles'?: {
+        [key: string]: {
+            [key: string]: Omit<TWBundle, 'code'>;
+        }
+    }
+
+    [key: string]: TWThingTransformer | TWDiagnostic[] | {
+        [key: string]: {
+            [key: string]: TWSourceMap;
+        }
+    } | {
+        [key: string]: {
+            [key: string]: Omit<TWBundle, 'code'>;
+        }
+    } | {
         [key: string]: TWThingTransformer[];
     } | {
         [key: string]: GlobalFunction;
+    } | {
+        [key: string]: TWMediaEntity;
     } | {
         [key: string]: {
             _debugBreakpointCounter: number;
@@ -61,6 +110,17 @@ interface TransformerStore {
     } | undefined;
 }
 
+/**
+ * The error that is thrown by `throwErrorForNode` when diagnostics are collected. This indicates that
+ * the error has already been recorded and that the transformer may resume with the next node.
+ */
+class TWRecordedDiagnosticError extends Error {}
+
+/**
+ * The source code of the object that counts the checkpoint hits in coverage builds.
+ */
+const CoverageCounterSource = `{hits: {}, checkpoint: function (ID) { this.hits[ID] = (this.hits[ID] || 0) + 1; }}`;
+
 /**
  * The primitive type keywords that can be used in function returns.
  */
@@ -87,11 +147,51 @@ const PermissionDecorators = ['allow', 'deny', 'allowInstance', 'denyInstance'];
  */
 const ThingInstancesToCreate = 5;
 
+/**
+ * The names of the entity collections whose services can be invoked from mashups.
+ */
+const MashupEntityCollections = ['Things', 'ThingTemplates', 'ThingShapes'];
+
+/**
+ * The properties that can be specified in style definitions, together with their default values.
+ */
+const StyleDefinitionDefaults: Record<string, string | number | boolean> = {
+    image: '',
+    backgroundColor: '',
+    secondaryBackgroundColor: '',
+    foregroundColor: '',
+    textSize: 'normal',
+    fontEmphasisBold: false,
+    fontEmphasisItalic: false,
+    fontEmphasisUnderline: false,
+    lineColor: '',
+    lineStyle: 'solid',
+    lineThickness: 1,
+    displayString: ''
+};
+
+/**
+ * The values that are permitted for the style definition properties that take one of a fixed set of values.
+ */
+const StyleDefinitionEnumerations: Record<string, string[]> = {
+    textSize: ['xsmall', 'small', 'normal', 'large', 'xlarge', 'xxlarge'],
+    lineStyle: ['solid', 'dotted', 'dashed']
+};
+
 /**
  * An array of identifiers that represent method helpers.
  */
 const MethodHelperIdentifiers = ['METHOD_NAME', 'CLASS_NAME', 'FILE_PATH', 'LOG_PREFIX'];
 
+/**
+ * The host used to format diagnostics in the same way as the typescript compiler.
+ */
+const FormatDiagnosticsHost: ts.FormatDiagnosticsHost = {
+    getCurrentDirectory: () => ts.sys.getCurrentDirectory(),
+    getCanonicalFileName: fileName => fileName,
+    getNewLine: () => ts.sys.newLine
+};
+
 /**
  * @deprecated No longer used
  * ---
@@ -100,6 +200,161 @@ const MethodHelperIdentifiers = ['METHOD_NAME', 'CLASS_NAME', 'FILE_PATH', 'LOG_
  */
 const USE_DEBUG_CONFIGURATION_TABLE = false;
 
+/**
+ * Returns the name of the project in which the given global function is declared.
+ * @param transformer       The code transformer processing the function or its call.
+ * @param declaration       The function declaration.
+ * @returns                 The project name.
+ */
+function projectNameOfGlobalFunction(transformer: TWCodeTransformer, declaration: ts.FunctionDeclaration): string {
+    // In multi project mode, the first folder below the repository path is the name of the project
+    if (transformer.isAutoProject) {
+        return path.relative(transformer.repoPath, path.normalize(declaration.getSourceFile().fileName)).split(path.sep)[0];
+    }
+
+    return transformer.projectName || '';
+}
+
+/**
+ * Returns a copy of the given function declaration in which the function and the calls to the given functions are renamed.
+ * @param declaration       The function declaration.
+ * @param names             A map of the functions to rename to their new names.
+ * @param context           The transformation context.
+ * @returns                 The renamed function declaration.
+ */
+function renamedCallsOfFunction(declaration: ts.FunctionDeclaration, names: Map<string, string>, context: ts.TransformationContext): ts.FunctionDeclaration {
+    const visitor = (node: ts.Node): ts.Node => {
+        node = ts.visitEachChild(node, visitor, context);
+
+        if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && names.has(node.expression.text) && names.get(node.expression.text) != node.expression.text) {
+            return ts.factory.updateCallExpression(node, expressionOfFunctionName(names.get(node.expression.text)!), node.typeArguments, node.arguments);
+        }
+
+        return node;
+    };
+
+    const result = visitor(declaration) as ts.FunctionDeclaration;
+    const name = result.name && names.get(result.name.text);
+    if (!name || name == result.name!.text) return result;
+
+    return ts.factory.updateFunctionDeclaration(result, result.decorators, result.modifiers, result.asteriskToken, ts.factory.createIdentifier(name), result.typeParameters, result.parameters, result.type, result.body);
+}
+
+/**
+ * Returns an expression that refers to the function with the given name. Names that contain dots, such as
+ * the names of functions in global function libraries, are converted into property access expressions.
+ * @param name              The name of the function.
+ * @returns                 An expression.
+ */
+function expressionOfFunctionName(name: string): ts.Expression {
+    const [identifier, ...members] = name.split('.');
+    return members.reduce<ts.Expression>((expression, member) => ts.factory.createPropertyAccessExpression(expression, member), ts.factory.createIdentifier(identifier));
+}
+
+/**
+ * Returns `true` if the given method declaration is a helper method, which is a method that is either private
+ * or has the `@helper` decorator applied.
+ * @param declaration       The method declaration.
+ * @returns                 `true` if the method is a helper method, `false` otherwise.
+ */
+function isHelperMethodDeclaration(declaration: ts.MethodDeclaration): boolean {
+    if (declaration.modifiers?.some(m => m.kind == ts.SyntaxKind.PrivateKeyword)) return true;
+
+    return !!declaration.decorators?.some(decorator => {
+        const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+        return ts.isIdentifier(expression) && expression.text == 'helper';
+    });
+}
+
+/**
+ * Returns `true` if the given expression is an expression through which the helper methods
+ * of a class can be called, which is either `this` or `me`.
+ * @param expression        The expression.
+ * @returns                 `true` if helper methods can be called through the expression, `false` otherwise.
+ */
+function isHelperMethodReceiver(expression: ts.Expression): boolean {
+    return expression.kind == ts.SyntaxKind.ThisKeyword || (ts.isIdentifier(expression) && expression.text == 'me');
+}
+
+/**
+ * Returns a call to the local function with the given name that replaces the given call to a helper method.
+ * The function is invoked with the object through which the method was called as its `this` value.
+ * @param expression        The call to the helper method, whose callee is a property access expression.
+ * @param name              The name of the local function.
+ * @returns                 The call to the local function.
+ */
+function callOfHelperMethod(expression: ts.CallExpression, name: string): ts.CallExpression {
+    const receiver = (expression.expression as ts.PropertyAccessExpression).expression;
+    const callee = ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(name), 'call');
+    return ts.factory.updateCallExpression(expression, callee, expression.typeArguments, [receiver, ...expression.arguments]);
+}
+
+/**
+ * Returns a copy of the given node in which the calls to the given helper methods are replaced by calls to their
+ * local functions. This must be used before the code is transpiled, while `this` has not yet been renamed.
+ * @param node              The node.
+ * @param names             A map of the names of the helper methods to the names of their local functions.
+ * @param context           The transformation context.
+ * @returns                 The node with the calls replaced.
+ */
+function renamedHelperMethodCallsOfNode<T extends ts.Node>(node: T, names: Map<string, string>, context: ts.TransformationContext): T {
+    const visitor = (node: ts.Node): ts.Node => {
+        node = ts.visitEachChild(node, visitor, context);
+
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && isHelperMethodReceiver(node.expression.expression)) {
+            const name = names.get(node.expression.name.text);
+            if (name) return callOfHelperMethod(node, name);
+        }
+
+        return node;
+    };
+
+    return visitor(node) as T;
+}
+
+/**
+ * Returns the node that replaces the given node, which uses a builtin function that is polyfilled. References to
+ * static functions are replaced by their polyfills, while calls to prototype methods are replaced by calls to their
+ * polyfills that receive the object on which the method was called as their `this` value.
+ * @param node              The reference to the static function, or the call to the prototype method.
+ * @param feature           The name of the builtin function.
+ * @returns                 The replacement node.
+ */
+function polyfilledNodeOfFeature(node: ts.Node, feature: string): ts.Node {
+    const name = polyfillIdentifierOfRhinoFeature(feature);
+    return ts.isCallExpression(node) ? callOfHelperMethod(node, name) : ts.factory.createIdentifier(name);
+}
+
+/**
+ * Returns a copy of the given node in which the nodes that use polyfilled builtin functions are replaced by the
+ * nodes that use their polyfills. The nodes are identified by their kind and position, because this is used on
+ * functions that are compiled from a copy of their source file.
+ * @param node              The node.
+ * @param features          A map of the kinds and positions of the nodes, as returned by `positionKeyOfNode`,
+ *                          to the names of the builtin functions they use.
+ * @param context           The transformation context.
+ * @returns                 The node with the builtin functions replaced.
+ */
+function polyfilledNodesOfNode<T extends ts.Node>(node: T, features: Map<string, string>, context: ts.TransformationContext): T {
+    const visitor = (node: ts.Node): ts.Node => {
+        node = ts.visitEachChild(node, visitor, context);
+
+        const feature = node.pos >= 0 ? features.get(positionKeyOfNode(node)) : undefined;
+        return feature ? polyfilledNodeOfFeature(node, feature) : node;
+    };
+
+    return visitor(node) as T;
+}
+
+/**
+ * Returns a key that identifies the given node by its kind and position in its source file.
+ * @param node              The node.
+ * @returns                 The key.
+ */
+function positionKeyOfNode(node: ts.Node): string {
+    return `${node.kind}:${node.pos}:${node.end}`;
+}
+
 /**
  * The interface for the portion of the thing transformer that is used for
  * transforming functions and methods.
@@ -131,16 +386,56 @@ interface TWCodeTransformer {
      */
     repoPath: string;
 
+    /**
+     * The name of the project currently being processed.
+     */
+    projectName?: string;
+
+    /**
+     * Set to `true` if the project name is derived from the root path.
+     */
+    isAutoProject?: boolean;
+
     /**
      * Set to `true` if a debug build should be generated.
      */
     debug?: boolean;
 
+    /**
+     * Set to `true` if a coverage build should be generated.
+     */
+    coverage?: boolean;
+
+    /**
+     * Set to `true` if source maps should be generated for services and subscriptions.
+     */
+    sourceMaps?: boolean;
+
+    /**
+     * Set to `true` if the npm packages imported in thing files should be bundled into the services using them.
+     */
+    bundleDependencies?: boolean;
+
+    /**
+     * When set, an object that specifies how services and subscriptions are checked for features missing from Rhino.
+     */
+    rhinoCompatibility?: RhinoCompatibilityOptions;
+
+    /**
+     * The minimum thingworx version on which the project may be installed.
+     */
+    minimumThingWorxVersion?: string;
+
     /**
      * When set to `true`, function declarations in the global scope will be permitted.
      */
     globalFunctionsEnabled?: boolean;
 
+    /**
+     * When set to `true`, global functions are compiled into a library thing instead of being copied into services.
+     */
+    globalFunctionsLibrary?: boolean;
+
     /**
      * A weak map that contains a mapping between nodes that have been marked for replacement before
      * having been visited.
@@ -184,17 +479,52 @@ interface TWCodeTransformer {
     constantValueOfExpression(this: TWCodeTransformer, expression: ts.Expression): unknown;
 
     /**
-     * Throws a formatted error message for the given AST node.
+     * When enabled, errors are recorded in the `diagnostics` array instead of being thrown.
+     */
+    collectDiagnostics?: boolean;
+
+    /**
+     * When diagnostics are collected, an array containing the errors reported by the transformer.
+     */
+    diagnostics: TWDiagnostic[];
+
+    /**
+     * Throws a formatted error message for the given AST node. When diagnostics are collected,
+     * the error is recorded before being thrown and can be recovered from via `recoverDiagnostics`.
      * @param node      The node which caused an error.
      * @param error     The error message to display.
      */
     throwErrorForNode(node: ts.Node, error: string): never;
 
     /**
-     * Compiles the given function declaration, saving its result in the global store.
-     * @param fn    The function declaration to compile;
+     * Records a diagnostic for the given AST node.
+     * @param node          The node which caused the diagnostic.
+     * @param message       The diagnostic message.
+     * @param category      Defaults to `Error`. The category of the diagnostic.
+     */
+    recordDiagnosticForNode(node: ts.Node, message: string, category?: ts.DiagnosticCategory): void;
+
+    /**
+     * Invokes the given callback and returns its result. When diagnostics are collected and the callback
+     * fails with an error that has already been recorded, the given fallback value is returned instead.
+     * @param callback      The callback to invoke.
+     * @param fallback      The value to return if the callback fails.
+     * @returns             The result of the callback, or the fallback value.
+     */
+    recoverDiagnostics<T>(callback: () => T, fallback: T): T;
+
+    /**
+     * Returns the name under which the given global function declaration is inlined.
+     * @param declaration       The function declaration.
+     * @returns                 The function's name.
+     */
+    globalFunctionNameOfDeclaration(this: TWCodeTransformer, declaration: ts.FunctionDeclaration): string;
+
+    /**
+     * Compiles the given function declaration or helper method, saving its result in the global store.
+     * @param fn    The function declaration or helper method to compile;
      */
-    compileGlobalFunction(this: TWCodeTransformer, fn: ts.FunctionDeclaration): void;
+    compileGlobalFunction(this: TWCodeTransformer, fn: ts.FunctionDeclaration | ts.MethodDeclaration): void;
 
     /**
      * Evaluates the given call expression, returning a global function reference if
@@ -205,6 +535,15 @@ interface TWCodeTransformer {
      */
     evaluateGlobalCallExpression(this: TWCodeTransformer, expression: ts.CallExpression): GlobalFunctionReference | undefined;
 
+    /**
+     * Evaluates the given property access expression, returning a reference to the local function
+     * of the helper method it refers to, if any.
+     * @param expression        The expression to evaluate.
+     * @returns                 A function reference if this refers to a helper method,
+     *                          `undefined` otherwise.
+     */
+    evaluateHelperMethodAccess(this: TWCodeTransformer, expression: ts.PropertyAccessExpression): GlobalFunctionReference | undefined;
+
     /**
      * Evaluates the given node that is part of a global function and, if appropriate,
      * extracts information out of it into the given global function object.
@@ -213,6 +552,26 @@ interface TWCodeTransformer {
      */
     evaluateGlobalFunctionNode(this: TWCodeTransformer, node: ts.Node, fn: GlobalFunction): void;
 
+    /**
+     * Evaluates the given identifier, returning the npm package import it refers to, if any. This
+     * returns `undefined` for identifiers that are used as types.
+     * @param identifier        The identifier to evaluate.
+     * @returns                 The import if the identifier refers to a value imported from a package,
+     *                          `undefined` otherwise.
+     */
+    evaluateBundledImportIdentifier(this: TWCodeTransformer, identifier: ts.Identifier): TWBundledImport | undefined;
+
+    /**
+     * Verifies that the given node of a service or subscription doesn't use a builtin or syntax that is not supported by
+     * the Rhino engine. When polyfills are enabled, the builtin functions that have them are added to the given polyfills
+     * instead, and the nodes that use them must be replaced with `polyfilledNodeOfFeature`. When diagnostics are collected,
+     * the unsupported features are recorded without interrupting the transformation.
+     * @param node          The node to evaluate.
+     * @param polyfills     The polyfills of the service, subscription or global function containing the node.
+     * @returns             The name of the polyfilled builtin function that the node uses, if it must be replaced.
+     */
+    evaluateRhinoCompatibility(this: TWCodeTransformer, node: ts.Node, polyfills: Set<string>): string | undefined;
+
     /**
      * Visits a node that is in the body of a service or global function code, performing a replacement
      * that is applicable to all build modes.
@@ -346,6 +705,22 @@ export class TWThingTransformer implements TWCodeTransformer {
      */
     thingTemplateName?: string;
 
+    /**
+     * For data shapes, this represents the name of the data shape from which this data shape inherits.
+     */
+    baseDataShapeName?: string;
+
+    /**
+     * For derived data shapes, set to `true` if the base data shape is declared by a class that is part of
+     * this project, whose fields are only known after that class is visited.
+     */
+    baseDataShapeInProject = false;
+
+    /**
+     * For derived data shapes, the names of the fields inherited from the base data shape.
+     */
+    inheritedFieldNames: string[] = [];
+
     /**
      * An array of thing shapes to apply to things and thing templates.
      */
@@ -374,10 +749,16 @@ export class TWThingTransformer implements TWCodeTransformer {
     /**
      * **EXPERIMENTAL!!!**
      *
-     * For Things and DataShapes, this triggers the generation of APIs
+     * For Things, ThingTemplates, ThingShapes and DataShapes, this triggers the generation of APIs
      */
     exported: boolean = false;
 
+    /**
+     * For exported entities, the names of the properties, services and events that are excluded from
+     * the API via the `@exported(false)` decorator.
+     */
+    unexportedMembers: Set<string> = new Set;
+
     /**
      * Controls whether the class represents an editable extension object.
      */
@@ -481,6 +862,71 @@ export class TWThingTransformer implements TWCodeTransformer {
      */
     orgConnections: TWConnection[] = [];
 
+    /**
+     * The model tags applied to this entity, in the `Vocabulary:Term` format.
+     */
+    tags: string[] = [];
+
+    /**
+     * For model and data tag vocabularies, the terms declared in this entity.
+     */
+    vocabularyTerms: TWVocabularyTerm[] = [];
+
+    /**
+     * For model and data tag vocabularies, set to `true` if terms can be added to the vocabulary when tagging.
+     */
+    isDynamicVocabulary: boolean = false;
+
+    /**
+     * For style definitions, the style properties specified in this entity.
+     */
+    styleProperties: Record<string, string | number | boolean> = {};
+
+    /**
+     * For state definitions, the states declared in this entity.
+     */
+    states: TWStateDefinitionState[] = [];
+
+    /**
+     * For localization tables, the tokens declared in this entity.
+     */
+    localizationTokens: TWLocalizationToken[] = [];
+
+    /**
+     * For localization tables, the name of the language in english.
+     */
+    languageCommon?: string;
+
+    /**
+     * For localization tables, the name of the language in that language.
+     */
+    languageNative?: string;
+
+    /**
+     * For mashups, the root widget of the mashup.
+     */
+    mashupRootWidget?: TWMashupWidget;
+
+    /**
+     * For mashups, the entities whose services are used by the mashup, indexed by their data source name.
+     */
+    mashupDataSources: Record<string, TWMashupDataSource> = {};
+
+    /**
+     * For mashups, the widget events that invoke services.
+     */
+    mashupEvents: TWMashupEvent[] = [];
+
+    /**
+     * For mashups, the bindings between widget properties and services.
+     */
+    mashupBindings: TWMashupDataBinding[] = [];
+
+    /**
+     * For mashups, a counter used to generate the IDs of widgets that don't specify them explicitly.
+     */
+    _mashupWidgetCounter = 0;
+
     /**
      * When enabled, ordinal values will be generated for data shape fields, in the order in which they
      * appear, starting from 0.
@@ -494,11 +940,22 @@ export class TWThingTransformer implements TWCodeTransformer {
      */
     methodHelpers?: MethodHelpers;
 
+    /**
+     * When set, an object describing how services and subscriptions should be instrumented to record
+     * their entry, exit, duration, arguments and errors.
+     */
+    profile?: ProfileOptions;
+
     /**
      * When set to `true`, function declarations in the global scope will be permitted.
      */
     globalFunctionsEnabled?: boolean;
 
+    /**
+     * When set to `true`, global functions are compiled into a library thing instead of being copied into services.
+     */
+    globalFunctionsLibrary?: boolean;
+
     /**
      * An array of global functions declared in this file.
      */
@@ -554,6 +1011,33 @@ export class TWThingTransformer implements TWCodeTransformer {
      */
     debug?: boolean;
 
+    /**
+     * Set to `true` if this transformer should generate code coverage information. This reuses the
+     * debug checkpoint locations, but replaces the debugger calls with hit counters.
+     */
+    coverage?: boolean;
+
+    /**
+     * Set to `true` if this transformer should generate a source map for each service and subscription.
+     */
+    sourceMaps?: boolean;
+
+    /**
+     * Set to `true` if this transformer should bundle the npm packages imported in thing files into the services using them.
+     */
+    bundleDependencies?: boolean;
+
+    /**
+     * When set, an object that specifies how services and subscriptions are checked for the builtins and syntax
+     * that are not supported by the Rhino engine of the minimum thingworx version.
+     */
+    rhinoCompatibility?: RhinoCompatibilityOptions;
+
+    /**
+     * The minimum thingworx version on which the project may be installed.
+     */
+    minimumThingWorxVersion?: string;
+
     /**
      * An array of breakpoint locations that have been added in a debug build.
      */
@@ -570,6 +1054,22 @@ export class TWThingTransformer implements TWCodeTransformer {
      */
     generateThingInstances?: boolean;
 
+    /**
+     * When enabled, errors are recorded in the `diagnostics` array instead of being thrown and
+     * the transformer continues with the next class member or method.
+     */
+    collectDiagnostics?: boolean;
+
+    /**
+     * When diagnostics are collected, an array containing the errors reported by this transformer.
+     */
+    diagnostics: TWDiagnostic[] = [];
+
+    /**
+     * An array containing the references to other entities that are validated by `validateReferences`.
+     */
+    entityReferences: TWEntityReference[] = [];
+
     constructor(program: ts.Program, context: ts.TransformationContext, root: string, after: boolean, watch: boolean) {
         this.program = program;
         this.context = context;
@@ -579,11 +1079,17 @@ export class TWThingTransformer implements TWCodeTransformer {
     }
 
     /**
-     * Throws a formatted error message for the given AST node.
+     * Throws a formatted error message for the given AST node. When diagnostics are collected,
+     * the error is recorded before being thrown and can be recovered from via `recoverDiagnostics`.
      * @param node      The node which caused an error.
      * @param error     The error message to display.
      */
     throwErrorForNode(node: ts.Node, error: string): never {
+        if (this.collectDiagnostics) {
+            this.recordDiagnosticForNode(node, error);
+            throw new TWRecordedDiagnosticError(error);
+        }
+
         const limit = Error.stackTraceLimit;
         try {
             Error.stackTraceLimit = 0;
@@ -597,21 +1103,112 @@ Failed parsing at: \n${node.getText()}\n\n`);
     }
 
     /**
-     * Returns the TW specific entity kind for the given class declaration based on the applied
-     * decorators.
-     * @param classNode     The class node.
-     * @return              The entity kind.
+     * Records a diagnostic for the given AST node on this transformer and on the store. Diagnostics that
+     * were already reported for the same node, such as in a different transformation phase, are ignored.
+     * @param node          The node which caused the diagnostic.
+     * @param message       The diagnostic message.
+     * @param category      Defaults to `Error`. The category of the diagnostic.
+     */
+    recordDiagnosticForNode(node: ts.Node, message: string, category: ts.DiagnosticCategory = ts.DiagnosticCategory.Error): void {
+        const file = node.getSourceFile();
+        const start = node.getStart();
+        const {line, character} = file.getLineAndCharacterOfPosition(start);
+
+        const store = this.store || (global._TWEntities = global._TWEntities || {});
+        const diagnostics: TWDiagnostic[] = store['@diagnostics'] = store['@diagnostics'] || [];
+
+        if (diagnostics.some(d => d.file?.fileName == file.fileName && d.start == start && d.messageText == message)) return;
+
+        const diagnostic: TWDiagnostic = {
+            file,
+            start,
+            length: node.getWidth(),
+            line,
+            column: character,
+            messageText: message,
+            category,
+            code: TWDiagnosticCode,
+            source: 'bm-thing-transformer'
+        };
+
+        this.diagnostics.push(diagnostic);
+        diagnostics.push(diagnostic);
+    }
+
+    /**
+     * Invokes the given callback and returns its result. When diagnostics are collected and the callback
+     * fails with an error that has already been recorded, the given fallback value is returned instead.
+     * @param callback      The callback to invoke.
+     * @param fallback      The value to return if the callback fails.
+     * @returns             The result of the callback, or the fallback value.
      */
-    entityKindOfClassNode(classNode: ts.ClassDeclaration): TWEntityKind {
-        // Determine the kind based on the decorators
-        if (!classNode.decorators || !classNode.decorators.length) {
-            this.throwErrorForNode(classNode, `Ambiguous class kind ${classNode.name}. Thingworx classes must extend from DataShape, ThingShape or have an entity kind decorator.`);
+    recoverDiagnostics<T>(callback: () => T, fallback: T): T {
+        try {
+            return callback();
         }
+        catch (e) {
+            if (e instanceof TWRecordedDiagnosticError) return fallback;
+            throw e;
+        }
+    }
+
+    /**
+     * Records a warning for the given AST node when diagnostics are collected. Warnings are used for issues
+     * that don't prevent the entity from being built, and have no effect otherwise.
+     * @param node          The node which caused the warning.
+     * @param warning       The warning message.
+     */
+    reportWarningForNode(node: ts.Node, warning: string): void {
+        if (this.collectDiagnostics) {
+            this.recordDiagnosticForNode(node, warning, ts.DiagnosticCategory.Warning);
+        }
+    }
+
+    /**
+     * Invokes the given callback, which emits part of this transformer's entity after the transformation has finished,
+     * and returns its result. When diagnostics are collected, any error thrown by the callback is recorded for this
+     * transformer's class and the given fallback value is returned instead.
+     * @param callback      The callback to invoke.
+     * @param fallback      The value to return if the callback fails.
+     * @returns             The result of the callback, or the fallback value.
+     */
+    recoverEmitDiagnostics<T>(callback: () => T, fallback: T): T {
+        if (!this.collectDiagnostics) return callback();
+
+        try {
+            return callback();
+        }
+        catch (e) {
+            if (e instanceof TWRecordedDiagnosticError) return fallback;
+
+            const message = e instanceof Error ? e.message : String(e);
+            if (this.classNode) {
+                this.recordDiagnosticForNode(this.classNode, message);
+            }
+            else {
+                TWThingTransformer.recordDiagnosticOfStore(this.store, message);
+            }
+
+            return fallback;
+        }
+    }
+
+    /**
+     * Returns the TW specific entity kind for the given class declaration based on the applied
+     * decorators.
+     * @param classNode     The class node.
+     * @return              The entity kind.
+     */
+    entityKindOfClassNode(classNode: ts.ClassDeclaration): TWEntityKind {
+        // Determine the kind based on the decorators
+        if (!classNode.decorators || !classNode.decorators.length) {
+            this.throwErrorForNode(classNode, `Ambiguous class kind ${classNode.name}. Thingworx classes must extend from DataShape, ThingShape or have an entity kind decorator.`);
+        }
+
+        let isThing = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'ThingDefinition');
+        let isThingTemplate = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'ThingTemplateDefinition');
+        let isDataShape = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'DataShapeDefinition');
 
-        let isThing = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'ThingDefinition');
-        let isThingTemplate = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'ThingTemplateDefinition');
-        let isDataShape = classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'DataShapeDefinition');
-
         const kinds = [isThing, isThingTemplate, isDataShape].filter(b => b);
 
         // Ensure that there is exactly a single kind specified
@@ -624,13 +1221,43 @@ Failed parsing at: \n${node.getText()}\n\n`);
         } else if (isThingTemplate) {
             return TWEntityKind.ThingTemplate;
         } else if (isDataShape) {
-            this.throwErrorForNode(classNode, `Data shape inheritance is not yet supported.`);
-            return TWEntityKind.DataShape;
+            this.throwErrorForNode(classNode, `Data shapes must extend from DataShapeBase, another data shape class or a DataShapeReference(...) expression.`);
         }
 
         this.throwErrorForNode(classNode, `Unknown entity kind for class ${classNode.name}`);
     }
 
+    /**
+     * Checks whether the given heritage clause type refers to a data shape class, in which case the class
+     * extending from it is a derived data shape.
+     * @param heritage      The heritage clause type.
+     * @return              `true` if the base class is a data shape, `false` otherwise.
+     */
+    isDataShapeHeritage(heritage: ts.ExpressionWithTypeArguments): boolean {
+        const typeChecker = this.program.getTypeChecker();
+
+        // Walk the inheritance chain of the base class, looking for the data shape base class
+        const types = [typeChecker.getTypeAtLocation(heritage)];
+        while (types.length) {
+            let type = types.pop()!;
+
+            if (type.getSymbol()?.name == 'DataShapeBase') {
+                return true;
+            }
+
+            // Class types are generally returned as references with a this type argument
+            if ((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference) {
+                type = (type as ts.TypeReference).target;
+            }
+
+            if (type.isClassOrInterface()) {
+                types.push(...typeChecker.getBaseTypes(type));
+            }
+        }
+
+        return false;
+    }
+
 
     /**
      * Returns the constant value of the given expression so that it can be inlined.
@@ -864,7 +1491,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 // After transpilation, methods get turned into function declarations
                 // that are assigned to properties
                 if (node.kind == ts.SyntaxKind.FunctionExpression && transpiledNode.original && transpiledNode.original.kind == ts.SyntaxKind.MethodDeclaration) {
-                    this.visitTranspiledMethod(transpiledNode);
+                    this.recoverDiagnostics(() => this.visitTranspiledMethod(transpiledNode), undefined);
                 }
             }
         }
@@ -875,11 +1502,12 @@ Failed parsing at: \n${node.getText()}\n\n`);
             }
 
             if (node.parent && node.parent.kind == ts.SyntaxKind.SourceFile) {
+                // When diagnostics are collected, an invalid root node shouldn't prevent the others from being visited
                 if (this.isGlobalCode) {
-                    this.visitGlobalRootNode(node);
+                    this.recoverDiagnostics(() => this.visitGlobalRootNode(node), undefined);
                 }
                 else {
-                    this.visitRootNode(node);
+                    this.recoverDiagnostics(() => this.visitRootNode(node), undefined);
                 }
             }
 
@@ -891,19 +1519,21 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 // If this is a global function declaration, extract it and discover its dependencies
                 if (node.kind == ts.SyntaxKind.FunctionDeclaration && node.parent.kind == ts.SyntaxKind.SourceFile) {
 
-                    const functionName = (node as ts.FunctionDeclaration).name?.text;
-
-                    if (!functionName) {
+                    if (!(node as ts.FunctionDeclaration).name) {
                         this.throwErrorForNode(node, `Global functions must be named.`)
                     }
 
-                    if (this.store['@globalFunctions']?.[functionName]) {
+                    const functionName = this.globalFunctionNameOfDeclaration(node as ts.FunctionDeclaration);
+                    const globalFunction = this.store['@globalFunctions']?.[functionName];
+
+                    if (globalFunction && globalFunction.filename == node.getSourceFile().fileName) {
                         // If this function was already processed, omit it from the result
                         return undefined;
                     }
                     else {
-                        // Otherwise compile it and omit it from the result
-                        this.compileGlobalFunction(node as ts.FunctionDeclaration);
+                        // Otherwise compile it and omit it from the result; if another file declares a function
+                        // with the same name, this will report an error
+                        this.recoverDiagnostics(() => this.compileGlobalFunction(node as ts.FunctionDeclaration), undefined);
                         return undefined;
                     }
                 }
@@ -944,11 +1574,11 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 // Upon reaching a method declaration that has been marked for debugging
                 // start processing in reverse.
                 if (this.debugMethodNodes.has(node)) {
-                    return this.visitDebugMethodNode(node, undefined, this.debugMethodNodes.get(node));
+                    return this.recoverDiagnostics(() => this.visitDebugMethodNode(node, undefined, this.debugMethodNodes.get(node)), node);
                 }
                 // Similar in non-debug mode
                 else if (this.methodNodes.has(node)) {
-                    return this.visitMethodNode(node, this.methodNodes.get(node));
+                    return this.recoverDiagnostics(() => this.visitMethodNode(node, this.methodNodes.get(node)), node);
                 }
                 
             }
@@ -1402,6 +2032,35 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 else if (baseClass.escapedText == 'OrganizationBase') {
                     this.entityKind = TWEntityKind.Organization;
                 }
+                else if (baseClass.escapedText == 'MashupBase') {
+                    this.entityKind = TWEntityKind.Mashup;
+                }
+                else if (baseClass.escapedText == 'LocalizationTableBase') {
+                    this.entityKind = TWEntityKind.LocalizationTable;
+                }
+                else if (baseClass.escapedText == 'ModelTagVocabularyBase') {
+                    this.entityKind = TWEntityKind.ModelTag;
+                }
+                else if (baseClass.escapedText == 'DataTagVocabularyBase') {
+                    this.entityKind = TWEntityKind.DataTag;
+                }
+                else if (baseClass.escapedText == 'StyleDefinitionBase') {
+                    this.entityKind = TWEntityKind.StyleDefinition;
+                }
+                else if (baseClass.escapedText == 'StateDefinitionBase') {
+                    this.entityKind = TWEntityKind.StateDefinition;
+                }
+                else if (this.isDataShapeHeritage(heritage)) {
+                    // Classes that extend from another data shape class are derived data shapes
+                    this.entityKind = TWEntityKind.DataShape;
+                    this.baseDataShapeName = baseClass.text;
+
+                    // Base data shapes that are not declared in declaration files are visited as part of this project
+                    const typeChecker = this.program.getTypeChecker();
+                    let symbol = typeChecker.getSymbolAtLocation(baseClass);
+                    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = typeChecker.getAliasedSymbol(symbol);
+                    this.baseDataShapeInProject = !!symbol?.declarations?.some(d => !d.getSourceFile().isDeclarationFile);
+                }
                 else {
                     this.entityKind = this.entityKindOfClassNode(classNode);
                     this.thingTemplateName = baseClass.text;
@@ -1419,6 +2078,16 @@ Failed parsing at: \n${node.getText()}\n\n`);
                     }
                 }
             }
+            else if (heritage.expression.kind == ts.SyntaxKind.CallExpression && (heritage.expression as ts.CallExpression).expression.getText() == 'DataShapeReference') {
+                // Data shapes can extend from data shapes with non-standard names via a DataShapeReference(...) expression
+                const callNode = heritage.expression as ts.CallExpression;
+                if (callNode.arguments.length != 1 || callNode.arguments[0].kind != ts.SyntaxKind.StringLiteral) {
+                    this.throwErrorForNode(node, `The DataShapeReference(...) expression must have a single string literal parameter.`);
+                }
+
+                this.entityKind = TWEntityKind.DataShape;
+                this.baseDataShapeName = (callNode.arguments[0] as ts.StringLiteral).text;
+            }
             else if (heritage.expression.kind == ts.SyntaxKind.CallExpression) {
                 // Call expression base classes can only be things or thing templates
                 this.entityKind = this.entityKindOfClassNode(classNode);
@@ -1499,6 +2168,10 @@ Failed parsing at: \n${node.getText()}\n\n`);
             this.valueStream = this.literalArgumentOfDecoratorNamed('valueStream', classNode);
             this.identifier = this.literalArgumentOfDecoratorNamed('identifier', classNode);
 
+            if (this.valueStream) {
+                this.entityReferences.push({entityKind: 'ValueStream', entityName: this.valueStream, node: this.argumentsOfDecoratorNamed('valueStream', classNode)![0]});
+            }
+
             if (this.valueStream && (this.entityKind != TWEntityKind.Thing && this.entityKind != TWEntityKind.ThingTemplate)) {
                 this.throwErrorForNode(node, `The valueStream decorator can only be applied to Things and ThingTemplates.`);
             }
@@ -1511,12 +2184,48 @@ Failed parsing at: \n${node.getText()}\n\n`);
 
             this.exported = this.hasDecoratorNamed('exported', classNode);
 
-            if (this.exported && !(this.entityKind == TWEntityKind.Thing || this.entityKind == TWEntityKind.DataShape)) {
-                this.throwErrorForNode(node, `Only Things or DataShapes may be exported.`);
+            const exportableKinds = [TWEntityKind.Thing, TWEntityKind.ThingTemplate, TWEntityKind.ThingShape, TWEntityKind.DataShape];
+            if (this.exported && !exportableKinds.includes(this.entityKind)) {
+                this.throwErrorForNode(node, `Only Things, ThingTemplates, ThingShapes or DataShapes may be exported.`);
             }
 
             this.editable = !!classNode.decorators && classNode.decorators.some(decorator => decorator.expression.kind == ts.SyntaxKind.Identifier && decorator.expression.getText() == 'editable');
 
+            if (this.hasDecoratorNamed('tags', classNode)) {
+                this.tags = this.argumentsOfDecoratorNamed('tags', classNode)!.map(tag => {
+                    if (tag.kind != ts.SyntaxKind.StringLiteral) {
+                        this.throwErrorForNode(classNode, `The arguments of the @tags decorator must be string literals.`);
+                    }
+
+                    const components = (tag as ts.StringLiteral).text.split(':');
+                    if (components.length != 2 || !components[0] || !components[1]) {
+                        this.throwErrorForNode(tag, `Tags must be specified in the "Vocabulary:Term" format.`);
+                    }
+
+                    return (tag as ts.StringLiteral).text;
+                });
+            }
+
+            this.isDynamicVocabulary = this.hasDecoratorNamed('dynamic', classNode);
+
+            if (this.isDynamicVocabulary && this.entityKind != TWEntityKind.ModelTag && this.entityKind != TWEntityKind.DataTag) {
+                this.throwErrorForNode(classNode, `The @dynamic decorator can only be applied to model and data tag vocabularies.`);
+            }
+
+            if (this.hasDecoratorNamed('language', classNode)) {
+                if (this.entityKind != TWEntityKind.LocalizationTable) {
+                    this.throwErrorForNode(classNode, `The @language decorator can only be applied to localization tables.`);
+                }
+
+                const languageArguments = this.argumentsOfDecoratorNamed('language', classNode)!;
+                if (languageArguments.length != 2 || languageArguments.some(a => a.kind != ts.SyntaxKind.StringLiteral)) {
+                    this.throwErrorForNode(classNode, `The @language decorator must take two string literal parameters.`);
+                }
+
+                this.languageCommon = (languageArguments[0] as ts.StringLiteral).text;
+                this.languageNative = (languageArguments[1] as ts.StringLiteral).text;
+            }
+
             if (!this.watch) {
                 if (this.hasDecoratorNamed('ConfigurationTables', classNode)) {
                     const configurationArgument = this.argumentsOfDecoratorNamed('ConfigurationTables', classNode)!;
@@ -1560,11 +2269,25 @@ Failed parsing at: \n${node.getText()}\n\n`);
             }
 
             // In watch mode, it is not needed to visit class members since they are not needed for the declaration files,
-            // except for user lists whose members each correspond to an entity and organizations whose units must be specified
-            // as type arguments
-            if (!this.watch || this.entityKind == TWEntityKind.UserList || this.entityKind == TWEntityKind.Organization) {
+            // except for user lists whose members each correspond to an entity, organizations whose units must be specified
+            // as type arguments, localization tables whose tokens are declared and vocabularies whose terms are declared
+            const declaredMemberKinds = [TWEntityKind.UserList, TWEntityKind.Organization, TWEntityKind.LocalizationTable, TWEntityKind.ModelTag, TWEntityKind.DataTag];
+            if (!this.watch || declaredMemberKinds.includes(this.entityKind)) {
+                // When diagnostics are collected, an invalid member shouldn't prevent the others from being visited
                 for (const member of classNode.members) {
-                    this.visitClassMember(member);
+                    this.recoverDiagnostics(() => this.visitClassMember(member), undefined);
+                }
+
+                if (this.baseDataShapeName) {
+                    this.visitInheritedDataShapeFields(heritage);
+                }
+
+                if (this.entityKind == TWEntityKind.Mashup && !this.mashupRootWidget) {
+                    this.throwErrorForNode(node, `Mashup classes must have a render method.`);
+                }
+
+                if (this.entityKind == TWEntityKind.StateDefinition && !this.states.length) {
+                    this.throwErrorForNode(node, `State definitions must contain at least one state.`);
                 }
             }
             
@@ -1644,6 +2367,10 @@ Failed parsing at: \n${node.getText()}\n\n`);
             this.throwErrorForNode(node, `Constructors are not supported in Thingworx classes.`);
         }
 
+        if (this.hasDecoratorNamed('exported', node)) {
+            this.visitExportedMember(node);
+        }
+
         if (node.kind == ts.SyntaxKind.PropertyDeclaration) {
             const propertyDeclarationNode = node as ts.PropertyDeclaration;
 
@@ -1653,6 +2380,21 @@ Failed parsing at: \n${node.getText()}\n\n`);
             else if (this.entityKind == TWEntityKind.UserList) {
                 this.visitUserListField(propertyDeclarationNode);
             }
+            else if (this.entityKind == TWEntityKind.Mashup) {
+                this.throwErrorForNode(node, `Mashup classes cannot contain properties.`);
+            }
+            else if (this.entityKind == TWEntityKind.LocalizationTable) {
+                this.visitLocalizationToken(propertyDeclarationNode);
+            }
+            else if (this.entityKind == TWEntityKind.ModelTag || this.entityKind == TWEntityKind.DataTag) {
+                this.visitVocabularyTerm(propertyDeclarationNode);
+            }
+            else if (this.entityKind == TWEntityKind.StyleDefinition) {
+                this.visitStyleDefinitionProperty(propertyDeclarationNode);
+            }
+            else if (this.entityKind == TWEntityKind.StateDefinition) {
+                this.visitStateDefinitionState(propertyDeclarationNode);
+            }
             else if (this.entityKind == TWEntityKind.Organization) {
                 if (node.name?.kind != ts.SyntaxKind.Identifier || (node.name as ts.Identifier)?.text != 'units') {
                     this.throwErrorForNode(node, `Organization classes may only have a single property called "units".`);
@@ -1679,10 +2421,52 @@ Failed parsing at: \n${node.getText()}\n\n`);
             if (this.entityKind == TWEntityKind.Organization) {
                 this.throwErrorForNode(node, `Organizations cannot contain methods.`);
             }
+            if (this.entityKind == TWEntityKind.LocalizationTable) {
+                this.throwErrorForNode(node, `Localization tables cannot contain methods.`);
+            }
+            if (this.entityKind == TWEntityKind.ModelTag || this.entityKind == TWEntityKind.DataTag) {
+                this.throwErrorForNode(node, `Vocabularies cannot contain methods.`);
+            }
+            if (this.entityKind == TWEntityKind.StyleDefinition) {
+                this.throwErrorForNode(node, `Style definitions cannot contain methods.`);
+            }
+            if (this.entityKind == TWEntityKind.StateDefinition) {
+                this.throwErrorForNode(node, `State definitions cannot contain methods.`);
+            }
+            if (this.entityKind == TWEntityKind.Mashup) {
+                this.visitMashupRenderMethod(node as ts.MethodDeclaration);
+                return;
+            }
             this.visitMethod(node as ts.MethodDeclaration);
         }
     }
 
+    /**
+     * Visits a class member that has the `@exported` decorator applied, which controls whether the member
+     * is included in the API of its exported entity.
+     * @param node      The node to visit.
+     */
+    visitExportedMember(node: ts.ClassElement) {
+        if (!this.exported) {
+            this.throwErrorForNode(node, `The exported decorator can only be applied to members of exported classes.`);
+        }
+
+        if (!node.name || node.name.kind != ts.SyntaxKind.Identifier) {
+            this.throwErrorForNode(node, `The exported decorator cannot be applied to members with computed names.`);
+        }
+
+        const args = this.argumentsOfDecoratorNamed('exported', node);
+        if (!args) return;
+
+        if (args.length != 1 || (args[0].kind != ts.SyntaxKind.TrueKeyword && args[0].kind != ts.SyntaxKind.FalseKeyword)) {
+            this.throwErrorForNode(node, `The argument of the exported decorator must be a boolean literal.`);
+        }
+
+        if (args[0].kind == ts.SyntaxKind.FalseKeyword) {
+            this.unexportedMembers.add((node.name as ts.Identifier).text);
+        }
+    }
+
     /**
      * Visits the given organizational unit expression.
      * @param unit      The unit to visit.
@@ -1777,210 +2561,614 @@ Failed parsing at: \n${node.getText()}\n\n`);
     }
 
     /**
-     * Visits a data shape property declaration.
+     * Visits a style definition property declaration.
      * @param node      The node to visit.
      */
-    visitUserListField(node: ts.PropertyDeclaration) {
-        const principal = {} as TWPrincipalBase;
+    visitStyleDefinitionProperty(node: ts.PropertyDeclaration) {
         if (node.name.kind != ts.SyntaxKind.Identifier) {
-            this.throwErrorForNode(node, `Computed property names are not supported in Thingwrox classes.`);
+            this.throwErrorForNode(node, `Style definition property names must be identifiers.`);
         }
 
-        // First obtain the name of the property
-        principal.name = node.name.text;
+        const name = node.name.text;
+        if (!(name in StyleDefinitionDefaults)) {
+            this.throwErrorForNode(node, `Unknown style definition property "${name}".`);
+        }
 
-        principal.description = this.documentationOfNode(node);
+        const value = node.initializer ? this.constantOrLiteralValueOfExpression(node.initializer) : undefined;
+        if (value === undefined || typeof value != typeof StyleDefinitionDefaults[name]) {
+            this.throwErrorForNode(node, `The value of the style definition property "${name}" must be a ${typeof StyleDefinitionDefaults[name]} literal.`);
+        }
 
-        if (node.initializer) {
-            // Only two types of initializers are permitted in user lists
-            // - object literals which describe users
-            if (node.initializer.kind == ts.SyntaxKind.ObjectLiteralExpression) {
-                const user = principal as TWUser;
-                user.extensions = {};
+        if (StyleDefinitionEnumerations[name] && !StyleDefinitionEnumerations[name].includes(value as string)) {
+            this.throwErrorForNode(node, `The value of the style definition property "${name}" must be one of ${StyleDefinitionEnumerations[name].map(v => `"${v}"`).join(', ')}.`);
+        }
 
-                // Enumerate the members and create the extensions object
-                const objectLiteral = node.initializer as ts.ObjectLiteralExpression;
-                for (const member of objectLiteral.properties) {
-                    if (member.kind == ts.SyntaxKind.MethodDeclaration) {
-                        this.throwErrorForNode(node, `User extensions cannot contain methods`);
-                    }
-                    
-                    if (member.kind != ts.SyntaxKind.PropertyAssignment) {
-                        this.throwErrorForNode(node, `User extensions keys cannot be setters, getters or shorthand assignments.`);
-                    }
+        if (name == 'image' && value) {
+            this.validateMediaEntityName(node, value as string);
+        }
 
-                    if (member.name.kind != ts.SyntaxKind.Identifier) {
-                        this.throwErrorForNode(node, `User extension property names must be identifiers.`);
-                    }
+        this.styleProperties[name] = value as string | number | boolean;
+    }
 
-                    const assignment = member as ts.PropertyAssignment;
-                    if (assignment.initializer.kind == ts.SyntaxKind.PropertyAccessExpression) {
-                        // Const enums need to be resolved early on
-                        user.extensions[member.name.text] = this.constantValueOfExpression(assignment.initializer as ts.PropertyAccessExpression);
-        
-                        // If the value is not a compile time constant, it is not a valid initializer
-                        if (user.extensions[member.name.text] === undefined) {
-                            this.throwErrorForNode(node, `Unknown initializer for property.`);
-                        }
-                    }
-                    else {
-                        user.extensions[member.name.text] = (assignment.initializer as ts.LiteralExpression).text || assignment.initializer.getText();
-                    }
-                }
+    /**
+     * Visits a state definition property declaration.
+     * @param node      The node to visit.
+     */
+    visitStateDefinitionState(node: ts.PropertyDeclaration) {
+        if (node.name.kind != ts.SyntaxKind.Identifier && node.name.kind != ts.SyntaxKind.StringLiteral) {
+            this.throwErrorForNode(node, `State names must be identifiers or string literals.`);
+        }
 
-                this.users[user.name] = user;
-            }
-            // - array literals which describe groups
-            else if (node.initializer.kind == ts.SyntaxKind.ArrayLiteralExpression) {
-                const group = principal as TWUserGroup;
-                group.members = [];
+        const initializer = node.initializer;
+        if (!initializer || !ts.isCallExpression(initializer) || !ts.isIdentifier(initializer.expression) || !['State', 'DefaultState'].includes(initializer.expression.text)) {
+            this.throwErrorForNode(node, `States must be initialized with a State(...) or DefaultState(...) expression.`);
+        }
 
-                const arrayLiteral = node.initializer as ts.ArrayLiteralExpression;
-                for (const member of arrayLiteral.elements) {
-                    if (member.kind != ts.SyntaxKind.PropertyAccessExpression) {
-                        this.throwErrorForNode(node, `User group members must be user or group references.`);
-                    }
+        if (this.states.length && this.states[this.states.length - 1].defaultValue === undefined) {
+            this.throwErrorForNode(node, `The default state must be the last state of the state definition.`);
+        }
 
-                    const expression = member as ts.PropertyAccessExpression;
-                    const type = expression.expression.getText();
-                    const name = expression.name;
+        const isDefault = initializer.expression.text == 'DefaultState';
+        const args = initializer.arguments;
+        const styleArgument = isDefault ? args[0] : args[1];
 
-                    if (type != 'Users' && type != 'Groups') {
-                        this.throwErrorForNode(node, `User group members must be user or group references.`);
-                    }
+        if (!styleArgument || styleArgument.kind != ts.SyntaxKind.StringLiteral) {
+            this.throwErrorForNode(node, `The style definition of a state must be a string literal.`);
+        }
 
-                    if (name.kind != ts.SyntaxKind.Identifier) {
-                        this.throwErrorForNode(node, `User group member names must be identifiers.`);
-                    }
+        const state = {
+            name: node.name.text,
+            displayString: this.documentationOfNode(node) || node.name.text,
+            defaultStyleDefinition: (styleArgument as ts.StringLiteral).text
+        } as TWStateDefinitionState;
 
-                    group.members.push({name: name.text, type})
+        if (!isDefault) {
+            const value = this.constantOrLiteralValueOfExpression(args[0]);
+            if (typeof value != 'number' && typeof value != 'string') {
+                this.throwErrorForNode(node, `The value of a state must be a string or number literal.`);
+            }
+
+            // All states must have the same kind of value, which determines the kind of state definition
+            const previousState = this.states[this.states.length - 1];
+            if (previousState && typeof previousState.defaultValue != typeof value) {
+                this.throwErrorForNode(node, `The values of all states in a state definition must be either strings or numbers.`);
+            }
+
+            if (typeof value == 'number') {
+                if (previousState && (previousState.defaultValue as number) > value) {
+                    this.throwErrorForNode(node, `The values of numeric states must be specified in ascending order.`);
                 }
 
-                this.userGroups[group.name] = group;
+                const comparator = args[2] ? this.constantOrLiteralValueOfExpression(args[2]) : '<=';
+                if (comparator != '<' && comparator != '<=') {
+                    this.throwErrorForNode(node, `The comparator of a numeric state must be either "<" or "<=".`);
+                }
+
+                state.comparator = comparator as '<' | '<=';
             }
-        } else {
-            // Properties without an initializer default to being treated as users with no extensions
-            const user = principal as TWUser;
-            user.extensions = {};
-            this.users[user.name] = user;
+            else {
+                if (args[2]) {
+                    this.throwErrorForNode(node, `Comparators can only be specified for numeric states.`);
+                }
+
+                state.comparator = '==';
+            }
+
+            state.defaultValue = value;
         }
 
-        // Extract the permissions to be applied per user
-        this.runtimePermissions = this.mergePermissionListsForNode([this.runtimePermissions].concat(this.permissionsOfNode(node, node.name.text)), node);
+        this.states.push(state);
     }
 
     /**
-     * Visits a user list property declaration.
+     * Visits a vocabulary property declaration.
      * @param node      The node to visit.
      */
-    visitDataShapeField(node: ts.PropertyDeclaration) {
-        const baseType = this.getTypeOfPropertyDeclaration(node);
-
-        const property = {} as TWDataShapeField;
-        if (node.name.kind != ts.SyntaxKind.Identifier) {
-            this.throwErrorForNode(node, `Computed property names are not supported in Thingwrox classes.`);
+    visitVocabularyTerm(node: ts.PropertyDeclaration) {
+        if (node.name.kind != ts.SyntaxKind.Identifier && node.name.kind != ts.SyntaxKind.StringLiteral) {
+            this.throwErrorForNode(node, `Vocabulary term names must be identifiers or string literals.`);
         }
 
-        // First obtain the name of the property
-        property.name = node.name.text;
+        if (node.initializer) {
+            this.throwErrorForNode(node, `Vocabulary terms cannot have initializers.`);
+        }
 
-        property.description = this.documentationOfNode(node);
+        const term = {name: node.name.text} as TWVocabularyTerm;
 
-        // Create the generic aspects, required for all properties
-        property.aspects = {};
-        if (this.hasDecoratorNamed('primaryKey', node)) {
-            property.aspects.isPrimaryKey = true;
+        const description = this.documentationOfNode(node);
+        if (description) {
+            term.description = description;
         }
 
-        const ordinal = this.numericArgumentOfDecoratorNamed('ordinal', node);
-        if (ordinal) {
-            if (!parseInt(ordinal)) this.throwErrorForNode(node, `Non numeric value specified in ordinal decorator for property ${property.name}: ${baseType}`);
-            property.ordinal = parseInt(ordinal);
+        this.vocabularyTerms.push(term);
+    }
+
+    /**
+     * Visits a localization table property declaration.
+     * @param node      The node to visit.
+     */
+    visitLocalizationToken(node: ts.PropertyDeclaration) {
+        if (node.name.kind != ts.SyntaxKind.Identifier && node.name.kind != ts.SyntaxKind.StringLiteral) {
+            this.throwErrorForNode(node, `Localization token names must be identifiers or string literals.`);
         }
 
-        // Ensure that the base type is one of the Thingworx Base Types
-        if (!(baseType in TWBaseTypes)) {
-            this.throwErrorForNode(node, `Unknown baseType for property ${property.name}: ${baseType}`);
+        const name = node.name.text;
+        const initializer = node.initializer;
+
+        if (!initializer || (initializer.kind != ts.SyntaxKind.StringLiteral && initializer.kind != ts.SyntaxKind.NoSubstitutionTemplateLiteral)) {
+            this.throwErrorForNode(node, `The value of the localization token "${name}" must be a string literal.`);
         }
-        property.baseType = TWBaseTypes[baseType];
 
-        // INFOTABLE can optionally take the data shape as a type argument
-        if (TWBaseTypes[baseType] == 'INFOTABLE') {
-            const typeArguments = (node.type as ts.TypeReferenceNode)?.typeArguments;
-            if (typeArguments) {
-                if (typeArguments.length != 1) this.throwErrorForNode(node, `Unknown generics specified for property ${property.name}: ${property.baseType}`);
+        const token = {name, value: (initializer as ts.StringLiteral | ts.NoSubstitutionTemplateLiteral).text} as TWLocalizationToken;
 
-                if (typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
-                    property.aspects.dataShape = ((typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
-                }
-                else {
-                    property.aspects.dataShape = typeArguments[0].getText();
-                }
-            }
+        const description = this.documentationOfNode(node);
+        if (description) {
+            token.description = description;
         }
-        // THINGNAME can optionally take the thing template name and/or thing shape name as a type argument
-        else if (TWBaseTypes[baseType] == 'THINGNAME') {
-            const typeArguments = (node.type as ts.TypeReferenceNode)?.typeArguments;
 
-            if (typeArguments && typeArguments.length) {
-                if (typeArguments.length > 2) this.throwErrorForNode(node, `Unknown generics specified for property ${property.name}: ${property.baseType}`);
+        this.localizationTokens.push(token);
+    }
 
-                const thingTemplate = typeArguments[0];
-                if (thingTemplate.kind == ts.SyntaxKind.LiteralType) {
-                    property.aspects.thingTemplate = ((thingTemplate as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
-                }
+    /**
+     * Visits the render method of a mashup class. The TSX element returned by this method describes
+     * the widgets of the mashup.
+     * @param node      The node to visit.
+     */
+    visitMashupRenderMethod(node: ts.MethodDeclaration) {
+        if (node.name.kind != ts.SyntaxKind.Identifier || node.name.text != 'render' || this.mashupRootWidget) {
+            this.throwErrorForNode(node, `Mashup classes may only contain a single method called "render".`);
+        }
 
-                const thingShape = typeArguments[1];
-                if (thingShape && thingShape.kind == ts.SyntaxKind.LiteralType) {
-                    property.aspects.thingShape = ((thingShape as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
-                }
+        const statements = node.body?.statements;
+        if (!statements || statements.length != 1 || statements[0].kind != ts.SyntaxKind.ReturnStatement || !(statements[0] as ts.ReturnStatement).expression) {
+            this.throwErrorForNode(node, `The render method must contain a single return statement.`);
+        }
+
+        let expression = (statements[0] as ts.ReturnStatement).expression!;
+        while (expression.kind == ts.SyntaxKind.ParenthesizedExpression) {
+            expression = (expression as ts.ParenthesizedExpression).expression;
+        }
+
+        if (expression.kind != ts.SyntaxKind.JsxElement && expression.kind != ts.SyntaxKind.JsxSelfClosingElement) {
+            this.throwErrorForNode(expression, `The render method must return a TSX element.`);
+        }
+
+        this.mashupRootWidget = this.visitMashupWidget(expression as ts.JsxElement | ts.JsxSelfClosingElement, true);
+    }
+
+    /**
+     * Visits a TSX element that represents a widget in a mashup, as well as its child elements.
+     * @param element       The element to visit.
+     * @param isRoot        Defaults to `false`. Must be set to `true` for the mashup's root element.
+     * @return              The widget.
+     */
+    visitMashupWidget(element: ts.JsxElement | ts.JsxSelfClosingElement, isRoot: boolean = false): TWMashupWidget {
+        const openingElement = element.kind == ts.SyntaxKind.JsxElement ? element.openingElement : element;
+        const type = openingElement.tagName.getText();
+
+        if (isRoot && type != 'mashup') {
+            this.throwErrorForNode(element, `The root element of a mashup must be a "mashup" element.`);
+        }
+
+        if (!isRoot && type == 'mashup') {
+            this.throwErrorForNode(element, `The "mashup" element may only be used as the root element of a mashup.`);
+        }
+
+        const attributes = openingElement.attributes.properties;
+        for (const attribute of attributes) {
+            if (attribute.kind == ts.SyntaxKind.JsxSpreadAttribute) {
+                this.throwErrorForNode(attribute, `Spread attributes are not supported in mashups.`);
             }
         }
 
-        if (node.initializer) {
-            if (node.initializer.kind == ts.SyntaxKind.PropertyAccessExpression) {
-                // Const enums need to be resolved early on
-                property.aspects.defaultValue = this.constantValueOfExpression(node.initializer as ts.PropertyAccessExpression);
+        // The ID has to be determined first, because it is needed to create the events and bindings
+        let id = isRoot ? 'mashup-root' : `${type}-${++this._mashupWidgetCounter}`;
+        const idAttribute = (attributes as ts.NodeArray<ts.JsxAttribute>).find(a => a.name.text == 'Id');
+        if (idAttribute) {
+            if (isRoot) {
+                this.throwErrorForNode(idAttribute, `The ID of the "mashup" element cannot be changed.`);
+            }
 
-                // If the value is not a compile time constant, it is not a valod initializer
-                if (property.aspects.defaultValue === undefined) {
-                    this.throwErrorForNode(node, `Unknown initializer for property.`);
+            if (!idAttribute.initializer || idAttribute.initializer.kind != ts.SyntaxKind.StringLiteral) {
+                this.throwErrorForNode(idAttribute, `Widget IDs must be string literals.`);
+            }
+
+            id = (idAttribute.initializer as ts.StringLiteral).text;
+        }
+
+        const widget: TWMashupWidget = {Properties: {}, Widgets: []};
+
+        if (isRoot) {
+            widget.Properties = {
+                Area: 'Mashup',
+                Type: 'mashup',
+                Id: id,
+                DisplayName: id,
+                ResponsiveLayout: true,
+                Style: 'DefaultMashupStyle',
+                Top: 0,
+                Left: 0,
+                Width: 1024,
+                Height: 618,
+                'Z-index': 10,
+                Columns: 0,
+                Rows: 0,
+                ShowDataLoading: true,
+                Visible: true
+            };
+        }
+        else {
+            widget.Properties = {
+                Area: 'UI',
+                Type: type,
+                Id: id,
+                DisplayName: id,
+                Top: 0,
+                Left: 0,
+                'Z-index': 10,
+                ShowDataLoading: true,
+                Visible: true
+            };
+        }
+
+        for (const attribute of attributes as ts.NodeArray<ts.JsxAttribute>) {
+            const name = attribute.name.text;
+            if (name == 'Id') continue;
+
+            // Attributes without an initializer are boolean properties
+            if (!attribute.initializer) {
+                widget.Properties[name] = true;
+            }
+            else if (attribute.initializer.kind == ts.SyntaxKind.StringLiteral) {
+                widget.Properties[name] = attribute.initializer.text;
+            }
+            else {
+                if (!attribute.initializer.expression) {
+                    this.throwErrorForNode(attribute, `The widget property "${name}" must have a value.`);
                 }
+
+                this.visitMashupWidgetAttribute(widget, name, attribute.initializer.expression, isRoot);
             }
-            else if (ts.isNewExpression(node.initializer) && ts.isIdentifier(node.initializer.expression) && node.initializer.expression.escapedText == 'Date') {
-                if (node.initializer.arguments && node.initializer.arguments.length == 1 && ts.isStringLiteral(node.initializer.arguments[0])) {
-                    property.aspects.defaultValue = new Date(node.initializer.arguments[0].text).toISOString();
+        }
+
+        if (element.kind == ts.SyntaxKind.JsxElement) {
+            for (const child of element.children) {
+                if (child.kind == ts.SyntaxKind.JsxText) {
+                    if (!child.containsOnlyTriviaWhiteSpaces) {
+                        this.throwErrorForNode(child, `Text is not supported in mashups. Use a label widget instead.`);
+                    }
+                    continue;
                 }
-                else {
-                    this.throwErrorForNode(node, 'Exactly one string literal argument is required when setting Date as default value.');
+
+                if (child.kind != ts.SyntaxKind.JsxElement && child.kind != ts.SyntaxKind.JsxSelfClosingElement) {
+                    this.throwErrorForNode(child, `The children of widgets must be widget elements.`);
                 }
+
+                widget.Widgets.push(this.visitMashupWidget(child));
             }
-            else {
-                property.aspects.defaultValue = (node.initializer as ts.LiteralExpression).text || node.initializer.getText();
+        }
+
+        return widget;
+    }
+
+    /**
+     * Returns an identifier for a mashup event or binding that is derived from the mashup's name and the
+     * given endpoints, so that the same mashup produces the same identifiers on every build.
+     * @param parts     The values that uniquely identify the event or binding within the mashup.
+     * @returns         A UUID formatted identifier.
+     */
+    mashupIdentifierOfParts(...parts: string[]): string {
+        const hash = crypto.createHash('sha1').update([this.exportedName, ...parts].join('\u0000')).digest('hex');
+        return `${hash.substring(0, 8)}-${hash.substring(8, 12)}-${hash.substring(12, 16)}-${hash.substring(16, 20)}-${hash.substring(20, 32)}`;
+    }
+
+    /**
+     * Visits the value of a widget attribute that is specified as an expression. Depending on the expression,
+     * this will add a property value, service events or bindings to the mashup.
+     * @param widget        The widget to which the attribute belongs.
+     * @param name          The name of the attribute.
+     * @param expression    The attribute's value.
+     * @param isRoot        Must be set to `true` if the widget is the mashup's root widget.
+     */
+    visitMashupWidgetAttribute(widget: TWMashupWidget, name: string, expression: ts.Expression, isRoot: boolean) {
+        const id = widget.Properties.Id as string;
+
+        // Service references or arrays of service references are events that invoke those services
+        const handlers = expression.kind == ts.SyntaxKind.ArrayLiteralExpression ? (expression as ts.ArrayLiteralExpression).elements : [expression];
+        if (handlers.length && handlers.every(handler => handler.kind == ts.SyntaxKind.PropertyAccessExpression && this.mashupEntityOfExpression((handler as ts.PropertyAccessExpression).expression))) {
+            for (const handler of handlers) {
+                const {dataSource, service} = this.mashupServiceOfExpression(handler);
+
+                this.mashupEvents.push({
+                    EventHandlerArea: 'Data',
+                    EventHandlerId: dataSource,
+                    EventHandlerService: service,
+                    EventTriggerArea: isRoot ? 'Mashup' : 'UI',
+                    EventTriggerEvent: name,
+                    EventTriggerId: id,
+                    EventTriggerSection: '',
+                    Id: this.mashupIdentifierOfParts('Event', id, name, dataSource, service)
+                });
             }
+            return;
         }
 
-        const permissions = this.permissionsOfNode(node);
-        if (Object.keys(permissions).length) {
-            this.throwErrorForNode(node, `Permission decorators are not allowed for data shape members.`);
+        if (expression.kind == ts.SyntaxKind.CallExpression) {
+            const callExpression = expression as ts.CallExpression;
+            const functionName = callExpression.expression.getText();
+
+            switch (functionName) {
+                case 'AllData':
+                case 'SelectedRows': {
+                    // Binds the result of a service to the widget property
+                    if (callExpression.arguments.length != 1) {
+                        this.throwErrorForNode(expression, `The ${functionName}(...) function must take a single service argument.`);
+                    }
+
+                    const {dataSource, service} = this.mashupServiceOfExpression(callExpression.arguments[0]);
+
+                    this.mashupBindings.push({
+                        Id: this.mashupIdentifierOfParts('Binding', dataSource, service, functionName, id, name),
+                        PropertyMaps: [{
+                            SourceProperty: '',
+                            SourcePropertyBaseType: 'INFOTABLE',
+                            SourcePropertyType: 'InfoTable',
+                            TargetProperty: name,
+                            TargetPropertyBaseType: 'INFOTABLE',
+                            TargetPropertyType: 'Property'
+                        }],
+                        SourceArea: 'Data',
+                        SourceDetails: functionName,
+                        SourceId: service,
+                        SourceSection: dataSource,
+                        TargetArea: 'UI',
+                        TargetId: id,
+                        TargetSection: ''
+                    });
+                    return;
+                }
+                case 'ServiceParameter': {
+                    // Binds the widget property to the parameter of a service
+                    if (callExpression.arguments.length != 2 || callExpression.arguments[1].kind != ts.SyntaxKind.StringLiteral) {
+                        this.throwErrorForNode(expression, `The ServiceParameter(...) function must take a service and a string literal parameter name.`);
+                    }
+
+                    const {dataSource, service} = this.mashupServiceOfExpression(callExpression.arguments[0]);
+                    const parameter = (callExpression.arguments[1] as ts.StringLiteral).text;
+                    const baseType = this.baseTypeOfMashupServiceParameter(callExpression.arguments[0] as ts.PropertyAccessExpression, parameter);
+
+                    this.mashupBindings.push({
+                        Id: this.mashupIdentifierOfParts('Binding', id, name, dataSource, service, parameter),
+                        PropertyMaps: [{
+                            SourceProperty: name,
+                            SourcePropertyBaseType: baseType,
+                            SourcePropertyType: 'Property',
+                            TargetProperty: parameter,
+                            TargetPropertyBaseType: baseType,
+                            TargetPropertyType: 'Parameter'
+                        }],
+                        SourceArea: 'UI',
+                        SourceDetails: '',
+                        SourceId: id,
+                        SourceSection: '',
+                        TargetArea: 'Data',
+                        TargetId: service,
+                        TargetSection: dataSource
+                    });
+                    return;
+                }
+            }
         }
 
-        this.fields.push(property);
+        const value = this.constantOrLiteralValueOfExpression(expression);
+        if (value === undefined) {
+            this.throwErrorForNode(expression, `The widget property "${name}" must be a literal, a service, or an AllData(...), SelectedRows(...) or ServiceParameter(...) binding.`);
+        }
+
+        widget.Properties[name] = value;
     }
 
     /**
-     * Visits a thing, thing template or thing shape property or event.
+     * Returns the kind and name of the entity referenced by the given expression, if it is an
+     * element or property access on an entity collection that can be used in mashups.
+     * @param expression    The expression.
+     * @return              An object containing the collection and entity names, or `undefined` if the
+     *                      expression doesn't reference an entity.
+     */
+    mashupEntityOfExpression(expression: ts.Expression): { entityType: string, entityName: string } | undefined {
+        let collection: ts.Expression;
+        let entityName: string;
+
+        if (ts.isElementAccessExpression(expression) && ts.isStringLiteral(expression.argumentExpression)) {
+            collection = expression.expression;
+            entityName = expression.argumentExpression.text;
+        }
+        else if (ts.isPropertyAccessExpression(expression)) {
+            collection = expression.expression;
+            entityName = expression.name.text;
+        }
+        else {
+            return undefined;
+        }
+
+        if (!ts.isIdentifier(collection) || !MashupEntityCollections.includes(collection.text)) return undefined;
+
+        return {entityType: collection.text, entityName};
+    }
+
+    /**
+     * Validates the given service reference expression and adds its entity and service to the mashup's data sources.
+     * @param expression    An expression such as `Things["Name"].Service`.
+     * @return              An object containing the name of the data source and of the service.
+     */
+    mashupServiceOfExpression(expression: ts.Expression): { dataSource: string, service: string } {
+        const entity = expression.kind == ts.SyntaxKind.PropertyAccessExpression ? this.mashupEntityOfExpression((expression as ts.PropertyAccessExpression).expression) : undefined;
+
+        if (!entity) {
+            this.throwErrorForNode(expression, `Mashup services must be specified via the ${MashupEntityCollections.map(c => `"${c}"`).join(', ')} collections.`);
+        }
+
+        const serviceName = (expression as ts.PropertyAccessExpression).name;
+
+        // Ensure that the service is declared on the referenced entity
+        const symbol = this.program.getTypeChecker().getSymbolAtLocation(serviceName);
+        if (!symbol || !(symbol.flags & ts.SymbolFlags.Method)) {
+            this.throwErrorForNode(expression, `"${serviceName.text}" is not a service of ${entity.entityType}["${entity.entityName}"].`);
+        }
+
+        const dataSource = `${entity.entityType}_${entity.entityName}`;
+        this.mashupDataSources[dataSource] = this.mashupDataSources[dataSource] || {
+            DataName: dataSource,
+            EntityName: entity.entityName,
+            EntityType: entity.entityType,
+            Id: dataSource,
+            RefreshInterval: 0,
+            Services: []
+        };
+
+        const services = this.mashupDataSources[dataSource].Services;
+        if (!services.some(s => s.Name == serviceName.text)) {
+            services.push({
+                APIMethod: 'post',
+                Characteristic: 'Services',
+                Id: serviceName.text,
+                Name: serviceName.text,
+                Parameters: {},
+                RefreshInterval: 0,
+                Target: serviceName.text
+            });
+        }
+
+        return {dataSource, service: serviceName.text};
+    }
+
+    /**
+     * Returns the thingworx base type of the given parameter of a service used in a mashup.
+     * @param expression    The service reference expression.
+     * @param parameter     The name of the parameter.
+     * @return              The parameter's base type.
+     */
+    baseTypeOfMashupServiceParameter(expression: ts.PropertyAccessExpression, parameter: string): string {
+        const typeChecker = this.program.getTypeChecker();
+        const declaration = typeChecker.getSymbolAtLocation(expression.name)?.declarations?.[0];
+
+        if (declaration && (ts.isMethodDeclaration(declaration) || ts.isMethodSignature(declaration)) && declaration.parameters.length) {
+            const argumentsType = typeChecker.getNonNullableType(typeChecker.getTypeAtLocation(declaration.parameters[0]));
+            const parameterDeclaration = argumentsType.getProperty(parameter)?.valueDeclaration;
+
+            if (parameterDeclaration && (ts.isPropertySignature(parameterDeclaration) || ts.isBindingElement(parameterDeclaration))) {
+                // Prefer the name of the declared type, to distinguish between base types that have the same typescript type
+                const typeNode = ts.isPropertySignature(parameterDeclaration) ? parameterDeclaration.type : undefined;
+                const typeName = typeNode ? (ts.isTypeReferenceNode(typeNode) ? typeNode.typeName.getText() : typeNode.getText()) : typeChecker.typeToString(typeChecker.getTypeAtLocation(parameterDeclaration));
+
+                return TWBaseTypes[typeName] || 'STRING';
+            }
+        }
+
+        this.throwErrorForNode(expression, `The service "${expression.name.text}" does not have a parameter named "${parameter}".`);
+    }
+
+    /**
+     * Visits a data shape property declaration.
      * @param node      The node to visit.
      */
-    visitProperty(node: ts.PropertyDeclaration) {
-        const baseType = this.getTypeOfPropertyDeclaration(node);
+    visitUserListField(node: ts.PropertyDeclaration) {
+        const principal = {} as TWPrincipalBase;
+        if (node.name.kind != ts.SyntaxKind.Identifier) {
+            this.throwErrorForNode(node, `Computed property names are not supported in Thingwrox classes.`);
+        }
 
-        // The special base type "EVENT" identifies properties that will be converted into events.
-        if (baseType == 'EVENT') {
-            return this.visitEvent(node);
+        // First obtain the name of the property
+        principal.name = node.name.text;
+
+        principal.description = this.documentationOfNode(node);
+
+        if (node.initializer) {
+            // Only two types of initializers are permitted in user lists
+            // - object literals which describe users
+            if (node.initializer.kind == ts.SyntaxKind.ObjectLiteralExpression) {
+                const user = principal as TWUser;
+                user.extensions = {};
+
+                // Enumerate the members and create the extensions object
+                const objectLiteral = node.initializer as ts.ObjectLiteralExpression;
+                for (const member of objectLiteral.properties) {
+                    if (member.kind == ts.SyntaxKind.MethodDeclaration) {
+                        this.throwErrorForNode(node, `User extensions cannot contain methods`);
+                    }
+                    
+                    if (member.kind != ts.SyntaxKind.PropertyAssignment) {
+                        this.throwErrorForNode(node, `User extensions keys cannot be setters, getters or shorthand assignments.`);
+                    }
+
+                    if (member.name.kind != ts.SyntaxKind.Identifier) {
+                        this.throwErrorForNode(node, `User extension property names must be identifiers.`);
+                    }
+
+                    const assignment = member as ts.PropertyAssignment;
+                    if (assignment.initializer.kind == ts.SyntaxKind.PropertyAccessExpression) {
+                        // Const enums need to be resolved early on
+                        user.extensions[member.name.text] = this.constantValueOfExpression(assignment.initializer as ts.PropertyAccessExpression);
+        
+                        // If the value is not a compile time constant, it is not a valid initializer
+                        if (user.extensions[member.name.text] === undefined) {
+                            this.throwErrorForNode(node, `Unknown initializer for property.`);
+                        }
+                    }
+                    else {
+                        user.extensions[member.name.text] = (assignment.initializer as ts.LiteralExpression).text || assignment.initializer.getText();
+                    }
+                }
+
+                this.users[user.name] = user;
+            }
+            // - array literals which describe groups
+            else if (node.initializer.kind == ts.SyntaxKind.ArrayLiteralExpression) {
+                const group = principal as TWUserGroup;
+                group.members = [];
+
+                const arrayLiteral = node.initializer as ts.ArrayLiteralExpression;
+                for (const member of arrayLiteral.elements) {
+                    if (member.kind != ts.SyntaxKind.PropertyAccessExpression) {
+                        this.throwErrorForNode(node, `User group members must be user or group references.`);
+                    }
+
+                    const expression = member as ts.PropertyAccessExpression;
+                    const type = expression.expression.getText();
+                    const name = expression.name;
+
+                    if (type != 'Users' && type != 'Groups') {
+                        this.throwErrorForNode(node, `User group members must be user or group references.`);
+                    }
+
+                    if (name.kind != ts.SyntaxKind.Identifier) {
+                        this.throwErrorForNode(node, `User group member names must be identifiers.`);
+                    }
+
+                    group.members.push({name: name.text, type})
+                }
+
+                this.userGroups[group.name] = group;
+            }
+        } else {
+            // Properties without an initializer default to being treated as users with no extensions
+            const user = principal as TWUser;
+            user.extensions = {};
+            this.users[user.name] = user;
         }
 
-        const property = {} as TWPropertyDefinition;
+        // Extract the permissions to be applied per user
+        this.runtimePermissions = this.mergePermissionListsForNode([this.runtimePermissions].concat(this.permissionsOfNode(node, node.name.text)), node);
+    }
+
+    /**
+     * Visits a user list property declaration.
+     * @param node      The node to visit.
+     */
+    visitDataShapeField(node: ts.PropertyDeclaration) {
+        const baseType = this.getTypeOfPropertyDeclaration(node);
+
+        const property = {} as TWDataShapeField;
         if (node.name.kind != ts.SyntaxKind.Identifier) {
             this.throwErrorForNode(node, `Computed property names are not supported in Thingwrox classes.`);
         }
@@ -1991,11 +3179,16 @@ Failed parsing at: \n${node.getText()}\n\n`);
         property.description = this.documentationOfNode(node);
 
         // Create the generic aspects, required for all properties
-        property.aspects = {
-            cacheTime: 0,
-            dataChangeType: TWPropertyDataChangeKind.Value,
-            dataChangeThreshold: 0
-        };
+        property.aspects = {};
+        if (this.hasDecoratorNamed('primaryKey', node)) {
+            property.aspects.isPrimaryKey = true;
+        }
+
+        const ordinal = this.numericArgumentOfDecoratorNamed('ordinal', node);
+        if (ordinal) {
+            if (!parseInt(ordinal)) this.throwErrorForNode(node, `Non numeric value specified in ordinal decorator for property ${property.name}: ${baseType}`);
+            property.ordinal = parseInt(ordinal);
+        }
 
         // Ensure that the base type is one of the Thingworx Base Types
         if (!(baseType in TWBaseTypes)) {
@@ -2011,6 +3204,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
 
                 if (typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
                     property.aspects.dataShape = ((typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                    this.entityReferences.push({entityKind: 'DataShape', entityName: property.aspects.dataShape, node: typeArguments[0]});
                 }
                 else {
                     property.aspects.dataShape = typeArguments[0].getText();
@@ -2041,7 +3235,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 // Const enums need to be resolved early on
                 property.aspects.defaultValue = this.constantValueOfExpression(node.initializer as ts.PropertyAccessExpression);
 
-                // If the value is not a compile time constant, it is not a valid initializer
+                // If the value is not a compile time constant, it is not a valod initializer
                 if (property.aspects.defaultValue === undefined) {
                     this.throwErrorForNode(node, `Unknown initializer for property.`);
                 }
@@ -2059,12 +3253,145 @@ Failed parsing at: \n${node.getText()}\n\n`);
             }
         }
 
-        // Aspects are specified as decorators
-        if (node.decorators) {
-            if (this.hasDecoratorNamed('persistent', node)) property.aspects.isPersistent = true;
-            if (this.hasDecoratorNamed('logged', node)) property.aspects.isLogged = true;
-        }
-
+        const permissions = this.permissionsOfNode(node);
+        if (Object.keys(permissions).length) {
+            this.throwErrorForNode(node, `Permission decorators are not allowed for data shape members.`);
+        }
+
+        this.fields.push(property);
+    }
+
+    /**
+     * For derived data shapes, extracts the names of the fields inherited from the base data shape
+     * and verifies that they don't collide with the fields declared by this data shape.
+     * @param heritage      The heritage clause type referencing the base data shape.
+     */
+    visitInheritedDataShapeFields(heritage: ts.ExpressionWithTypeArguments) {
+        const typeChecker = this.program.getTypeChecker();
+        const baseType = typeChecker.getTypeAtLocation(heritage);
+
+        this.inheritedFieldNames = typeChecker.getPropertiesOfType(baseType).map(p => p.name).filter(name => !name.startsWith('__'));
+
+        for (const member of this.classNode!.members) {
+            if (!member.name || member.name.kind != ts.SyntaxKind.Identifier) continue;
+
+            if (this.inheritedFieldNames.includes(member.name.text)) {
+                this.throwErrorForNode(member, `The field "${member.name.text}" is already defined by the base data shape "${this.baseDataShapeName}".`);
+            }
+        }
+    }
+
+    /**
+     * Visits a thing, thing template or thing shape property or event.
+     * @param node      The node to visit.
+     */
+    visitProperty(node: ts.PropertyDeclaration) {
+        const baseType = this.getTypeOfPropertyDeclaration(node);
+
+        // The special base type "EVENT" identifies properties that will be converted into events.
+        if (baseType == 'EVENT') {
+            return this.visitEvent(node);
+        }
+
+        const property = {} as TWPropertyDefinition;
+        if (node.name.kind != ts.SyntaxKind.Identifier) {
+            this.throwErrorForNode(node, `Computed property names are not supported in Thingwrox classes.`);
+        }
+
+        // First obtain the name of the property
+        property.name = node.name.text;
+
+        property.description = this.documentationOfNode(node);
+
+        // Create the generic aspects, required for all properties
+        property.aspects = {
+            cacheTime: 0,
+            dataChangeType: TWPropertyDataChangeKind.Value,
+            dataChangeThreshold: 0
+        };
+
+        // Ensure that the base type is one of the Thingworx Base Types
+        if (!(baseType in TWBaseTypes)) {
+            this.throwErrorForNode(node, `Unknown baseType for property ${property.name}: ${baseType}`);
+        }
+        property.baseType = TWBaseTypes[baseType];
+
+        // INFOTABLE can optionally take the data shape as a type argument
+        if (TWBaseTypes[baseType] == 'INFOTABLE') {
+            const typeArguments = (node.type as ts.TypeReferenceNode)?.typeArguments;
+            if (typeArguments) {
+                if (typeArguments.length != 1) this.throwErrorForNode(node, `Unknown generics specified for property ${property.name}: ${property.baseType}`);
+
+                if (typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
+                    property.aspects.dataShape = ((typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                    this.entityReferences.push({entityKind: 'DataShape', entityName: property.aspects.dataShape, node: typeArguments[0]});
+                }
+                else {
+                    property.aspects.dataShape = typeArguments[0].getText();
+                }
+            }
+        }
+        // THINGNAME can optionally take the thing template name and/or thing shape name as a type argument
+        else if (TWBaseTypes[baseType] == 'THINGNAME') {
+            const typeArguments = (node.type as ts.TypeReferenceNode)?.typeArguments;
+
+            if (typeArguments && typeArguments.length) {
+                if (typeArguments.length > 2) this.throwErrorForNode(node, `Unknown generics specified for property ${property.name}: ${property.baseType}`);
+
+                const thingTemplate = typeArguments[0];
+                if (thingTemplate.kind == ts.SyntaxKind.LiteralType) {
+                    property.aspects.thingTemplate = ((thingTemplate as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                }
+
+                const thingShape = typeArguments[1];
+                if (thingShape && thingShape.kind == ts.SyntaxKind.LiteralType) {
+                    property.aspects.thingShape = ((thingShape as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                }
+            }
+        }
+
+        if (node.initializer) {
+            if (node.initializer.kind == ts.SyntaxKind.PropertyAccessExpression) {
+                // Const enums need to be resolved early on
+                property.aspects.defaultValue = this.constantValueOfExpression(node.initializer as ts.PropertyAccessExpression);
+
+                // If the value is not a compile time constant, it is not a valid initializer
+                if (property.aspects.defaultValue === undefined) {
+                    this.throwErrorForNode(node, `Unknown initializer for property.`);
+                }
+            }
+            else if (ts.isNewExpression(node.initializer) && ts.isIdentifier(node.initializer.expression) && node.initializer.expression.escapedText == 'Date') {
+                if (node.initializer.arguments && node.initializer.arguments.length == 1 && ts.isStringLiteral(node.initializer.arguments[0])) {
+                    property.aspects.defaultValue = new Date(node.initializer.arguments[0].text).toISOString();
+                }
+                else {
+                    this.throwErrorForNode(node, 'Exactly one string literal argument is required when setting Date as default value.');
+                }
+            }
+            else {
+                property.aspects.defaultValue = (node.initializer as ts.LiteralExpression).text || node.initializer.getText();
+            }
+        }
+
+        // Default values that refer to media entities must refer to existing media entities
+        if (typeof property.aspects.defaultValue == 'string') {
+            if (property.baseType == 'MEDIAENTITYNAME') {
+                this.validateMediaEntityName(node, property.aspects.defaultValue);
+            }
+            else if (property.baseType == 'IMAGELINK') {
+                const mediaEntityURL = /^\/Thingworx\/MediaEntities\/([^/?#]+)/.exec(property.aspects.defaultValue);
+                if (mediaEntityURL) {
+                    this.validateMediaEntityName(node, decodeURIComponent(mediaEntityURL[1]));
+                }
+            }
+        }
+
+        // Aspects are specified as decorators
+        if (node.decorators) {
+            if (this.hasDecoratorNamed('persistent', node)) property.aspects.isPersistent = true;
+            if (this.hasDecoratorNamed('logged', node)) property.aspects.isLogged = true;
+        }
+
         // The readonly aspect uses the typescript built-in readonly keyword
         if (node.modifiers) {
             if (node.modifiers.some(modifier => modifier.kind == ts.SyntaxKind.ReadonlyKeyword)) property.aspects.isReadOnly = true;
@@ -2161,6 +3488,8 @@ Failed parsing at: \n${node.getText()}\n\n`);
 
             property.localBinding.sourceThingName = (localArguments[0] as ts.StringLiteral).text;
             property.localBinding.sourceName = (localArguments[1] as ts.StringLiteral).text;
+
+            this.entityReferences.push({entityKind: 'Thing', entityName: property.localBinding.sourceThingName, memberKind: 'Property', memberName: property.localBinding.sourceName, node: localArguments[1], entityNode: localArguments[0]});
         }
 
         // Minimum value aspect
@@ -2264,6 +3593,24 @@ Failed parsing at: \n${node.getText()}\n\n`);
         }
     }
 
+    /**
+     * Verifies that the given media entity name refers either to a file in the media folder of a project
+     * or to a media entity declared in the `MediaEntities` collection, and throws if it doesn't.
+     * @param node      The node referencing the media entity.
+     * @param name      The name of the media entity.
+     */
+    validateMediaEntityName(node: ts.Node, name: string) {
+        const store = this.store || global._TWEntities || {};
+        if (store['@mediaEntities']?.[name]) return;
+
+        // Media entities that aren't part of the project, such as the ones from dependencies, must be declared
+        const typeChecker = this.program.getTypeChecker();
+        const collection = typeChecker.getSymbolsInScope(node, ts.SymbolFlags.Interface).find(s => s.name == 'MediaEntities');
+        if (collection && typeChecker.getDeclaredTypeOfSymbol(collection).getProperty(name)) return;
+
+        this.throwErrorForNode(node, `The media entity "${name}" does not exist. Media entities must be added to the media folder or be declared in the MediaEntities collection.`);
+    }
+
     /**
      * Visits a property node that represents an event definition.
      * @param node      The node to visit.
@@ -2280,6 +3627,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
         if (typeNode.typeArguments && typeNode.typeArguments.length) {
             if (typeNode.typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
                 event.dataShape = ((typeNode.typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                this.entityReferences.push({entityKind: 'DataShape', entityName: event.dataShape, node: typeNode.typeArguments[0]});
             }
             else {
                 event.dataShape = typeNode.typeArguments[0].getText();
@@ -2315,11 +3663,37 @@ Failed parsing at: \n${node.getText()}\n\n`);
         return node?.comment as string;
     }
 
+    /**
+     * Visits a method that is private or has the `@helper` decorator applied. Helper methods are not emitted as
+     * services; instead they are compiled into local functions that are copied into the services and subscriptions
+     * that call them.
+     * @param node      The node to visit.
+     */
+    visitHelperMethod(node: ts.MethodDeclaration): ts.MethodDeclaration {
+        if (node.name.kind != ts.SyntaxKind.Identifier) this.throwErrorForNode(node, 'Helper method names cannot be computed property names.');
+
+        for (const decorator of ['subscription', 'localSubscription', 'remoteService', 'SQLCommand', 'SQLQuery', 'deploy', 'exported']) {
+            if (this.hasDecoratorNamed(decorator, node)) {
+                this.throwErrorForNode(node, `The @${decorator} decorator cannot be applied to helper methods.`);
+            }
+        }
+
+        if (!node.body) {
+            this.throwErrorForNode(node, `The helper method "${node.name.text}" must have a body.`);
+        }
+
+        return node;
+    }
+
     /**
      * Visits a service or subscription definition.
      * @param node      The node to visit.
      */
     visitMethod(node: ts.MethodDeclaration): ts.MethodDeclaration {
+        if (isHelperMethodDeclaration(node)) {
+            return this.visitHelperMethod(node);
+        }
+
         if (this.hasDecoratorNamed('subscription', node) || this.hasDecoratorNamed('localSubscription', node)) {
             return this.visitSubscription(node);
         }
@@ -2327,7 +3701,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
         const service = {
             aspects: {},
             '@globalFunctions': new Set,
-            '@methodHelpers': new Set
+            '@methodHelpers': new Set,
+            '@bundledImports': new Map,
+            '@polyfills': new Set
         } as TWServiceDefinition;
         if (node.modifiers) for (const modifier of node.modifiers) {
             if (modifier.kind == ts.SyntaxKind.AsyncKeyword) {
@@ -2416,7 +3792,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
         }
         else {
             service.code = node.body!.getText();
-            if (this.debug) {
+            service['@traced'] = this.isTracedMethod(node);
+
+            if (this.debug || this.coverage) {
                 this.debugMethodNodes.set(node, service);
             }
             else {
@@ -2528,6 +3906,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
 
                         if (typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
                             parameter.aspects.dataShape = ((typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                            this.entityReferences.push({entityKind: 'DataShape', entityName: parameter.aspects.dataShape, node: typeArguments[0]});
                         }
                         else {
                             parameter.aspects.dataShape = typeArguments[0].getText();
@@ -2611,6 +3990,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
     
                         if (typeArguments[0].kind == ts.SyntaxKind.LiteralType) {
                             service.resultType.aspects.dataShape = ((typeArguments[0] as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                            this.entityReferences.push({entityKind: 'DataShape', entityName: service.resultType.aspects.dataShape, node: typeArguments[0]});
                         }
                         else {
                             service.resultType.aspects.dataShape = typeArguments[0].getText();
@@ -2622,6 +4002,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 else if (TWBaseTypes[baseType] == 'THINGNAME') {
                     const typeNode = node.type! as ts.NodeWithTypeArguments;
                     service.resultType.aspects = service.resultType.aspects || {};
+                    if (typeNode.typeArguments?.length) {
+                        this.reportWarningForNode(typeNode, `The type arguments of THINGNAME are not supported by Thingworx in service results and will be ignored.`);
+                    }
                 }
                 service.resultType.baseType = TWBaseTypes[baseType];
             }
@@ -2863,6 +4246,28 @@ Failed parsing at: \n${node.getText()}\n\n`);
         return result;
     }
 
+    /**
+     * Returns whether the given service or subscription method should be instrumented in profiled builds,
+     * based on the `@traced` and `@untraced` decorators applied to it or to its class.
+     * @param node      The method node.
+     * @returns         `true` if the method should be instrumented, `false` otherwise.
+     */
+    isTracedMethod(node: ts.MethodDeclaration): boolean {
+        if (!this.profile) return false;
+
+        if (this.hasDecoratorNamed('traced', node) && this.hasDecoratorNamed('untraced', node)) {
+            this.throwErrorForNode(node, 'A method cannot have both the "traced" and "untraced" decorators applied.');
+        }
+
+        // Decorators applied to the method take precedence over the ones applied to the class
+        for (const target of [node, node.parent]) {
+            if (this.hasDecoratorNamed('traced', target)) return true;
+            if (this.hasDecoratorNamed('untraced', target)) return false;
+        }
+
+        return !this.profile.tracedOnly;
+    }
+
     /**
      * Visits a method declaration that represents a subscription definition.
      * @param node      The node to visit.
@@ -2872,7 +4277,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
             source: '',
             sourceProperty: '',
             '@globalFunctions': new Set,
-            '@methodHelpers': new Set
+            '@methodHelpers': new Set,
+            '@bundledImports': new Map,
+            '@polyfills': new Set
         } as TWSubscriptionDefinition;
         subscription.enabled = true;
 
@@ -2902,6 +4309,13 @@ Failed parsing at: \n${node.getText()}\n\n`);
             if (subscription.eventName == 'DataChange') {
                 subscription.sourceProperty = (localArguments[1] as ts.StringLiteral).text;
             }
+
+            // Local subscriptions refer to this entity's own members
+            const entityKind = this.entityKind as TWEntityKind.Thing | TWEntityKind.ThingTemplate | TWEntityKind.ThingShape;
+            this.entityReferences.push({entityKind, entityName: this.exportedName!, memberKind: 'Event', memberName: subscription.eventName, node: localArguments[0]});
+            if (subscription.sourceProperty) {
+                this.entityReferences.push({entityKind, entityName: this.exportedName!, memberKind: 'Property', memberName: subscription.sourceProperty, node: localArguments[1]});
+            }
         }
         else {
             subscription.sourceType = TWSubscriptionSourceKind.Thing;
@@ -2917,6 +4331,11 @@ Failed parsing at: \n${node.getText()}\n\n`);
             if (subscription.eventName == 'DataChange') {
                 subscription.sourceProperty = (localArguments[2] as ts.StringLiteral).text;
             }
+
+            this.entityReferences.push({entityKind: 'Thing', entityName: subscription.source, memberKind: 'Event', memberName: subscription.eventName, node: localArguments[1], entityNode: localArguments[0]});
+            if (subscription.sourceProperty) {
+                this.entityReferences.push({entityKind: 'Thing', entityName: subscription.source, memberKind: 'Property', memberName: subscription.sourceProperty, node: localArguments[2], entityNode: localArguments[0]});
+            }
         }
 
         subscription.code = node.body!.getText();
@@ -2930,7 +4349,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
             this.throwErrorForNode(node, `The @deploy decorator cannot be used on subscriptions.`);
         }
 
-        if (this.debug) {
+        subscription['@traced'] = this.isTracedMethod(node);
+
+        if (this.debug || this.coverage) {
             this.debugMethodNodes.set(node, subscription);
         }
         else {
@@ -2982,24 +4403,40 @@ Failed parsing at: \n${node.getText()}\n\n`);
         const transformer: TWCodeTransformer = {
             _debugBreakpointCounter: debugInformation._debugBreakpointCounter,
             debug: this.debug,
+            coverage: this.coverage,
+            sourceMaps: this.sourceMaps,
+            bundleDependencies: this.bundleDependencies,
+            rhinoCompatibility: this.rhinoCompatibility,
+            minimumThingWorxVersion: this.minimumThingWorxVersion,
+            collectDiagnostics: this.collectDiagnostics,
+            diagnostics: this.diagnostics,
             breakpointLocations: debugInformation.breakpointLocations,
             breakpoints: debugInformation.breakpoints,
             context: this.context,
             nodeReplacementMap: new WeakMap,
             program: this.program,
             repoPath: this.repoPath,
+            projectName: this.projectName,
+            isAutoProject: this.isAutoProject,
             filename: source.fileName,
             globalFunctionsEnabled: this.globalFunctionsEnabled,
+            globalFunctionsLibrary: this.globalFunctionsLibrary,
             sourceFile: source,
             store: this.store,
             codeTransformerForSource: this.codeTransformerForSource,
             commaCheckpointExpression: this.commaCheckpointExpression,
             constantValueOfExpression: this.constantValueOfExpression,
             debugCheckpointExpression: this.debugCheckpointExpression,
+            globalFunctionNameOfDeclaration: this.globalFunctionNameOfDeclaration,
             compileGlobalFunction: this.compileGlobalFunction,
             evaluateGlobalCallExpression: this.evaluateGlobalCallExpression,
+            evaluateHelperMethodAccess: this.evaluateHelperMethodAccess,
+            evaluateBundledImportIdentifier: this.evaluateBundledImportIdentifier,
+            evaluateRhinoCompatibility: this.evaluateRhinoCompatibility,
             evaluateGlobalFunctionNode: this.evaluateGlobalFunctionNode,
             throwErrorForNode: this.throwErrorForNode,
+            recordDiagnosticForNode: this.recordDiagnosticForNode,
+            recoverDiagnostics: this.recoverDiagnostics,
             visitCodeNode: this.visitCodeNode,
             visitDebugMethodNode: this.visitDebugMethodNode,
             visitGlobalFunctionNode: this.visitGlobalFunctionNode,
@@ -3010,22 +4447,70 @@ Failed parsing at: \n${node.getText()}\n\n`);
     }
 
     /**
-     * Compiles the given global function, storing the result in the global store.
-     * @param fn        The function to compile.
+     * Returns the name under which the given global function declaration is inlined. Functions declared in script
+     * files keep their name, while the names of functions declared in modules are prefixed with the module's path
+     * so that functions with the same name in different modules don't collide.
+     * @param declaration       The function declaration.
+     * @returns                 The function's name.
+     */
+    globalFunctionNameOfDeclaration(this: TWCodeTransformer, declaration: ts.FunctionDeclaration): string {
+        const name = declaration.name!.text;
+        const sourceFile = declaration.getSourceFile();
+        if (!ts.isExternalModule(sourceFile)) return name;
+
+        const modulePath = path.relative(this.repoPath, path.normalize(sourceFile.fileName)).replace(/\.tsx?$/, '');
+        return `${modulePath.replace(NonAlphanumericRegexGlobal, '_')}$${name}`;
+    }
+
+    /**
+     * Compiles the given global function or helper method, storing the result in the global store.
+     * Helper methods are compiled into functions named after their class and called with the object
+     * through which the method was called as their `this` value.
+     * @param fn        The function or helper method to compile.
      */
-    compileGlobalFunction(this: TWCodeTransformer, functionDeclaration: ts.FunctionDeclaration): void {
-        const name = functionDeclaration.name!.text;
+    compileGlobalFunction(this: TWCodeTransformer, functionDeclaration: ts.FunctionDeclaration | ts.MethodDeclaration): void {
+        const declaredName = (functionDeclaration.name as ts.Identifier).text;
         const sourceFile = functionDeclaration.getSourceFile();
         const filename = sourceFile.fileName
 
-        if (!this.store['@globalFunctions']?.[name]) {
+        let name: string;
+        let className: string | undefined;
+        if (ts.isMethodDeclaration(functionDeclaration)) {
+            className = (functionDeclaration.parent as ts.ClassDeclaration).name!.text;
+            name = `${className}$${declaredName}`;
+        }
+        else {
+            name = this.globalFunctionNameOfDeclaration(functionDeclaration);
+        }
+
+        const existingFunction = this.store['@globalFunctions']?.[name];
+        if (existingFunction && existingFunction.filename != filename) {
+            this.throwErrorForNode(functionDeclaration, `The global function "${name}" is also declared in "${existingFunction.filename}". Rename one of the functions or declare them in modules.`);
+        }
+
+        if (!existingFunction) {
             const fn = {
+                name,
                 filename,
                 dependencies: new Set,
                 methodHelperDependencies: new Set,
+                polyfills: new Set,
+                node: functionDeclaration,
                 sourceFile
             } as GlobalFunction;
 
+            // Helper methods are never compiled into libraries, because they belong to their class
+            if (className) {
+                fn.className = className;
+            }
+            else if (this.globalFunctionsLibrary) {
+                fn.projectName = projectNameOfGlobalFunction(this, functionDeclaration as ts.FunctionDeclaration);
+            }
+
+            // Save the function before compiling it, so that recursive references don't compile it again
+            this.store['@globalFunctions'] = this.store['@globalFunctions'] || {};
+            this.store['@globalFunctions'][name] = fn;
+
             let compiledCode: string | undefined;
             let transformedNode: ts.Node = functionDeclaration;
 
@@ -3034,9 +4519,72 @@ Failed parsing at: \n${node.getText()}\n\n`);
             // Create a transformer for the function's source file
             const transformer = this.codeTransformerForSource(sourceFile);
 
+            // Helper methods are usually compiled while this transformer visits their file, so they continue from
+            // its breakpoints to avoid reusing their identifiers
+            if (sourceFile == this.sourceFile) {
+                Object.assign(transformer, {
+                    _debugBreakpointCounter: this._debugBreakpointCounter,
+                    breakpointLocations: this.breakpointLocations,
+                    breakpoints: this.breakpoints
+                });
+            }
+
+            // The function is compiled from its text, outside of the program, so its references are resolved
+            // beforehand through the type checker; this also discovers the functions imported from other modules,
+            // whose calls must be renamed to the names under which they are inlined
+            const dependencies = new Set<string>();
+            const renamedFunctions = new Map<string, string>([[declaredName, name]]);
+            const renamedHelperMethods = new Map<string, string>();
+            const resolveReferences = (node: ts.Node) => {
+                if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && this.globalFunctionsEnabled) {
+                    const dependency = transformer.evaluateGlobalCallExpression(node);
+                    if (dependency) {
+                        dependencies.add(dependency.name);
+
+                        // Helper methods are copied into services, from which library functions are called through their library
+                        const library = className && dependency.projectName !== undefined ? globalFunctionLibraryIdentifierOfProject(dependency.projectName) : undefined;
+                        renamedFunctions.set(node.expression.text, library ? `${library}.${dependency.name}` : dependency.name);
+                    }
+                }
+                else if (ts.isPropertyAccessExpression(node) && className) {
+                    const dependency = transformer.evaluateHelperMethodAccess(node);
+                    if (dependency) {
+                        dependencies.add(dependency.name);
+                        renamedHelperMethods.set(node.name.text, dependency.name);
+                    }
+                }
+                ts.forEachChild(node, resolveReferences);
+            };
+            ts.forEachChild(functionDeclaration, resolveReferences);
+
+            // The function is checked before it is compiled, so that the nodes using polyfilled builtins can be replaced;
+            // its polyfills are added to the services that call it or to its library
+            const polyfilledNodes = new Map<string, string>();
+            if (this.rhinoCompatibility) {
+                const evaluateRhinoCompatibility = (node: ts.Node) => {
+                    ts.forEachChild(node, evaluateRhinoCompatibility);
+                    const polyfill = this.evaluateRhinoCompatibility(node, fn.polyfills);
+                    if (polyfill) polyfilledNodes.set(positionKeyOfNode(node), polyfill);
+                };
+                evaluateRhinoCompatibility(functionDeclaration);
+            }
+
+            // The function is compiled from a copy of its source file in which the code before it is replaced by whitespace,
+            // so that its nodes have the same positions as in the source file, which are used by breakpoints and source maps
+            const start = className ? functionDeclaration.name!.getStart() : functionDeclaration.getStart();
+            let padding = sourceFile.text.substring(0, start).replace(/[^\r\n]/g, ' ');
+
+            // Helper methods are compiled from their name onwards, so they are converted into function declarations
+            // by writing the function keyword into the whitespace closest to their name
+            if (className) {
+                const keyword = functionDeclaration.asteriskToken ? 'function*' : 'function';
+                const index = padding.lastIndexOf(' '.repeat(keyword.length + 1));
+                padding = index == -1 ? `${keyword} ${padding}` : padding.substring(0, index) + keyword + padding.substring(index + keyword.length);
+            }
+
             // Build and transform the function
             ts.transpileModule(
-                sourceFile.text.substring(functionDeclaration.getStart(), functionDeclaration.getEnd()),
+                padding + sourceFile.text.substring(start, functionDeclaration.getEnd()),
                 {
                     compilerOptions: this.program.getCompilerOptions(),
                     transformers: {
@@ -3045,12 +4593,19 @@ Failed parsing at: \n${node.getText()}\n\n`);
                                 // Perform standard replacements in the before phase
                                 return ts.visitEachChild(node, (node) => {
                                     if (node.kind == ts.SyntaxKind.FunctionDeclaration) {
-                                        if (this.debug) {
-                                            return transformer.visitDebugMethodNode(node, fn) as ts.FunctionDeclaration;
+                                        if (this.debug || this.coverage) {
+                                            node = transformer.visitDebugMethodNode(node, fn) as ts.FunctionDeclaration;
                                         }
                                         else {
-                                            return transformer.visitGlobalFunctionNode(node, fn) as ts.FunctionDeclaration;
+                                            node = transformer.visitGlobalFunctionNode(node, fn) as ts.FunctionDeclaration;
+                                        }
+
+                                        if (polyfilledNodes.size) {
+                                            node = polyfilledNodesOfNode(node, polyfilledNodes, context);
                                         }
+
+                                        // Calls to helper methods are replaced before "this" is renamed during transpilation
+                                        return renamedHelperMethods.size ? renamedHelperMethodCallsOfNode(node, renamedHelperMethods, context) : node;
                                     }
                                 }, context);
                             }
@@ -3065,11 +4620,19 @@ Failed parsing at: \n${node.getText()}\n\n`);
                                 // In the after phase, find the compiled function and save its code
                                 return ts.visitEachChild(node, (node) => {
                                     if (node.kind == ts.SyntaxKind.FunctionDeclaration) {
-                                        const declaration = node as ts.FunctionDeclaration;
-                                        if (declaration.name?.text == name) {
+                                        if ((node as ts.FunctionDeclaration).name?.text == declaredName) {
+                                            // Rename the function and its calls to other functions to the names under which they are inlined
+                                            const declaration = renamedCallsOfFunction(node as ts.FunctionDeclaration, renamedFunctions, context);
+
                                             // Print and save the compiled function
-                                            compiledCode = ts.createPrinter().printNode(ts.EmitHint.Unspecified, node, compiledSourceFile) + '\n';
-                                            transformedNode = node;
+                                            compiledCode = ts.createPrinter().printNode(ts.EmitHint.Unspecified, declaration, compiledSourceFile) + '\n';
+                                            transformedNode = declaration;
+
+                                            // The compiled source has the same positions as the actual source file, so only the source is replaced
+                                            if (this.sourceMaps) {
+                                                fn.compiledCodeMappings = mappedCodeOfNode(declaration, compiledSourceFile).mappings
+                                                    .map(line => line.map(mapping => ({...mapping, source: filename})));
+                                            }
                                         }
                                     }
                                     return node;
@@ -3080,8 +4643,8 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 }
             );
 
-            // In debug mode, update the stored debugger state
-            if (this.debug) {
+            // In debug and coverage mode, update the stored debugger state
+            if (this.debug || this.coverage) {
                 this.store['@debugInformation']![filename]._debugBreakpointCounter = transformer._debugBreakpointCounter;
             }
 
@@ -3091,12 +4654,14 @@ Failed parsing at: \n${node.getText()}\n\n`);
             }
 
             // Save the transformation result
-            fn.node = functionDeclaration;
+            fn.name = name;
+            fn.dependencies = dependencies;
             fn.compiledCode = compiledCode;
 
-            
-            this.store['@globalFunctions'] = this.store['@globalFunctions'] || {};
-            this.store['@globalFunctions'][name] = fn;
+            // Library functions are not copied into services, so the method helpers are not available to them
+            if (fn.projectName !== undefined && fn.methodHelperDependencies.size) {
+                this.throwErrorForNode(functionDeclaration, `Global functions compiled into a library cannot use method helpers.`);
+            }
         }
     }
 
@@ -3141,7 +4706,7 @@ Failed parsing at: \n${node.getText()}\n\n`);
                     // Otherwise get the source and name, and add it as a dependency of this function
                     const sourceFile = declaration.getSourceFile();
                     const filename = path.normalize(sourceFile.fileName);
-                    const name = functionDeclaration.name?.text;
+                    const name = functionDeclaration.name && this.globalFunctionNameOfDeclaration(functionDeclaration);
 
                     // Validate that the source is part of the repo; in multi project mode
                     // this can also be a global function declared in a different project
@@ -3157,13 +4722,148 @@ Failed parsing at: \n${node.getText()}\n\n`);
                             }
                         }
 
-                        return {name};
+                        return this.globalFunctionsLibrary ? {name, projectName: projectNameOfGlobalFunction(this, functionDeclaration)} : {name};
                     }
                 }
             }
         }
     }
 
+    /**
+     * Evaluates the given property access expression, returning a reference to the local function
+     * of the helper method it refers to, if any. Because helper methods are not services, they can
+     * only be called directly through `this` or `me`.
+     * @param expression        The expression to evaluate.
+     * @returns                 A function reference if this refers to a helper method,
+     *                          `undefined` otherwise.
+     */
+    evaluateHelperMethodAccess(this: TWCodeTransformer, expression: ts.PropertyAccessExpression): GlobalFunctionReference | undefined {
+        if (!isHelperMethodReceiver(expression.expression)) return;
+
+        const symbol = this.program.getTypeChecker().getSymbolAtLocation(expression.name);
+        const declaration = symbol?.declarations?.find(d => ts.isMethodDeclaration(d) && !!d.body) as ts.MethodDeclaration | undefined;
+        if (!declaration || !isHelperMethodDeclaration(declaration)) return;
+
+        // The method must be declared in a thing class that is part of the repo
+        const classDeclaration = declaration.parent;
+        if (!ts.isClassDeclaration(classDeclaration) || !classDeclaration.name || !ts.isIdentifier(declaration.name)) return;
+        if (!path.normalize(declaration.getSourceFile().fileName).startsWith(this.repoPath)) return;
+
+        // The original node is used because the expression may have already been transformed
+        const originalNode = (ts.getParseTreeNode(expression) || expression) as ts.PropertyAccessExpression;
+        const parent = originalNode.parent;
+        if (!parent || !ts.isCallExpression(parent) || parent.expression != originalNode) {
+            this.throwErrorForNode(originalNode, `The helper method "${declaration.name.text}" can only be called directly.`);
+        }
+
+        const name = `${classDeclaration.name.text}$${declaration.name.text}`;
+
+        // Like global functions declared in other files, helper methods are compiled when they are first referenced
+        if (!this.store['@globalFunctions']?.[name]) {
+            this.compileGlobalFunction(declaration);
+        }
+
+        return {name};
+    }
+
+    /**
+     * Evaluates the given identifier, returning the npm package import it refers to, if any. This
+     * returns `undefined` for identifiers that are used as types.
+     * @param identifier        The identifier to evaluate.
+     * @returns                 The import if the identifier refers to a value imported from a package,
+     *                          `undefined` otherwise.
+     */
+    evaluateBundledImportIdentifier(this: TWCodeTransformer, identifier: ts.Identifier): TWBundledImport | undefined {
+        // Type references don't emit any code, so they don't require their package
+        for (let node: ts.Node = identifier; node.parent; node = node.parent) {
+            if (ts.isTypeNode(node)) return;
+        }
+
+        const symbol = this.program.getTypeChecker().getSymbolAtLocation(identifier);
+        if (!symbol || !(symbol.flags & ts.SymbolFlags.Alias)) return;
+
+        const declaration = symbol.declarations?.[0];
+        if (!declaration) return;
+
+        let name: string;
+        if (ts.isImportSpecifier(declaration)) {
+            name = (declaration.propertyName || declaration.name).text;
+        }
+        else if (ts.isImportClause(declaration)) {
+            name = 'default';
+        }
+        else if (ts.isNamespaceImport(declaration)) {
+            name = '*';
+        }
+        else {
+            return;
+        }
+
+        const importDeclaration = ts.findAncestor(declaration, ts.isImportDeclaration);
+        if (!importDeclaration || importDeclaration.importClause?.isTypeOnly || !ts.isStringLiteral(importDeclaration.moduleSpecifier)) return;
+
+        // Relative imports refer to the project's own modules, whose functions are inlined as global functions
+        const specifier = importDeclaration.moduleSpecifier.text;
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) return;
+
+        const bundledImport = {specifier, name, containingFile: declaration.getSourceFile().fileName, variable: variableNameOfBundledImport(specifier, name)};
+
+        // Verify that the export can be found, so that missing packages are reported at the reference
+        try {
+            declarationOfBundledImport(bundledImport);
+        }
+        catch (e) {
+            this.throwErrorForNode(identifier, (e as Error).message);
+        }
+
+        return bundledImport;
+    }
+
+    /**
+     * Verifies that the given node of a service or subscription doesn't use a builtin or syntax that is not supported by
+     * the Rhino engine. When polyfills are enabled, the builtin functions that have them are added to the given polyfills
+     * instead, and the nodes that use them must be replaced with `polyfilledNodeOfFeature`. When diagnostics are collected,
+     * the unsupported features are recorded without interrupting the transformation.
+     * @param node          The node to evaluate.
+     * @param polyfills     The polyfills of the service, subscription or global function containing the node.
+     * @returns             The name of the polyfilled builtin function that the node uses, if it must be replaced.
+     */
+    evaluateRhinoCompatibility(this: TWCodeTransformer, node: ts.Node, polyfills: Set<string>): string | undefined {
+        const options = this.rhinoCompatibility!;
+
+        // Nodes that were already transformed are evaluated through the nodes they were created from
+        const originalNode = ts.getParseTreeNode(node);
+        if (!originalNode) return;
+
+        // The destructured parameters of services are converted into service parameters
+        if (ts.findAncestor(originalNode, n => ts.isParameter(n) && ts.isMethodDeclaration(n.parent))) return;
+
+        // Calls to polyfilled prototype methods are replaced as a whole, after their callee has been evaluated
+        if (ts.isCallExpression(originalNode) && ts.isPropertyAccessExpression(originalNode.expression)) {
+            const feature = rhinoFeatureOfNode(originalNode.expression, this.program);
+            if (feature?.includes('.prototype.') && polyfills.has(feature)) return feature;
+        }
+
+        const feature = rhinoFeatureOfNode(originalNode, this.program);
+        if (!feature || options.allow?.includes(feature)) return;
+
+        let error = `"${feature}" is not supported by the Rhino engine of ThingWorx. If your ThingWorx version supports it, add it to the "allow" list of the "rhinoCompatibility" option.`;
+        if (options.polyfills && RhinoFeatures[feature].polyfill) {
+            // Static functions are replaced directly, while prototype methods need the object on which they are called
+            const isPrototypeMethod = feature.includes('.prototype.');
+            const parent = originalNode.parent;
+            if (!isPrototypeMethod || (ts.isCallExpression(parent) && parent.expression == originalNode && !ts.isOptionalChain(parent))) {
+                polyfills.add(feature);
+                return isPrototypeMethod ? undefined : feature;
+            }
+
+            error = `"${feature}" is not supported by the Rhino engine of ThingWorx and can only be polyfilled when it is called directly.`;
+        }
+
+        // Every unsupported feature is reported, leaving the node unchanged so that the rest of the method can be transformed
+        this.recoverDiagnostics(() => this.throwErrorForNode(originalNode, error), undefined);
+    }
+
     /**
      * Evaluates the given node that is part of a global function and, if appropriate,
      * extracts information out of it into the given global function object.
@@ -3272,6 +4972,12 @@ Failed parsing at: \n${node.getText()}\n\n`);
     visitMethodNode(this: TWCodeTransformer, node: ts.Node, service?: TWServiceDefinition | TWSubscriptionDefinition): ts.Node | undefined {
         node = ts.visitEachChild(node, n => this.visitMethodNode(n, service), this.context);
 
+        if (service && this.rhinoCompatibility) {
+            // Polyfilled builtin functions are replaced by their polyfills
+            const polyfill = this.evaluateRhinoCompatibility(node, service['@polyfills']);
+            if (polyfill) return polyfilledNodeOfFeature(node, polyfill);
+        }
+
         // If the node has been marked for replacement, return its replacement directly
         if (this.nodeReplacementMap.get(node)) {
             return this.nodeReplacementMap.get(node)!;
@@ -3290,6 +4996,15 @@ Failed parsing at: \n${node.getText()}\n\n`);
             case ts.SyntaxKind.CallExpression:
                 const n11 = node as ts.CallExpression;
 
+                // Calls to helper methods are replaced by calls to their local functions, which are inlined afterwards
+                if (service && ts.isPropertyAccessExpression(n11.expression)) {
+                    const helperMethod = this.evaluateHelperMethodAccess(n11.expression);
+                    if (helperMethod) {
+                        service['@globalFunctions'].add(helperMethod.name);
+                        return callOfHelperMethod(n11, helperMethod.name);
+                    }
+                }
+
                 // If global functions are not enabled, there's no need to inline global functions
                 if (!this.globalFunctionsEnabled) return node;
 
@@ -3298,10 +5013,26 @@ Failed parsing at: \n${node.getText()}\n\n`);
                     const dependency = this.evaluateGlobalCallExpression(n11);
                     if (dependency) {
                         service['@globalFunctions'].add(dependency.name);
+
+                        // In library mode, the function is called through the library of the project that declares it
+                        if (dependency.projectName !== undefined) {
+                            const library = ts.factory.createIdentifier(globalFunctionLibraryIdentifierOfProject(dependency.projectName));
+                            const callee = ts.factory.createPropertyAccessExpression(library, dependency.name);
+                            return ts.factory.updateCallExpression(n11, callee, n11.typeArguments, n11.arguments);
+                        }
+
+                        // Functions declared in modules are inlined under a different name
+                        if ((n11.expression as ts.Identifier).text != dependency.name) {
+                            return ts.factory.updateCallExpression(n11, ts.factory.createIdentifier(dependency.name), n11.typeArguments, n11.arguments);
+                        }
                     }
                 }
 
                 return node;
+            case ts.SyntaxKind.PropertyAccessExpression:
+                // Helper methods can only be called, which is verified when evaluating them
+                if (service) this.evaluateHelperMethodAccess(node as ts.PropertyAccessExpression);
+                break;
             case ts.SyntaxKind.Identifier:
                 // For identifiers, verify if they represent helper names and if they do add them
                 // as dependencies
@@ -3309,6 +5040,15 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 if (MethodHelperIdentifiers.includes(identifier.text)) {
                     service?.['@methodHelpers'].add(identifier.text);
                 }
+
+                // References to package exports are replaced by the variables under which they are bundled
+                if (service && this.bundleDependencies) {
+                    const bundledImport = this.evaluateBundledImportIdentifier(identifier);
+                    if (bundledImport) {
+                        service['@bundledImports'].set(bundledImport.variable, bundledImport);
+                        return ts.factory.createIdentifier(bundledImport.variable);
+                    }
+                }
         }
 
         return node;
@@ -3326,6 +5066,12 @@ Failed parsing at: \n${node.getText()}\n\n`);
     visitDebugMethodNode(this: TWCodeTransformer, node: ts.Node, fn?: GlobalFunction, service?: TWServiceDefinition | TWSubscriptionDefinition): ts.Node | undefined {
         node = ts.visitEachChild(node, n => this.visitDebugMethodNode(n, fn, service), this.context);
 
+        if (service && this.rhinoCompatibility) {
+            // Polyfilled builtin functions are replaced by their polyfills
+            const polyfill = this.evaluateRhinoCompatibility(node, service['@polyfills']);
+            if (polyfill) return polyfilledNodeOfFeature(node, polyfill);
+        }
+
         // If this visits global function nodes, evaluate the node to extract information about the function.
         if (fn) {
             this.evaluateGlobalFunctionNode(node, fn);
@@ -3385,40 +5131,68 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 const n10 = node as ts.ReturnStatement;
                 return ts.factory.createReturnStatement(n10.expression ? this.commaCheckpointExpression(n10.expression) : this.commaCheckpointExpression(undefined, n10));
             case ts.SyntaxKind.CallExpression:
-                const n11 = node as ts.CallExpression;
+                let n11 = node as ts.CallExpression;
 
+                // Calls to helper methods are replaced by calls to their local functions, which are inlined afterwards
+                const helperMethod = service && ts.isPropertyAccessExpression(n11.expression) ? this.evaluateHelperMethodAccess(n11.expression) : undefined;
+                if (helperMethod) {
+                    service!['@globalFunctions'].add(helperMethod.name);
+                    n11 = callOfHelperMethod(n11, helperMethod.name);
+                }
                 // If a service is specified, add references to global functions to it so that they can be inlined afterwards
-                if (service && this.globalFunctionsEnabled) {
+                else if (service && this.globalFunctionsEnabled) {
                     const dependency = this.evaluateGlobalCallExpression(n11);
                     if (dependency) {
                         service['@globalFunctions'].add(dependency.name);
+
+                        // Functions declared in modules are inlined under a different name
+                        if ((n11.expression as ts.Identifier).text != dependency.name) {
+                            n11 = ts.factory.updateCallExpression(n11, ts.factory.createIdentifier(dependency.name), n11.typeArguments, n11.arguments);
+                        }
                     }
                 }
 
-                if (n11.parent) {
-                    switch (n11.parent.kind) {
+                // The renamed call expression has no parent, so the original node is used to find it
+                if (node.parent) {
+                    switch (node.parent.kind) {
                         case ts.SyntaxKind.PropertyDeclaration:
                         case ts.SyntaxKind.VariableDeclaration:
                         case ts.SyntaxKind.ExpressionStatement:
                             return n11;
                         case ts.SyntaxKind.BinaryExpression:
-                            const parent = n11.parent as ts.BinaryExpression;
-                            if (parent.right == n11 && parent.operatorToken.kind == ts.SyntaxKind.EqualsToken) {
+                            const parent = node.parent as ts.BinaryExpression;
+                            if (parent.right == node && parent.operatorToken.kind == ts.SyntaxKind.EqualsToken) {
                                 return n11;
                             }
                     }
                 }
                 return this.commaCheckpointExpression(n11);
+            case ts.SyntaxKind.PropertyAccessExpression:
+                // Helper methods can only be called, which is verified when evaluating them
+                if (service) this.evaluateHelperMethodAccess(node as ts.PropertyAccessExpression);
+                break;
             case ts.SyntaxKind.Identifier:
                 const n12 = node as ts.Identifier;
                 if (n12.text == '__d') {
                     this.throwErrorForNode(node, `The "__d" identifier is reserved for the debugger in debug builds.`);
                 }
+                if (n12.text == '__c' && this.coverage) {
+                    this.throwErrorForNode(node, `The "__c" identifier is reserved for the coverage counters in coverage builds.`);
+                }
                 // For identifiers, verify if they represent helper names and if they do add them
                 // as dependencies
                 if (MethodHelperIdentifiers.includes(n12.text)) {
                     service?.['@methodHelpers'].add(n12.text);
                 }
+
+                // References to package exports are replaced by the variables under which they are bundled
+                if (service && this.bundleDependencies) {
+                    const bundledImport = this.evaluateBundledImportIdentifier(n12);
+                    if (bundledImport) {
+                        service['@bundledImports'].set(bundledImport.variable, bundledImport);
+                        return ts.factory.createIdentifier(bundledImport.variable);
+                    }
+                }
         }
 
         return node;
@@ -3430,14 +5204,16 @@ Failed parsing at: \n${node.getText()}\n\n`);
     _debugBreakpointCounter = 0;
 
     /**
-     * Returns an expression that represents a debug checkpoint.
+     * Returns an expression that represents a debug checkpoint. In coverage builds, the checkpoint
+     * increments the hit counter of its location instead of invoking the debugger.
      * @param ID            A unique ID that identifies this expression.
      * @returns             A typescript expression.
      */
     debugCheckpointExpression(this: TWCodeTransformer, ID: string): ts.Expression {
-        // Essentially returns __d.checkpoint(ID)
+        // Essentially returns __d.checkpoint(ID) or __c.checkpoint(ID)
+        const receiver = !this.debug && this.coverage ? '__c' : '__d';
         return ts.factory.createCallExpression(
-            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier('__d'), 'checkpoint'),
+            ts.factory.createPropertyAccessExpression(ts.factory.createIdentifier(receiver), 'checkpoint'),
             [], 
             [ts.factory.createStringLiteral(ID, true)]
         );
@@ -3553,6 +5329,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
                 // If the function doesn't exist in the store, don't inline it
                 if (!globalFunction) continue;
 
+                // Library functions are not copied into the method, so their dependencies are not needed
+                if (globalFunction.projectName !== undefined) continue;
+
                 // If any new dependencies are added here, they will be processed in the next loop
                 for (const dependency of globalFunction.dependencies) {
                     method['@globalFunctions'].add(dependency);
@@ -3562,6 +5341,10 @@ Failed parsing at: \n${node.getText()}\n\n`);
                     method['@methodHelpers'].add(dependency);
                 }
 
+                for (const polyfill of globalFunction.polyfills) {
+                    method['@polyfills'].add(polyfill);
+                }
+
                 // Don't process this function again in the next loop
                 processedFunctions.add(fn);
             }
@@ -3612,7 +5395,51 @@ Failed parsing at: \n${node.getText()}\n\n`);
     }
 
     /**
-     * Copies the global functions that the given method uses to its body so that they can be used at runtime.
+     * Wraps the given service or subscription code in profiled builds, so that the method records its entry,
+     * exit, duration, arguments and thrown errors into the configured sink.
+     * @param code          The final code of the method.
+     * @param method        The definition object for the method.
+     * @returns             The instrumented code if the method is traced, the unmodified code otherwise.
+     */
+    profiledMethodCode(code: string, method: TWServiceDefinition | TWSubscriptionDefinition): string {
+        if (!this.profile || !method['@traced']) return code;
+
+        let args: string;
+        if ('parameterDefinitions' in method) {
+            // The values of password parameters are never recorded
+            args = method.parameterDefinitions.map(p => `${JSON.stringify(p.name)}: ${p.baseType == 'PASSWORD' ? '"***"' : p.name}`).join(', ');
+        }
+        else {
+            args = `"eventName": eventName, "source": source, "sourceProperty": sourceProperty`;
+        }
+
+        let sink: string;
+        if (!this.profile.sink || this.profile.sink == 'logger') {
+            sink = `logger.${this.profile.logLevel || 'info'}("[Profile] " + JSON.stringify(record));`;
+        }
+        else {
+            const stream = `Things[${JSON.stringify(this.profile.sink)}]`;
+            sink = `${stream}.AddStreamEntry({sourceType: "Thing", source: me.name, timestamp: new Date(), values: ${stream}.CreateValuesWithData({values: record})});`;
+        }
+
+        return `
+const __p = {start: Date.now(), record: function (event, error) {
+    var record = {entity: me.name, method: ${JSON.stringify(method.name)}, event: event, duration: event == "entry" ? 0 : Date.now() - this.start, arguments: JSON.stringify({${args}}), error: error ? String(error) : ""};
+    ${sink}
+}};
+__p.record("entry");
+try {
+${code};
+    __p.record("exit");
+}
+catch (__pError) {
+    __p.record("error", __pError);
+    throw __pError;
+}`;
+    }
+
+    /**
+     * Copies the global functions and helper methods that the given method uses to its body so that they can be used at runtime.
      * @param transpiledBody        Transpiled method body.
      * @param method                The definition object for the method.
      * @returns                     New transpiled method body with the helpers injected.
@@ -3625,6 +5452,9 @@ Failed parsing at: \n${node.getText()}\n\n`);
             const globalFunction = this.store['@globalFunctions']?.[fn] as GlobalFunction;
             if (!globalFunction) continue;
 
+            // In library mode, the functions are called through their project's library instead
+            if (globalFunction.projectName !== undefined) continue;
+
             let codeToInline: string;
             if (globalFunction.compiledCode) {
                 // If the function was precompiled, emit its compiled node directly
@@ -3657,6 +5487,51 @@ Failed parsing at: \n${node.getText()}\n\n`);
         return result;
     }
 
+    /**
+     * Copies the code of the npm package exports that the given method uses to its body, and records the size
+     * of that code in the store. When rhino compatibility is enabled, the builtins used by that code are also checked.
+     * @param transpiledBody        Transpiled method body.
+     * @param method                The definition object for the method.
+     * @param entity                The entity containing the method.
+     * @param node                  The method declaration, on which unsupported builtins are reported.
+     * @returns                     New transpiled method body with the bundled code injected.
+     */
+    inlineBundledDependencies(transpiledBody: string, method: TWServiceDefinition | TWSubscriptionDefinition, entity: TWThingTransformer, node: ts.MethodDeclaration): string {
+        if (!method['@bundledImports'].size) return transpiledBody;
+
+        const bundle = bundleOfImports([...method['@bundledImports'].values()]);
+        const entityName = entity.exportedName!;
+        let code = bundle.code;
+
+        if (this.rhinoCompatibility) {
+            const options = this.rhinoCompatibility;
+            const polyfills = new Set<string>();
+            for (const feature of rhinoFeaturesOfCode(code)) {
+                if (options.allow?.includes(feature)) continue;
+
+                if (options.polyfills && RhinoFeatures[feature].polyfill) {
+                    polyfills.add(feature);
+                    method['@polyfills'].add(feature);
+                    continue;
+                }
+
+                // Every unsupported builtin is reported, since the bundled code can't be changed to avoid them one at a time
+                this.recoverDiagnostics(() => {
+                    this.throwErrorForNode(node.name, `"${feature}" is used by the npm packages bundled into "${method.name}" and is not supported by the Rhino engine of ThingWorx.`);
+                }, undefined);
+            }
+
+            // The bundled code only references static functions, which are replaced by their polyfills
+            if (polyfills.size) code = polyfilledCodeOfRhinoFeatures(code, polyfills);
+        }
+
+        this.store['@bundles'] = this.store['@bundles'] || {};
+        this.store['@bundles'][entityName] = this.store['@bundles'][entityName] || {};
+        this.store['@bundles'][entityName][method.name] = {modules: bundle.modules, size: bundle.size};
+
+        return code + '\n' + transpiledBody;
+    }
+
     /**
      * Returns the emit result of the body of the specified function declaration. This will strip
      * out the surrounding braces.
@@ -3680,11 +5555,11 @@ Failed parsing at: \n${node.getText()}\n\n`);
         const helpers = ts.getEmitHelpers((this as any).source) || [];
         const helpersToInline = new Set<ts.EmitHelper>();
 
-        // Add helpers used by the global functions called by this method
+        // Add helpers used by the global functions called by this method; library functions use the library's helpers
         for (const functionName of method['@globalFunctions']) {
             const fn = this.store['@globalFunctions']?.[functionName];
 
-            if (fn?.emitHelperDependencies) {
+            if (fn?.emitHelperDependencies && fn.projectName === undefined) {
                 for (const helper of fn.emitHelperDependencies) {
                     // Check if the method's source already has the helper
                     // Despite having the same code, the function's helper will be different instances
@@ -3828,8 +5703,14 @@ Failed parsing at: \n${node.getText()}\n\n`);
 
             this.flattenMethodDependencies(method);
 
-            // Inline any referenced global functions
+            // Inline any referenced global functions and bundled packages
             let transpiledBody = this.inlineGlobalFunctions(this.transpiledBodyOfThingworxMethod(node, method), method);
+            transpiledBody = this.inlineBundledDependencies(transpiledBody, method, entity, methodNode);
+
+            // Polyfills must run before any other code in the method
+            if (method['@polyfills'].size) {
+                transpiledBody = polyfillsOfRhinoFeatures([...method['@polyfills']]) + '\n' + transpiledBody;
+            }
 
             // Then add the helpers; because of the way these are added, the helpers will be the first declarations in the code
             transpiledBody = this.injectThingworxMethodHelpers(transpiledBody, name, entity, method);
@@ -3854,11 +5735,24 @@ try {
 } 
 finally { 
     __d.release(); 
+}`;
+                }
+                // In coverage mode, the hit counts are recorded on the project's coverage thing when the service finishes
+                else if (this.coverage) {
+                    service.code = `
+const __c = ${CoverageCounterSource};
+try {
+    var result = (function () {${service.code}}).apply(me);
+}
+finally {
+    Things[${JSON.stringify(TWThingTransformer.coverageThingNameOfProject(entity.projectName))}].RecordCoverage({hits: __c.hits});
 }`;
                 }
                 else {
                     service.code = `var result = (function () {${service.code}}).apply(me)`;
                 }
+
+                service.code = this.profiledMethodCode(service.code, service);
             }
             else {
                 const subscription = method;
@@ -3874,14 +5768,66 @@ try {
 } 
 finally { 
     __d.release(); 
+}`;
+                }
+                else if (this.coverage) {
+                    subscription.code = `
+const __c = ${CoverageCounterSource};
+try {
+    (function () {${transpiledBody}}).apply(me);
+}
+finally {
+    Things[${JSON.stringify(TWThingTransformer.coverageThingNameOfProject(entity.projectName))}].RecordCoverage({hits: __c.hits});
 }`;
                 }
                 else {
                     //const body = ts.createPrinter().printNode(ts.EmitHint.Unspecified, node.body, (this as any).source);
                     subscription.code = `(function () {${transpiledBody}}).apply(me)`;
                 }
+
+                subscription.code = this.profiledMethodCode(subscription.code, subscription);
+            }
+
+            if (this.sourceMaps) {
+                this.addSourceMapOfMethod(node, method, entity, methodNode);
+            }
+        }
+    }
+
+    /**
+     * Creates the source map of the final code of the given service or subscription and adds it to the store.
+     * The map covers the method's body and the global functions inlined into it, while the lines added by the
+     * transformer, such as emit helpers and method helpers, have no mappings.
+     * @param node          The compiled function declaration of the method.
+     * @param method        The definition object for the method.
+     * @param entity        The transformer of the entity that contains the method.
+     * @param methodNode    The method declaration, on which missing mappings are reported.
+     */
+    addSourceMapOfMethod(node: ts.FunctionDeclaration, method: TWServiceDefinition | TWSubscriptionDefinition, entity: TWThingTransformer, methodNode: ts.MethodDeclaration): void {
+        const body = mappedCodeOfNode(node.body!, (this as any).source);
+        const fragments: TWMappedCode[] = [];
+
+        // Global functions are inlined before the method's body, each of them before the ones inlined earlier
+        for (const name of [...method['@globalFunctions']].reverse()) {
+            const fn = this.store['@globalFunctions']?.[name] as GlobalFunction;
+            if (fn?.projectName === undefined && fn?.compiledCode && fn.compiledCodeMappings) {
+                fragments.push({code: fn.compiledCode, mappings: fn.compiledCodeMappings});
             }
         }
+
+        // The braces surrounding the body are not part of the method's code
+        fragments.push({code: body.code.substring(1, body.code.length - 1), mappings: shiftedMappings(body.mappings, 0, -1)});
+
+        const {mappings, missingFragments} = mappingsOfCodeWithFragments(method.code, fragments);
+        if (missingFragments.length) {
+            this.reportWarningForNode(methodNode.name, `Part of the code of "${method.name}" could not be found in its final code and is missing from its source map.`);
+        }
+
+        const entityName = entity.exportedName!;
+
+        this.store['@sourceMaps'] = this.store['@sourceMaps'] || {};
+        this.store['@sourceMaps'][entityName] = this.store['@sourceMaps'][entityName] || {};
+        this.store['@sourceMaps'][entityName][method.name] = sourceMapOfMappings(mappings, `${entityName}.${method.name}.js`, entity.repoPath);
     }
 
     /**
@@ -3933,6 +5879,7 @@ finally {
             }
             else if (typeArgument.kind == ts.SyntaxKind.LiteralType) {
                 table.dataShapeName = ((typeArgument as ts.LiteralTypeNode).literal as ts.StringLiteral).text;
+                this.entityReferences.push({entityKind: 'DataShape', entityName: table.dataShapeName, node: typeArgument});
             }
             else {
                 this.throwErrorForNode(member, `The configuration table type argument must be a data shape class reference or exported name.`);
@@ -4000,16 +5947,11 @@ finally {
 
             const property = member as ts.PropertyAssignment;
 
-            const table: TWInfoTable = {
-                dataShape: {
-                    fieldDefinitions: {}
-                },
-                rows: []
-            };
+            const rows: Record<string, unknown>[] = [];
 
             switch (property.initializer.kind) {
                 case ts.SyntaxKind.ObjectLiteralExpression:
-                    table.rows.push(this.extractObjectLiteral(property.initializer as ts.ObjectLiteralExpression));
+                    rows.push(this.extractObjectLiteral(property.initializer as ts.ObjectLiteralExpression));
                     break;
                 case ts.SyntaxKind.ArrayLiteralExpression:
                     const array = property.initializer as ts.ArrayLiteralExpression;
@@ -4017,25 +5959,27 @@ finally {
                         if (element.kind != ts.SyntaxKind.ObjectLiteralExpression) {
                             this.throwErrorForNode(array, 'Configuration rows must be object literals.');
                         }
-                        table.rows.push(this.extractObjectLiteral(element as ts.ObjectLiteralExpression));
+                        rows.push(this.extractObjectLiteral(element as ts.ObjectLiteralExpression));
                     }
                     break;
                 default:
                     this.throwErrorForNode(property, 'Configuration properties must be array or object literals.');
             }
 
-            // Extract the data shape from the first row
-            const row = table.rows[0];
-            for (const key of Object.keys(row)) {
-                table.dataShape.fieldDefinitions[key] = {
-                    name: key,
-                    description: '',
-                    aspects: {},
-                    baseType: TWBaseTypes[typeof row[key]],
-                    ordinal: 0
+            // Extract the data shape from the rows, using the first value of each field to determine its type
+            const table = new TWRuntimeInfoTable;
+            for (const row of rows) {
+                for (const key of Object.keys(row)) {
+                    if (!table.hasField(key)) {
+                        table.AddField({name: key, baseType: TWBaseTypes[typeof row[key]], ordinal: 0});
+                    }
                 }
             }
 
+            for (const row of rows) {
+                table.AddRow(row);
+            }
+
             this.configuration[name] = table;
         }
     }
@@ -4085,37 +6029,8 @@ finally {
     }
 
     private XMLRepresentationOfInfotable(infotable: TWInfoTable, withOrdinals = false) {
-        return {
-            $: {} as Record<string, string>,
-            DataShape: [
-                {
-                    FieldDefinitions: [
-                        {
-                            FieldDefinition: Object.values(infotable.dataShape.fieldDefinitions).map(f => {
-                                const fieldDefinition: any = {
-                                    $: {
-                                        baseType: f.baseType,
-                                        description: f.description,
-                                        name: f.name
-                                    }
-                                };
-
-                                if (withOrdinals) {
-                                    fieldDefinition.$.ordinal = f.ordinal
-                                }
-
-                                return fieldDefinition;
-                            })
-                        }
-                    ]
-                }
-            ],
-            Rows: [
-                {
-                    Row: infotable.rows
-                }
-            ]
-        };
+        // The values must be serialized in the same format used by Thingworx, e.g. dates as timestamps
+        return TWRuntimeInfoTable.fromJSON(infotable).toXML(withOrdinals);
     }
 
     /**
@@ -4201,6 +6116,1081 @@ finally {
         </Entities>`;
     }
 
+    /**
+     * Returns the name of the thing that collects the coverage data of the given project in coverage builds.
+     * @param projectName   The name of the project.
+     * @returns             The name of the coverage thing.
+     */
+    static coverageThingNameOfProject(projectName: string = ''): string {
+        return projectName ? `${projectName}.Coverage` : 'Coverage';
+    }
+
+    /**
+     * Returns the checkpoint locations that were added to the files processed with the given store
+     * in a coverage build, indexed by filename.
+     * @param store         The transformer store.
+     * @returns             A map of filenames to checkpoint locations.
+     */
+    static coverageBreakpointsOfStore(store: TransformerStore): Record<string, Breakpoint[]> {
+        const breakpoints: Record<string, Breakpoint[]> = {};
+
+        // Files that only contain global functions have no transformer, so their locations are only available in the store
+        for (const [filename, debugInformation] of Object.entries(store['@debugInformation'] || {})) {
+            if (debugInformation.breakpoints.length) {
+                breakpoints[filename] = debugInformation.breakpoints;
+            }
+        }
+
+        for (const transformer of this.transformersOfStore(store)) {
+            if (transformer.filename && transformer.breakpoints.length) {
+                breakpoints[transformer.filename] = transformer.breakpoints;
+            }
+        }
+
+        return breakpoints;
+    }
+
+    /**
+     * Returns the XML entity representation of a thing that collects the hit counts recorded by the services
+     * and subscriptions of a project in a coverage build. The hit counts are accumulated in memory and only persisted
+     * by its `FlushCoverage` service, so that recording them doesn't write to the database after every call. Its `GetCoverage`
+     * service flushes and returns the hit counts together with the checkpoint locations, in the format expected by
+     * `lcovReportOfCoverage` and `istanbulReportOfCoverage`.
+     * @param entityName    The name to use for the entity.
+     * @param breakpoints   The checkpoint locations, indexed by filename.
+     * @param projectName   The name of the project to add to the entity.
+     */
+    static projectCoverageThingXML(entityName: string, breakpoints: Record<string, Breakpoint[]>, projectName: string = ''): string {
+        const serviceImplementation = (name: string, code: string) => `
+                  <ServiceImplementation description="" handlerName="Script" name="${name}">
+                    <ConfigurationTables>
+                      <ConfigurationTable description="Script" isMultiRow="false" name="Script" ordinal="0">
+                        <DataShape>
+                          <FieldDefinitions>
+                            <FieldDefinition baseType="STRING" description="code" name="code" ordinal="0"/>
+                          </FieldDefinitions>
+                        </DataShape>
+                        <Rows>
+                          <Row>
+                            <code><![CDATA[${code}]]></code>
+                          </Row>
+                        </Rows>
+                      </ConfigurationTable>
+                    </ConfigurationTables>
+                  </ServiceImplementation>`;
+
+        // Return the entity
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+        <Entities>
+          <Things>
+            <Thing name="${entityName}" projectName="${projectName}" enabled="true" identifier="" published="false" thingTemplate="GenericThing" valueStream="">
+              <Owner name="Administrator" type="User"/>
+              <ThingShape>
+                <PropertyDefinitions>
+                    <PropertyDefinition
+                    aspect.cacheTime="0.0"
+                    aspect.dataChangeThreshold="0.0"
+                    aspect.dataChangeType="VALUE"
+                    aspect.defaultValue=""
+                    aspect.isLogged="false"
+                    aspect.isPersistent="true"
+                    baseType="STRING"
+                    category=""
+                    description="Contains the checkpoint locations of the '${projectName}' project."
+                    isLocalOnly="false"
+                    name="coverageInformation"
+                    ordinal="0"></PropertyDefinition>
+                    <PropertyDefinition
+                    aspect.cacheTime="0.0"
+                    aspect.dataChangeThreshold="0.0"
+                    aspect.dataChangeType="NEVER"
+                    aspect.isLogged="false"
+                    aspect.isPersistent="true"
+                    baseType="JSON"
+                    category=""
+                    description="Contains the number of times each checkpoint was executed, as of the last flush."
+                    isLocalOnly="false"
+                    name="coverageHits"
+                    ordinal="1"></PropertyDefinition>
+                    <PropertyDefinition
+                    aspect.cacheTime="0.0"
+                    aspect.dataChangeThreshold="0.0"
+                    aspect.dataChangeType="NEVER"
+                    aspect.isLogged="false"
+                    aspect.isPersistent="false"
+                    baseType="JSON"
+                    category=""
+                    description="Contains the hit counts recorded in memory since the last flush."
+                    isLocalOnly="false"
+                    name="pendingCoverageHits"
+                    ordinal="2"></PropertyDefinition>
+                </PropertyDefinitions>
+                <ServiceDefinitions>
+                  <ServiceDefinition name="RecordCoverage" isAllowOverride="false" isLocalOnly="false" isPrivate="false" isOpen="false" description="Adds the given hit counts to the hit counts recorded in memory.">
+                    <ResultType name="result" baseType="NOTHING"/>
+                    <ParameterDefinitions>
+                      <FieldDefinition name="hits" baseType="JSON" aspect.isRequired="true"/>
+                    </ParameterDefinitions>
+                  </ServiceDefinition>
+                  <ServiceDefinition name="FlushCoverage" isAllowOverride="false" isLocalOnly="false" isPrivate="false" isOpen="false" description="Adds the hit counts recorded in memory to the persisted hit counts.">
+                    <ResultType name="result" baseType="NOTHING"/>
+                    <ParameterDefinitions/>
+                  </ServiceDefinition>
+                  <ServiceDefinition name="GetCoverage" isAllowOverride="false" isLocalOnly="false" isPrivate="false" isOpen="false" description="Flushes and returns the checkpoint locations and the recorded hit counts.">
+                    <ResultType name="result" baseType="JSON"/>
+                    <ParameterDefinitions/>
+                  </ServiceDefinition>
+                  <ServiceDefinition name="ResetCoverage" isAllowOverride="false" isLocalOnly="false" isPrivate="false" isOpen="false" description="Clears the recorded hit counts.">
+                    <ResultType name="result" baseType="NOTHING"/>
+                    <ParameterDefinitions/>
+                  </ServiceDefinition>
+                </ServiceDefinitions>
+                <ServiceImplementations>${serviceImplementation('RecordCoverage', `
+        var pending = me.pendingCoverageHits || {};
+        for (var ID in hits) {
+            pending[ID] = (pending[ID] || 0) + hits[ID];
+        }
+        me.pendingCoverageHits = pending;`)}${serviceImplementation('FlushCoverage', `
+        var pending = me.pendingCoverageHits || {};
+        me.pendingCoverageHits = {};
+        var coverage = me.coverageHits || {};
+        for (var ID in pending) {
+            coverage[ID] = (coverage[ID] || 0) + pending[ID];
+        }
+        me.coverageHits = coverage;`)}${serviceImplementation('GetCoverage', `
+        me.FlushCoverage();
+        var result = {breakpoints: JSON.parse(me.coverageInformation || '{}'), hits: me.coverageHits || {}};`)}${serviceImplementation('ResetCoverage', `
+        me.pendingCoverageHits = {};
+        me.coverageHits = {};`)}
+                </ServiceImplementations>
+                <EventDefinitions/>
+                <Subscriptions/>
+              </ThingShape>
+              <ThingProperties>
+                <coverageInformation>
+                    <Value>
+                        <![CDATA[${JSON.stringify(breakpoints)}]]>
+                    </Value>
+                    <Timestamp>1970-01-01T02:00:00.000+02:00</Timestamp>
+                    <Quality>UNKNOWN</Quality>
+                </coverageInformation>
+              </ThingProperties>
+              <PropertyBindings/>
+              <RemotePropertyBindings/>
+              <RemoteServiceBindings/>
+              <RemoteEventBindings/>
+            </Thing>
+          </Things>
+        </Entities>`;
+    }
+
+    /**
+     * Returns an array containing all of the entity transformers in the given store, excluding
+     * any project-wide metadata.
+     * @param store         The store containing the transformers.
+     * @returns             An array of transformers.
+     */
+    static transformersOfStore(store: TransformerStore): TWThingTransformer[] {
+        return Object.keys(store)
+            .filter(key => !key.startsWith('@'))
+            .map(key => store[key])
+            .filter(value => value instanceof TWThingTransformer) as TWThingTransformer[];
+    }
+
+    /**
+     * Assigns the ordinals of the fields of the data shapes in the given store whose hierarchies have been visited
+     * completely, validating them against their inherited fields. This is invoked after each file is visited, so that
+     * these errors are reported during the transformation.
+     * @param store         The store containing the transformers.
+     */
+    static assignDataShapeOrdinalsOfStore(store: TransformerStore): void {
+        for (const transformer of this.transformersOfStore(store)) {
+            if (transformer.entityKind != TWEntityKind.DataShape || transformer._dataShapeOrdinalsAssigned) continue;
+            if (!transformer.hasCompleteDataShapeHierarchy()) continue;
+
+            transformer.recoverDiagnostics(() => transformer.assignDataShapeOrdinals(), undefined);
+        }
+    }
+
+    /**
+     * Returns the diagnostics reported by all transformers using the given store, when diagnostics are collected.
+     * @param store         The store containing the diagnostics.
+     * @returns             An array of diagnostics.
+     */
+    static diagnosticsOfStore(store: TransformerStore): TWDiagnostic[] {
+        return store['@diagnostics'] || [];
+    }
+
+    /**
+     * Records a diagnostic that isn't caused by a specific source file, such as an issue with the project's
+     * configuration or media folder, on the given store.
+     * @param store         The store to which the diagnostic should be added.
+     * @param message       The diagnostic message.
+     * @param category      Defaults to `Error`. The category of the diagnostic.
+     */
+    static recordDiagnosticOfStore(store: TransformerStore, message: string, category: ts.DiagnosticCategory = ts.DiagnosticCategory.Error): void {
+        const diagnostics: TWDiagnostic[] = store['@diagnostics'] = store['@diagnostics'] || [];
+        if (diagnostics.some(d => !d.file && d.messageText == message)) return;
+
+        diagnostics.push({
+            file: undefined,
+            start: undefined,
+            length: undefined,
+            line: 0,
+            column: 0,
+            messageText: message,
+            category,
+            code: TWDiagnosticCode,
+            source: 'bm-thing-transformer'
+        });
+    }
+
+    /**
+     * Invokes the given callback, which emits files based on the given twconfig object, and returns its result.
+     * When the twconfig object collects diagnostics, any error thrown by the callback is recorded on its store
+     * and the given fallback value is returned instead.
+     * @param twConfig      The twconfig object.
+     * @param callback      The callback to invoke.
+     * @param fallback      The value to return if the callback fails.
+     * @returns             The result of the callback, or the fallback value.
+     */
+    static recoverEmitDiagnosticsOfConfig<T>(twConfig: TWConfig, callback: () => T, fallback: T): T {
+        if (!twConfig.collectDiagnostics) return callback();
+
+        try {
+            return callback();
+        }
+        catch (e) {
+            if (!(e instanceof TWRecordedDiagnosticError)) {
+                this.recordDiagnosticOfStore(twConfig.store, e instanceof Error ? e.message : String(e));
+            }
+
+            return fallback;
+        }
+    }
+
+    /**
+     * Returns a report of the size of the npm package code bundled into each service and subscription, with one
+     * line for each method, sorted from the largest bundle to the smallest.
+     * @param store         The transformer store.
+     * @returns             The report.
+     */
+    static bundleReportOfStore(store: TransformerStore): string {
+        const lines: { name: string, size: number, modules: number }[] = [];
+
+        for (const [entityName, bundles] of Object.entries(store['@bundles'] || {})) {
+            for (const [methodName, bundle] of Object.entries(bundles)) {
+                lines.push({name: `${entityName}.${methodName}`, size: bundle.size, modules: bundle.modules.length});
+            }
+        }
+
+        return lines
+            .sort((a, b) => b.size - a.size)
+            .map(line => `${line.name}: ${(line.size / 1024).toFixed(1)} KiB in ${line.modules} ${line.modules == 1 ? 'module' : 'modules'}`)
+            .join('\n');
+    }
+
+    /**
+     * Returns a string containing the diagnostics reported by all transformers using the given store, in the
+     * same format used by the typescript compiler.
+     * @param store         The store containing the diagnostics.
+     * @param pretty        Defaults to `false`. If set to `true`, the diagnostics will include colors and the
+     *                      source code that caused them.
+     * @returns             The formatted diagnostics.
+     */
+    static formattedDiagnosticsOfStore(store: TransformerStore, pretty: boolean = false): string {
+        const diagnostics = this.diagnosticsOfStore(store);
+        return pretty ? ts.formatDiagnosticsWithColorAndContext(diagnostics, FormatDiagnosticsHost) : ts.formatDiagnostics(diagnostics, FormatDiagnosticsHost);
+    }
+
+    /**
+     * Returns the members of the given collection interface, such as `Things` or `DataShapes`, declared in the
+     * source files of the given program.
+     * @param program       The program whose declarations should be used.
+     * @param collection    The name of the collection.
+     * @returns             A map whose keys are the entity names and whose values are their declarations.
+     */
+    static collectionMembersOfProgram(program: ts.Program, collection: string): Map<string, ts.PropertySignature> {
+        const result = new Map<string, ts.PropertySignature>();
+
+        for (const sourceFile of program.getSourceFiles()) {
+            for (const statement of sourceFile.statements) {
+                if (!ts.isInterfaceDeclaration(statement) || statement.name.text != collection) continue;
+
+                for (const member of statement.members) {
+                    if (!ts.isPropertySignature(member)) continue;
+                    if (!ts.isIdentifier(member.name) && !ts.isStringLiteral(member.name)) continue;
+
+                    result.set(member.name.text, member);
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Validates the references to other entities made by the entities in the given twconfig's store, such as
+     * subscription sources, local bindings, data shapes and value streams. References are resolved against the
+     * project's own entities and against the collections declared in the given program, such as `Things` or `DataShapes`.
+     * Dangling references are added to the store's diagnostics and, when diagnostics are not collected, an error
+     * listing them is thrown.
+     * @param twConfig      The twconfig object whose store should be validated.
+     * @param program       The program whose declarations should be used.
+     * @returns             An array containing the diagnostics of the dangling references.
+     */
+    static validateReferences(twConfig: TWConfig, program: ts.Program): TWDiagnostic[] {
+        const store = twConfig.store as TransformerStore;
+        const transformers = this.transformersOfStore(store);
+        const typeChecker = program.getTypeChecker();
+        const count = this.diagnosticsOfStore(store).length;
+
+        const collections = {
+            Thing: this.collectionMembersOfProgram(program, 'Things'),
+            ThingTemplate: this.collectionMembersOfProgram(program, 'ThingTemplates'),
+            ThingShape: this.collectionMembersOfProgram(program, 'ThingShapes'),
+            DataShape: this.collectionMembersOfProgram(program, 'DataShapes'),
+        };
+
+        const descriptions = {Thing: 'thing', ThingTemplate: 'thing template', ThingShape: 'thing shape', DataShape: 'data shape', ValueStream: 'value stream'};
+
+        // Returns the type of the given entity, using the project's classes before the declared collections
+        const typeOfEntity = (kind: TWEntityReference['entityKind'], name: string): ts.Type | undefined => {
+            const entityKind = kind == 'ValueStream' ? TWEntityKind.Thing : kind;
+            const transformer = transformers.find(t => t.exportedName == name && t.entityKind == entityKind);
+            if (transformer?.classNode?.name) {
+                return typeChecker.getTypeAtLocation(transformer.classNode.name);
+            }
+
+            const declaration = collections[entityKind].get(name);
+            return declaration?.type ? typeChecker.getTypeFromTypeNode(declaration.type) : undefined;
+        };
+
+        // Returns whether the given type is or inherits from the class with the given name
+        const typeExtendsClassNamed = (type: ts.Type, name: string): boolean => {
+            if (type.getSymbol()?.name == name) return true;
+            if (type.isIntersection()) return type.types.some(t => typeExtendsClassNamed(t, name));
+            return type.isClassOrInterface() && (typeChecker.getBaseTypes(type) || []).some(t => typeExtendsClassNamed(t, name));
+        };
+
+        for (const transformer of transformers) {
+            for (const reference of transformer.entityReferences) {
+                const description = descriptions[reference.entityKind];
+                const type = typeOfEntity(reference.entityKind, reference.entityName);
+
+                if (!type) {
+                    transformer.recordDiagnosticForNode(reference.entityNode || reference.node, `The ${description} "${reference.entityName}" does not exist.`);
+                    continue;
+                }
+
+                if (reference.entityKind == 'ValueStream' && !typeExtendsClassNamed(type, 'ValueStream')) {
+                    transformer.recordDiagnosticForNode(reference.entityNode || reference.node, `The thing "${reference.entityName}" is not a value stream.`);
+                    continue;
+                }
+
+                if (!reference.memberName) continue;
+
+                // Events are distinguished from properties by their type, while methods cannot be referenced
+                const member = typeChecker.getPropertyOfType(type, reference.memberName);
+                const declaration = member?.declarations?.[0];
+                const typeNode = declaration && (ts.isPropertyDeclaration(declaration) || ts.isPropertySignature(declaration)) ? declaration.type : undefined;
+                const isMethod = !!declaration && (ts.isMethodDeclaration(declaration) || ts.isMethodSignature(declaration));
+                const isEvent = !!typeNode && ts.isTypeReferenceNode(typeNode) && typeNode.typeName.getText() == 'EVENT';
+
+                if (!member || isMethod || isEvent != (reference.memberKind == 'Event')) {
+                    const memberDescription = reference.memberKind == 'Event' ? 'an event' : 'a property';
+                    transformer.recordDiagnosticForNode(reference.node, `The ${description} "${reference.entityName}" does not have ${memberDescription} named "${reference.memberName}".`);
+                }
+            }
+        }
+
+        const diagnostics = this.diagnosticsOfStore(store).slice(count);
+
+        // Without diagnostic collection, dangling references fail the build in the same way as other errors
+        if (diagnostics.length && !twConfig.collectDiagnostics) {
+            throw new Error(`The project references entities that do not exist:\n\n${ts.formatDiagnostics(diagnostics, FormatDiagnosticsHost)}`);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Returns the names of the entities referenced by the entity processed by this transformer. This includes the base
+     * template or data shape, implemented shapes, value streams, the data shapes used by members
+     * and the entities whose services are used by mashups.
+     * @returns             A set of entity names.
+     */
+    referencedEntityNames(): Set<string> {
+        const result = new Set<string>();
+
+        if (this.thingTemplateName) result.add(this.thingTemplateName);
+        if (this.baseDataShapeName) result.add(this.baseDataShapeName);
+        if (this.valueStream) result.add(this.valueStream);
+        if (this.genericArgument) result.add(this.genericArgument);
+
+        for (const shape of this.thingShapes) {
+            result.add(shape);
+        }
+
+        const fields: TWFieldBase[] = [...this.properties, ...this.fields];
+        for (const service of this.services) {
+            fields.push(...service.parameterDefinitions);
+            if (service.resultType) fields.push(service.resultType);
+        }
+
+        for (const field of fields) {
+            if (field.aspects?.dataShape) result.add(field.aspects.dataShape);
+            if (field.aspects?.thingTemplate) result.add(field.aspects.thingTemplate);
+            if (field.aspects?.thingShape) result.add(field.aspects.thingShape);
+        }
+
+        for (const event of this.events) {
+            if (event.dataShape) result.add(event.dataShape);
+        }
+
+        for (const table of this.configurationTableDefinitions) {
+            if (table.dataShapeName) result.add(table.dataShapeName);
+        }
+
+        for (const dataSource of Object.values(this.mashupDataSources)) {
+            result.add(dataSource.EntityName);
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns the names of the projects found in the given twconfig's store. When the project name
+     * is `"@auto"`, this will contain the name of each sub project that was built.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @returns             An array of project names.
+     */
+    static projectNamesOfConfig(twConfig: TWConfig): string[] {
+        const names = new Set<string>();
+
+        for (const transformer of this.transformersOfStore(twConfig.store)) {
+            if (transformer.projectName) names.add(transformer.projectName);
+        }
+
+        return [...names];
+    }
+
+    /**
+     * Returns the names of the projects that the given project depends on. When `includeProjectDependencies` is enabled,
+     * this includes the dependencies specified in twconfig. In multi project mode, this also includes any other sub project
+     * whose entities are referenced by the given project.
+     * @param projectName   The name of the project whose dependencies should be returned.
+     * @param twConfig      The twconfig object.
+     * @returns             An array of project names.
+     */
+    static projectDependenciesOfProject(projectName: string, twConfig: TWConfig): string[] {
+        const dependencies = new Set<string>();
+
+        if (twConfig.includeProjectDependencies && twConfig.projectDependencies) {
+            for (const dependency of twConfig.projectDependencies) {
+                dependencies.add(dependency);
+            }
+        }
+
+        // In multi project mode, the sub projects depend on each other whenever they reference each other's entities
+        if (twConfig.projectName == '@auto') {
+            const transformers = this.transformersOfStore(twConfig.store);
+
+            for (const transformer of transformers) {
+                if (transformer.projectName != projectName) continue;
+
+                for (const name of transformer.referencedEntityNames()) {
+                    // References can use either the class name or the exported name of the entity
+                    const dependency = transformers.find(t => t.className == name || t.exportedName == name);
+                    if (dependency?.projectName && dependency.projectName != projectName) {
+                        dependencies.add(dependency.projectName);
+                    }
+                }
+
+                // Calls to global functions compiled into another project's library also depend on that project
+                for (const method of (transformer.services as (TWServiceDefinition | TWSubscriptionDefinition)[]).concat(transformer.subscriptions)) {
+                    for (const name of method['@globalFunctions'] || []) {
+                        const fn = (twConfig.store as TransformerStore)['@globalFunctions']?.[name];
+                        if (fn?.projectName) dependencies.add(fn.projectName);
+                    }
+                }
+            }
+        }
+
+        dependencies.delete(projectName);
+
+        return [...dependencies];
+    }
+
+    /**
+     * Returns the XML entity representation of the project entity for the given project. Its member entities
+     * are the entities in the twconfig's store that are assigned to that project.
+     * @param projectName       The name of the project.
+     * @param twConfig          The twconfig object whose store and dependencies should be used.
+     * @param packageVersion    Defaults to `"1.0.0"`. The version to assign to the project.
+     * @returns                 An XML.
+     */
+    static projectEntityXML(projectName: string, twConfig: TWConfig, packageVersion: string = '1.0.0'): string {
+        const XML = {} as any;
+
+        XML.Entities = {};
+        XML.Entities.Projects = [{Project: [{$: {}}]}];
+
+        const entity = XML.Entities.Projects[0].Project[0];
+
+        entity.$.name = projectName;
+        entity.$.projectName = projectName;
+        entity.$.artifactId = '';
+        entity.$.groupId = '';
+        entity.$.homeMashup = '';
+        entity.$.minPlatformVersion = twConfig.minimumThingWorxVersion || '';
+        entity.$.packageVersion = packageVersion;
+        entity.$.publishResult = '';
+        entity.$.state = 'DRAFT';
+        entity.$.tags = '';
+        entity.$.description = '';
+        entity.$.documentationContent = '';
+
+        // Extension and entity dependencies are only included together with the project dependencies
+        const extensions = twConfig.includeProjectDependencies ? (twConfig.extensionDependencies || []) : [];
+        const entities = twConfig.includeProjectDependencies ? (twConfig.entityDependencies || []) : [];
+        const projects = this.projectDependenciesOfProject(projectName, twConfig);
+
+        const dependsOn: Record<string, string> = {extensions: extensions.join(','), projects: projects.join(',')};
+
+        // Entity dependencies are specified in the same "Collection/Name" format used by twconfig
+        if (entities.length) {
+            dependsOn.entities = entities.join(',');
+        }
+
+        entity.$.dependsOn = JSON.stringify(dependsOn);
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        // List the entities that are part of this project
+        entity.Entities = [{Entity: []}];
+        const members = entity.Entities[0].Entity as any[];
+
+        for (const transformer of this.transformersOfStore(twConfig.store)) {
+            if (transformer.projectName != projectName || !transformer.entityKind) continue;
+
+            if (transformer.entityKind == TWEntityKind.UserList) {
+                for (const user in transformer.users) {
+                    members.push({$: {name: user, type: 'User'}});
+                }
+                for (const group in transformer.userGroups) {
+                    members.push({$: {name: group, type: 'Group'}});
+                }
+            }
+            else {
+                members.push({$: {name: transformer.exportedName, type: transformer.entityKind}});
+            }
+        }
+
+        for (const media of Object.values((twConfig.store as TransformerStore)['@mediaEntities'] || {})) {
+            if (media.projectName != projectName) continue;
+
+            members.push({$: {name: media.name, type: 'MediaEntity'}});
+        }
+
+        const library = this.globalFunctionLibrariesOfStore(twConfig.store as TransformerStore)[projectName];
+        if (library) {
+            members.push({$: {name: library.name, type: TWEntityKind.Thing}});
+        }
+
+        return (new Builder()).buildObject(XML);
+    }
+
+    /**
+     * Writes the project entity of each project built with the given twconfig object to an appropriate file.
+     * This has no effect unless the `generateProjectEntity` flag is enabled.
+     * @param twConfig          The twconfig object whose store and dependencies should be used.
+     * @param path              If specified, the root path to which the entities are written. Otherwise, each
+     *                          project entity is written to the build folder of that project's root.
+     * @param packageVersion    Defaults to `"1.0.0"`. The version to assign to the projects.
+     */
+    static writeProjectEntities(twConfig: TWConfig, path?: string, packageVersion?: string): void {
+        if (!twConfig.generateProjectEntity) return;
+
+        const transformers = this.transformersOfStore(twConfig.store);
+
+        for (const projectName of this.projectNamesOfConfig(twConfig)) {
+            const root = path || `${transformers.find(t => t.projectName == projectName)!.root}/build`;
+
+            if (!fs.existsSync(`${root}`)) fs.mkdirSync(`${root}`);
+            if (!fs.existsSync(`${root}/Entities`)) fs.mkdirSync(`${root}/Entities`);
+            if (!fs.existsSync(`${root}/Entities/Projects`)) fs.mkdirSync(`${root}/Entities/Projects`);
+
+            fs.writeFileSync(`${root}/Entities/Projects/${projectName}.xml`, this.projectEntityXML(projectName, twConfig, packageVersion));
+        }
+    }
+
+    /**
+     * Adds each file in the media folder of the given project to the store as a media entity.
+     * @param root          The root path of the project.
+     * @param projectName   The name of the project.
+     * @param store         The store to which the media entities should be added.
+     */
+    static discoverMediaEntities(root: string, projectName: string | undefined, store: TransformerStore): void {
+        const mediaPath = path.join(root, 'media');
+        if (!fs.existsSync(mediaPath)) return;
+
+        const mediaEntities = store['@mediaEntities'] = store['@mediaEntities'] || {};
+
+        for (const file of fs.readdirSync(mediaPath)) {
+            const filename = path.join(mediaPath, file);
+            if (file.startsWith('.') || !fs.statSync(filename).isFile()) continue;
+
+            const name = path.parse(file).name;
+            if (mediaEntities[name] && mediaEntities[name].filename != filename) {
+                throw new Error(`The media entity "${name}" is defined by both "${mediaEntities[name].filename}" and "${filename}".`);
+            }
+
+            mediaEntities[name] = {name, filename, root, projectName};
+        }
+    }
+
+    /**
+     * Returns the XML entity representation of the given media entity, containing the contents of its file.
+     * @param media         The media entity.
+     * @returns             An XML.
+     */
+    static mediaEntityXML(media: TWMediaEntity): string {
+        const XML = {} as any;
+
+        XML.Entities = {};
+        XML.Entities.MediaEntities = [{MediaEntity: [{$: {}}]}];
+
+        const entity = XML.Entities.MediaEntities[0].MediaEntity[0];
+
+        entity.$.name = media.name;
+
+        if (media.projectName) entity.$.projectName = media.projectName;
+
+        entity.$.tags = '';
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        entity.content = [fs.readFileSync(media.filename).toString('base64')];
+
+        return (new Builder()).buildObject(XML);
+    }
+
+    /**
+     * Returns the `MediaEntities` collection declaration of the media entities in the given twconfig's store.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @returns             The typescript declaration.
+     */
+    static mediaEntitiesDeclaration(twConfig: TWConfig): string {
+        const mediaEntities = Object.keys((twConfig.store as TransformerStore)['@mediaEntities'] || {});
+        if (!mediaEntities.length) return '';
+
+        return `declare interface MediaEntities { ${mediaEntities.map(name => `${JSON.stringify(name)}: MediaEntitieEntity;`).join(' ')} }\n\n`;
+    }
+
+    /**
+     * Writes the XML entity representation of each media entity in the given twconfig's store to an appropriate file.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param path          If specified, the root path to which the entities are written. Otherwise, each
+     *                      media entity is written to the build folder of its project's root.
+     */
+    static writeMediaEntities(twConfig: TWConfig, path?: string): void {
+        for (const media of Object.values((twConfig.store as TransformerStore)['@mediaEntities'] || {})) {
+            const root = path || `${media.root}/build`;
+
+            if (!fs.existsSync(`${root}`)) fs.mkdirSync(`${root}`);
+            if (!fs.existsSync(`${root}/Entities`)) fs.mkdirSync(`${root}/Entities`);
+            if (!fs.existsSync(`${root}/Entities/MediaEntities`)) fs.mkdirSync(`${root}/Entities/MediaEntities`);
+
+            fs.writeFileSync(`${root}/Entities/MediaEntities/${media.name}.xml`, this.mediaEntityXML(media));
+        }
+    }
+
+    /**
+     * Returns the libraries into which the global functions in the given store were compiled, indexed by project name.
+     * This is empty unless the `globalFunctions` option is set to `"library"`.
+     * @param store         The transformer store.
+     * @returns             An object containing the global functions library of each project.
+     */
+    static globalFunctionLibrariesOfStore(store: TransformerStore): Record<string, TWGlobalFunctionLibrary> {
+        return globalFunctionLibrariesOfFunctions(store['@globalFunctions'] || {});
+    }
+
+    /**
+     * Returns the XML definition of the thing that contains the given global functions library. The library
+     * is defined by a global code block that runs when the thing starts.
+     * @param library       The global functions library.
+     * @returns             An XML.
+     */
+    static globalFunctionLibraryThingXML(library: TWGlobalFunctionLibrary): string {
+        return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+        <Entities>
+          <Things>
+            <Thing name="${library.name}" projectName="${library.projectName}" description="Contains the global functions of the '${library.projectName}' project." enabled="true" identifier="" published="false" thingTemplate="GenericThing" valueStream="">
+              <Owner name="Administrator" type="User"/>
+              <ThingShape>
+                <PropertyDefinitions/>
+                <ServiceDefinitions/>
+                <ServiceImplementations/>
+                <EventDefinitions/>
+                <Subscriptions>
+                  <Subscription name="__globalBlock__0" description="Global code block generated by TypeScript." enabled="true" eventName="ThingStart" sourceType="Thing">
+                    <ServiceImplementation description="" handlerName="Script" name="__globalBlock__0">
+                      <ConfigurationTables>
+                        <ConfigurationTable description="Script" isMultiRow="false" name="Script" ordinal="0">
+                          <DataShape>
+                            <FieldDefinitions>
+                              <FieldDefinition baseType="STRING" description="code" name="code" ordinal="0"/>
+                            </FieldDefinitions>
+                          </DataShape>
+                          <Rows>
+                            <Row>
+                              <code><![CDATA[Object.getPrototypeOf(this).${library.identifier} = ${library.expression};]]></code>
+                            </Row>
+                          </Rows>
+                        </ConfigurationTable>
+                      </ConfigurationTables>
+                    </ServiceImplementation>
+                  </Subscription>
+                </Subscriptions>
+              </ThingShape>
+              <PropertyBindings/>
+              <RemotePropertyBindings/>
+              <RemoteServiceBindings/>
+              <RemoteEventBindings/>
+            </Thing>
+          </Things>
+        </Entities>`;
+    }
+
+    /**
+     * Writes the thing containing the global functions library of each project to an appropriate file.
+     * This has no effect unless the `globalFunctions` option is set to `"library"`.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param path          If specified, the root path to which the things are written. Otherwise, each
+     *                      library thing is written to the build folder of its project's root.
+     */
+    static writeGlobalFunctionLibraries(twConfig: TWConfig, path?: string): void {
+        const transformers = this.transformersOfStore(twConfig.store);
+
+        for (const library of Object.values(this.globalFunctionLibrariesOfStore(twConfig.store as TransformerStore))) {
+            // Projects that only contain global functions have no transformers, so their libraries are written to the first project
+            const transformer = transformers.find(t => t.projectName == library.projectName) || transformers[0];
+            const root = path || `${transformer.root}/build`;
+
+            if (!fs.existsSync(`${root}`)) fs.mkdirSync(`${root}`);
+            if (!fs.existsSync(`${root}/Entities`)) fs.mkdirSync(`${root}/Entities`);
+            if (!fs.existsSync(`${root}/Entities/Things`)) fs.mkdirSync(`${root}/Entities/Things`);
+
+            fs.writeFileSync(`${root}/Entities/Things/${library.name}.xml`, this.globalFunctionLibraryThingXML(library));
+        }
+    }
+
+    /**
+     * Writes the source maps of the services and subscriptions in the given twconfig's store to a `sourceMaps.json` file,
+     * which contains the source map of each method, indexed by entity name and then by method name.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param path          If specified, the root path to which the source maps are written. Otherwise, the source maps
+     *                      of each project are written to its build folder.
+     */
+    static writeSourceMaps(twConfig: TWConfig, path?: string): void {
+        const sourceMaps = (twConfig.store as TransformerStore)['@sourceMaps'] || {};
+        const files: Record<string, Record<string, Record<string, TWSourceMap>>> = {};
+
+        for (const transformer of this.transformersOfStore(twConfig.store)) {
+            const entityName = transformer.exportedName!;
+            if (!sourceMaps[entityName]) continue;
+
+            const root = path || `${transformer.root}/build`;
+            files[root] = files[root] || {};
+            files[root][entityName] = sourceMaps[entityName];
+        }
+
+        for (const root in files) {
+            if (!fs.existsSync(root)) fs.mkdirSync(root);
+            fs.writeFileSync(`${root}/sourceMaps.json`, JSON.stringify(files[root]));
+        }
+    }
+
+    /**
+     * Returns the typescript location of an error reported by thingworx for the code of a service or subscription.
+     * @param sourceMaps    The source maps, indexed by entity name and then by method name, as found in the `@sourceMaps`
+     *                      store or in a `sourceMaps.json` file.
+     * @param entityName    The name of the entity containing the method.
+     * @param methodName    The name of the service or subscription.
+     * @param line          The 1-indexed line reported by thingworx.
+     * @param column        The 1-indexed column reported by thingworx, if available.
+     * @param repoPath      If specified, the path to the repository, used to return absolute file paths. Otherwise, the
+     *                      paths are relative to the repository.
+     * @returns             The original location, or `undefined` if the line was added by the transformer.
+     */
+    static originalLocationOfScriptError(sourceMaps: Record<string, Record<string, TWSourceMap>>, entityName: string, methodName: string, line: number, column?: number, repoPath?: string): TWSourceLocation | undefined {
+        const sourceMap = sourceMaps[entityName]?.[methodName];
+        if (!sourceMap) return undefined;
+
+        return originalLocationInSourceMap(sourceMap, line, column, repoPath);
+    }
+
+    /**
+     * Returns the fields of the data shapes that are used by the API of the exported entities in the given store.
+     * These are the exported data shapes and the project data shapes used by the services of exported things.
+     * @param store         The transformer store.
+     * @returns             A map of data shape names to their fields.
+     */
+    static apiDataShapesOfStore(store: TransformerStore): Map<string, TWDataShapeField[]> {
+        const transformers = this.transformersOfStore(store);
+        const dataShapeTransformers = new Map<string, TWThingTransformer>();
+        for (const transformer of transformers) {
+            if (transformer.entityKind == TWEntityKind.DataShape) dataShapeTransformers.set(transformer.exportedName!, transformer);
+        }
+
+        const dataShapes = new Map<string, TWDataShapeField[]>();
+        for (const transformer of dataShapeTransformers.values()) {
+            if (transformer.exported) dataShapes.set(transformer.exportedName!, transformer.apiDataShapeFields());
+        }
+
+        for (const thing of transformers.filter(t => t.exported && t.entityKind == TWEntityKind.Thing)) {
+            for (const service of thing.apiServices()) {
+                for (const definition of [...service.parameterDefinitions, service.resultType]) {
+                    const dataShape = definition.aspects?.dataShape;
+                    if (dataShape && dataShapeTransformers.has(dataShape)) dataShapes.set(dataShape, dataShapeTransformers.get(dataShape)!.apiDataShapeFields());
+                }
+            }
+        }
+
+        return dataShapes;
+    }
+
+    /**
+     * Returns an OpenAPI 3 document that describes the services of the exported things in the given twconfig's store,
+     * as they are invoked via the thingworx REST API. The document includes the schemas of the exported data shapes
+     * and of the project data shapes used by these services, and the application key security scheme.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param packageJSON   If specified, the contents of the project's package.json file, used for the document's
+     *                      title, version and description.
+     * @returns             An OpenAPI document.
+     */
+    static openAPIDocument(twConfig: TWConfig, packageJSON?: TWPackageJSON): TWOpenAPIDocument {
+        const things = this.transformersOfStore(twConfig.store).filter(t => t.exported && t.entityKind == TWEntityKind.Thing);
+        const dataShapeFields = this.apiDataShapesOfStore(twConfig.store);
+        const dataShapes = new Set(dataShapeFields.keys());
+
+        const document: TWOpenAPIDocument = {
+            openapi: '3.0.3',
+            info: {title: packageJSON ? this.extensionNameOfPackage(packageJSON) : twConfig.projectName, version: packageJSON?.version || '1.0.0'},
+            paths: {},
+            components: {
+                schemas: {},
+                securitySchemes: {appKey: {type: 'apiKey', in: 'header', name: 'appKey'}}
+            },
+            security: [{appKey: []}]
+        };
+
+        if (packageJSON?.description) document.info.description = packageJSON.description;
+
+        for (const [dataShape, fields] of dataShapeFields) {
+            document.components.schemas[APIGenerator.schemaNameOfDataShape(dataShape)] = APIGenerator.schemaOfDataShapeFields(fields, dataShapes);
+        }
+
+        for (const thing of things) {
+            for (const service of thing.apiServices()) {
+                const path = `/Thingworx/Things/${encodeURIComponent(thing.exportedName!)}/Services/${encodeURIComponent(service.name)}`;
+                document.paths[path] = {post: APIGenerator.operationOfService(thing.exportedName!, service, dataShapes)};
+            }
+        }
+
+        return document;
+    }
+
+    /**
+     * Writes the OpenAPI document describing the exported things in the given twconfig's store to an `openapi.json` file.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param packageJSON   If specified, the contents of the project's package.json file.
+     * @param path          If specified, the path to which the document is written. Otherwise, the document is
+     *                      written to the build folder.
+     */
+    static writeOpenAPIDocument(twConfig: TWConfig, packageJSON?: TWPackageJSON, path?: string): void {
+        const transformers = this.transformersOfStore(twConfig.store);
+        if (!transformers.some(t => t.exported)) return;
+
+        const root = path || `${transformers[0].root}/build`;
+        if (!fs.existsSync(root)) fs.mkdirSync(root);
+
+        fs.writeFileSync(`${root}/openapi.json`, JSON.stringify(this.openAPIDocument(twConfig, packageJSON), undefined, 4));
+    }
+
+    /**
+     * Returns the source code of a typescript module containing a REST client class for each exported thing in
+     * the given twconfig's store, together with the base client class and the interfaces of the data shapes
+     * used by their services.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @returns             Typescript source code.
+     */
+    static apiClient(twConfig: TWConfig): string {
+        const dataShapes = this.apiDataShapesOfStore(twConfig.store);
+
+        let source = APIGenerator.clientBaseClass();
+        for (const [dataShape, fields] of dataShapes) {
+            source += APIGenerator.clientInterfaceOfDataShape(dataShape, fields, dataShapes);
+        }
+        for (const transformer of this.transformersOfStore(twConfig.store)) {
+            source += transformer.toAPIClient();
+        }
+
+        return source;
+    }
+
+    /**
+     * Writes the REST client module of the exported things in the given twconfig's store to an `apiClient.ts` file.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param path          If specified, the path to which the module is written. Otherwise, the module is
+     *                      written to the build folder.
+     */
+    static writeAPIClient(twConfig: TWConfig, path?: string): void {
+        const transformers = this.transformersOfStore(twConfig.store);
+        if (!transformers.some(t => t.exported)) return;
+
+        const root = path || `${transformers[0].root}/build`;
+        if (!fs.existsSync(root)) fs.mkdirSync(root);
+
+        fs.writeFileSync(`${root}/apiClient.ts`, this.apiClient(twConfig));
+    }
+
+    /**
+     * Returns the name of the extension package described by the given package.json object.
+     * @param packageJSON   The contents of the project's package.json file.
+     * @returns             The extension name.
+     */
+    static extensionNameOfPackage(packageJSON: TWPackageJSON): string {
+        return packageJSON.packageName || packageJSON.name;
+    }
+
+    /**
+     * Returns the contents of the `metadata.xml` file that describes the extension package built with the
+     * given twconfig object.
+     * @param twConfig      The twconfig object whose minimum version and dependencies should be used.
+     * @param packageJSON   The contents of the project's package.json file.
+     * @returns             An XML.
+     */
+    static extensionMetadataXML(twConfig: TWConfig, packageJSON: TWPackageJSON): string {
+        const XML = {} as any;
+
+        XML.Entities = {};
+        XML.Entities.ExtensionPackages = [{ExtensionPackage: [{$: {}}]}];
+
+        const extension = XML.Entities.ExtensionPackages[0].ExtensionPackage[0];
+
+        extension.$.name = this.extensionNameOfPackage(packageJSON);
+        extension.$.description = packageJSON.description || '';
+        extension.$.vendor = (typeof packageJSON.author == 'object' ? packageJSON.author.name : packageJSON.author) || '';
+        extension.$.packageVersion = packageJSON.version;
+        extension.$.minimumThingWorxVersion = twConfig.minimumThingWorxVersion || packageJSON.minimumThingWorxVersion || '';
+        extension.$.haCompatible = 'false';
+
+        if (!extension.$.minimumThingWorxVersion && twConfig.collectDiagnostics) {
+            this.recordDiagnosticOfStore(twConfig.store, `The extension package doesn't specify a minimum ThingWorx version. Set "minimumThingWorxVersion" in twconfig or package.json.`, ts.DiagnosticCategory.Warning);
+        }
+
+        // Each dependency must be specified together with its version
+        const versions = packageJSON.thingworxDependencies || {};
+        for (const dependency of twConfig.extensionDependencies || []) {
+            if (!versions[dependency]) {
+                throw new Error(`The version of the extension dependency "${dependency}" must be specified in the "thingworxDependencies" object of package.json.`);
+            }
+        }
+
+        extension.$.dependsOn = Object.keys(versions).map(name => `${name}:${versions[name]}`).join(',');
+
+        return (new Builder()).buildObject(XML);
+    }
+
+    /**
+     * Returns the files that make up the extension package built with the given twconfig object. This includes
+     * the extension's metadata and every entity in the twconfig's store, as well as its project and media entities.
+     * In debug builds, this also includes the thing that contains the extension's debug information and in
+     * coverage builds, the things that collect each project's coverage data.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param packageJSON   The contents of the project's package.json file.
+     * @returns             An object whose keys are the paths of the files in the extension package
+     *                      and whose values are their contents.
+     */
+    static extensionPackageFiles(twConfig: TWConfig, packageJSON: TWPackageJSON): Record<string, string> {
+        const files: Record<string, string> = {};
+        const transformers = this.transformersOfStore(twConfig.store);
+
+        files['metadata.xml'] = this.recoverEmitDiagnosticsOfConfig(twConfig, () => this.extensionMetadataXML(twConfig, packageJSON), '');
+
+        for (const transformer of transformers) {
+            if (!transformer.entityKind) continue;
+
+            // User lists are to be saved under a "Users" subfolder.
+            const entityKind = transformer.entityKind == TWEntityKind.UserList ? 'User' : transformer.entityKind;
+            files[`Entities/${entityKind}s/${transformer.exportedName}.xml`] = transformer.toXML();
+        }
+
+        if (twConfig.generateProjectEntity) {
+            for (const projectName of this.projectNamesOfConfig(twConfig)) {
+                files[`Entities/Projects/${projectName}.xml`] = this.projectEntityXML(projectName, twConfig, packageJSON.version);
+            }
+        }
+
+        for (const media of Object.values((twConfig.store as TransformerStore)['@mediaEntities'] || {})) {
+            files[`Entities/MediaEntities/${media.name}.xml`] = this.mediaEntityXML(media);
+        }
+
+        for (const library of Object.values(this.globalFunctionLibrariesOfStore(twConfig.store as TransformerStore))) {
+            files[`Entities/Things/${library.name}.xml`] = this.globalFunctionLibraryThingXML(library);
+        }
+
+        // The debug thing registers the extension with the debugger runtime when it starts
+        if (twConfig.debug) {
+            const name = this.extensionNameOfPackage(packageJSON);
+            const projectName = twConfig.projectName == '@auto' ? '' : twConfig.projectName;
+
+            files[`Entities/Things/${name}.xml`] = this.projectDebugThingXML(name, transformers, projectName);
+        }
+        // The coverage things collect the hit counts recorded by the services of each project
+        else if (twConfig.coverage) {
+            const breakpoints = this.coverageBreakpointsOfStore(twConfig.store as TransformerStore);
+
+            for (const projectName of this.projectNamesOfConfig(twConfig)) {
+                const name = this.coverageThingNameOfProject(projectName);
+                files[`Entities/Things/${name}.xml`] = this.projectCoverageThingXML(name, breakpoints, projectName);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Returns an importable extension package built with the given twconfig object.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param packageJSON   The contents of the project's package.json file.
+     * @returns             A buffer containing the extension's zip archive.
+     */
+    static extensionPackage(twConfig: TWConfig, packageJSON: TWPackageJSON): Buffer {
+        return zipArchiveWithFiles(this.extensionPackageFiles(twConfig, packageJSON));
+    }
+
+    /**
+     * Writes the extension package built with the given twconfig object to a file named after the extension and its version.
+     * @param twConfig      The twconfig object whose store should be used.
+     * @param packageJSON   The contents of the project's package.json file.
+     * @param path          If specified, the folder to which the extension package is written. Otherwise, the
+     *                      extension package is written to the zip folder of the first project's root.
+     * @returns             The path to the extension package.
+     */
+    static writeExtensionPackage(twConfig: TWConfig, packageJSON: TWPackageJSON, path?: string): string {
+        const root = path || `${this.transformersOfStore(twConfig.store)[0]?.root || '.'}/zip`;
+
+        if (!fs.existsSync(`${root}`)) fs.mkdirSync(`${root}`);
+
+        const filename = `${root}/${this.extensionNameOfPackage(packageJSON)}-${packageJSON.version}.zip`;
+        fs.writeFileSync(filename, this.extensionPackage(twConfig, packageJSON));
+
+        return filename;
+    }
+
     /**
      * Returns an object that describes the XML structure of the given service's implementation.
      * @param service           The service.
@@ -4357,27 +7347,64 @@ finally {
         return implementation;
     }
 
+    /**
+     * Returns the services of this entity that are included in its API.
+     * @returns     An array of service definitions.
+     */
+    apiServices(): TWServiceDefinition[] {
+        return this.services.filter(service => !this.unexportedMembers.has(service.name));
+    }
+
+    /**
+     * Returns the fields of this data shape that are included in its API, including inherited fields.
+     * @returns     An array of data shape fields.
+     */
+    apiDataShapeFields(): TWDataShapeField[] {
+        return this.allDataShapeFields().filter(field => !this.unexportedMembers.has(field.name));
+    }
+
     /**
      * Exposed entities declarations
      * @returns API representation of the exposed entities
      */
     toAPIDeclaration(): string {
+        return this.recoverEmitDiagnostics(() => this._toAPIDeclaration(), '');
+    }
+
+    /**
+     * Exposed entities declarations
+     * @returns API representation of the exposed entities
+     */
+    private _toAPIDeclaration(): string {
         if (this.exported) {
+            const isExported = (member: {name: string}) => !this.unexportedMembers.has(member.name);
+
             if (this.entityKind == TWEntityKind.DataShape) {
                 return `export interface ${this.exportedName} {
-                    ${this.fields.map(f => APIGenerator.declarationOfProperty(f)).join('\n')}
+                    ${this.apiDataShapeFields().map(f => APIGenerator.declarationOfProperty(f)).join('\n')}
                 }`;
             }
-            else if (this.entityKind == TWEntityKind.Thing) {
-                return `export class ${this.exportedName} {
-                    ${this.services.map(f=> APIGenerator.declarationOfService(f)).join('\n')}
-                }
-                export interface Things {
+            else if (this.entityKind == TWEntityKind.Thing || this.entityKind == TWEntityKind.ThingTemplate || this.entityKind == TWEntityKind.ThingShape) {
+                // Inherit from the thing template and thing shapes that are also exported
+                const exportedNameOfEntity = (name: string) => {
+                    const transformer = TWThingTransformer.transformersOfStore(this.store).find(t => t.className == name || t.exportedName == name);
+                    return transformer?.exported ? transformer.exportedName : undefined;
+                };
+                const template = this.thingTemplateName && exportedNameOfEntity(this.thingTemplateName);
+                const shapes = this.thingShapes.map(exportedNameOfEntity).filter(shape => shape) as string[];
+
+                return `export class ${this.exportedName}${template ? ` extends ${template}` : ''} {
+                    ${this.properties.filter(isExported).map(p => APIGenerator.declarationOfProperty(p)).join('\n')}
+                    ${this.apiServices().map(f=> APIGenerator.declarationOfService(f)).join('\n')}
+                    ${this.events.filter(isExported).map(e => APIGenerator.declarationOfEvent(e)).join('\n')}
+                }
+                ${shapes.length ? `export interface ${this.exportedName} extends ${shapes.join(', ')} {}` : ''}
+                export interface ${this.entityKind}s {
                     "${this.exportedName}": ${this.exportedName};
                 }`;
             }
             else {
-                throw new Error('Only Things and DataShapes can be exposed in API');
+                throw new Error('Only Things, ThingTemplates, ThingShapes and DataShapes can be exposed in API');
             }
         }
         else {
@@ -4386,10 +7413,35 @@ finally {
     }
 
     /**
-     * Returns the XML entity representation of the file processed by this transformer.
+     * Returns the typed REST client class of the exported thing processed by this transformer, which has a method
+     * that invokes each of the thing's services.
+     * @returns     A typescript class declaration, or an empty string if this isn't an exported thing.
+     */
+    toAPIClient(): string {
+        if (!this.exported || this.entityKind != TWEntityKind.Thing) return '';
+
+        const dataShapes = TWThingTransformer.apiDataShapesOfStore(this.store);
+        return `
+export class ${this.exportedName!.replace(NonAlphanumericRegexGlobal, '_')}Client extends ThingworxClient {
+${this.apiServices().map(service => APIGenerator.clientMethodOfService(this.exportedName!, service, dataShapes)).join('')}
+}
+`;
+    }
+
+    /**
+     * Returns the XML entity representation of the file processed by this transformer. When diagnostics are
+     * collected, the errors reported while generating the XML are recorded and an empty string is returned.
      * @return      An XML.
      */
     toXML(): string {
+        return this.recoverEmitDiagnostics(() => this._toXML(), '');
+    }
+
+    /**
+     * Returns the XML entity representation of the file processed by this transformer.
+     * @return      An XML.
+     */
+    private _toXML(): string {
         const XML = {} as any;
 
         if (this.entityKind == TWEntityKind.DataShape) return this.toDataShapeXML();
@@ -4398,6 +7450,14 @@ finally {
 
         if (this.entityKind == TWEntityKind.Organization) return this.toOrganizationXML();
 
+        if (this.entityKind == TWEntityKind.Mashup) return this.toMashupXML();
+
+        if (this.entityKind == TWEntityKind.LocalizationTable) return this.toLocalizationTableXML();
+
+        if (this.entityKind == TWEntityKind.ModelTag || this.entityKind == TWEntityKind.DataTag) return this.toVocabularyXML();
+
+        if (this.entityKind == TWEntityKind.StyleDefinition || this.entityKind == TWEntityKind.StateDefinition) return this.toStyleOrStateDefinitionXML();
+
         const collectionKind = this.entityKind + 's';
         const entityKind = this.entityKind;
         
@@ -4412,8 +7472,7 @@ finally {
 
         if (this.projectName) entity.$.projectName = this.projectName;
 
-        // Tags are yet unsupported
-        entity.$.tags = '';
+        entity.$.tags = this.tags.join(';');
 
         if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
         if (this.description) entity.$.description = this.description;
@@ -4907,6 +7966,96 @@ finally {
         return (new Builder()).buildObject(XML);
     }
 
+    /**
+     * For derived data shapes, returns the transformer of the base data shape if it is part of this project.
+     * @returns         A transformer, or `undefined` if the base data shape is not part of this project.
+     */
+    baseDataShapeTransformer(): TWThingTransformer | undefined {
+        if (!this.baseDataShapeName) return;
+
+        const store = this.store || global._TWEntities || {};
+        const dataShapes = TWThingTransformer.transformersOfStore(store).filter(t => t.entityKind == TWEntityKind.DataShape);
+
+        return dataShapes.find(t => t.className == this.baseDataShapeName) || dataShapes.find(t => t.exportedName == this.baseDataShapeName);
+    }
+
+    /**
+     * Set to `true` after the ordinals of this data shape's fields have been assigned.
+     */
+    _dataShapeOrdinalsAssigned = false;
+
+    /**
+     * For data shapes, generates the ordinal values of the fields if enabled, then validates
+     * the ordinals and primary keys against the fields of the base data shape, if it is part of this project.
+     */
+    assignDataShapeOrdinals() {
+        if (this._dataShapeOrdinalsAssigned) return;
+        this._dataShapeOrdinalsAssigned = true;
+
+        const baseDataShape = this.baseDataShapeTransformer();
+        const inheritedFields = baseDataShape ? baseDataShape.allDataShapeFields() : [];
+
+        // Generated ordinals for derived data shapes start after the inherited fields
+        let ordinal = 0;
+        if (baseDataShape) {
+            ordinal = inheritedFields.reduce((max, field) => Math.max(max, (field.ordinal ?? -1) + 1), inheritedFields.length);
+        }
+        else {
+            ordinal = this.inheritedFieldNames.length;
+        }
+
+        for (const field of this.fields) {
+            if (this.autoGenerateDataShapeOrdinals && !('ordinal' in <any>field)) {
+                field.ordinal = ordinal;
+            }
+
+            ordinal++;
+        }
+
+        if (!baseDataShape) return;
+
+        // When diagnostics are collected, an invalid field shouldn't prevent the others from being validated
+        for (const field of this.fields) this.recoverDiagnostics(() => {
+            const fieldNode = this.classNode?.members.find(m => m.name?.getText() == field.name) || this.classNode!;
+
+            if (field.ordinal !== undefined) {
+                const inheritedField = inheritedFields.find(f => f.ordinal === field.ordinal);
+                if (inheritedField) {
+                    this.throwErrorForNode(fieldNode, `The ordinal ${field.ordinal} of field "${field.name}" is already used by the inherited field "${inheritedField.name}".`);
+                }
+            }
+
+            // Primary keys are inherited from the base data shape and cannot be redefined
+            if (field.aspects.isPrimaryKey && inheritedFields.some(f => f.aspects.isPrimaryKey)) {
+                this.throwErrorForNode(fieldNode, `The field "${field.name}" cannot be a primary key because the base data shape "${this.baseDataShapeName}" already defines a primary key.`);
+            }
+        }, undefined);
+    }
+
+    /**
+     * For data shapes, returns `true` if this data shape and all of the data shapes it inherits from that are part
+     * of this project have been visited, in which case the ordinals of its fields can be assigned.
+     * @returns         `true` if the data shape's hierarchy is complete, `false` otherwise.
+     */
+    hasCompleteDataShapeHierarchy(): boolean {
+        const baseDataShape = this.baseDataShapeTransformer();
+        if (!baseDataShape) return !this.baseDataShapeInProject;
+
+        return baseDataShape.hasCompleteDataShapeHierarchy();
+    }
+
+    /**
+     * For data shapes, returns all of the fields of this data shape, including the fields inherited from
+     * base data shapes that are part of this project.
+     * @returns         An array of fields.
+     */
+    allDataShapeFields(): TWDataShapeField[] {
+        this.assignDataShapeOrdinals();
+
+        const baseDataShape = this.baseDataShapeTransformer();
+        return (baseDataShape ? baseDataShape.allDataShapeFields() : []).concat(this.fields);
+    }
+
     /**
      * Returns the XML data shape entity representation of the file processed by this transformer.
      * @return      An XML.
@@ -4920,7 +8069,9 @@ finally {
         XML.Entities = {};
         XML.Entities[collectionKind] = [];
         XML.Entities[collectionKind][0] = {};
-        XML.Entities[collectionKind][0][entityKind] = [{$:{baseDataShape: this.thingTemplateName || ''}}];
+        // The base data shape must be referenced by its exported name
+        const baseDataShape = this.baseDataShapeTransformer();
+        XML.Entities[collectionKind][0][entityKind] = [{$:{baseDataShape: baseDataShape?.exportedName || this.baseDataShapeName || ''}}];
         
         const entity = XML.Entities[collectionKind][0][entityKind][0];
 
@@ -4929,25 +8080,18 @@ finally {
         if (this.projectName) entity.$.projectName = this.projectName;
         if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
 
-        // Tags are yet unsupported
-        entity.$.tags = '';
+        entity.$.tags = this.tags.join(';');
 
         if (this.description) entity.$.description = this.description;
 
         entity.FieldDefinitions = [{FieldDefinition: []}];
         const fieldDefinitions = entity.FieldDefinitions[0].FieldDefinition as any[];
 
-        let ordinal = 0;
+        this.assignDataShapeOrdinals();
 
         for (const field of this.fields) {
             const fieldDefinition = {$:{}} as any;
 
-            if (this.autoGenerateDataShapeOrdinals && !('ordinal' in <any>field)) {
-                field.ordinal = ordinal;
-            }
-
-            ordinal++;
-            
             for (const key in field) {
                 if (key == 'aspects') continue;
 
@@ -5010,8 +8154,7 @@ finally {
             if (this.projectName) entity.$.projectName = this.projectName;
             if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
     
-            // Tags are yet unsupported
-            entity.$.tags = '';
+            entity.$.tags = this.tags.join(';');
     
             if (this.users[user].description) entity.$.description = this.users[user].description;
 
@@ -5122,8 +8265,7 @@ finally {
             if (this.projectName) entity.$.projectName = this.projectName;
             if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
     
-            // Tags are yet unsupported
-            entity.$.tags = '';
+            entity.$.tags = this.tags.join(';');
     
             if (this.userGroups[group].description) entity.$.description = this.userGroups[group].description;
 
@@ -5189,8 +8331,7 @@ finally {
         if (this.projectName) entity.$.projectName = this.projectName;
         if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
 
-        // Tags are yet unsupported
-        entity.$.tags = '';
+        entity.$.tags = this.tags.join(';');
 
         if (this.description) entity.$.description = this.description;
 
@@ -5231,6 +8372,185 @@ finally {
         return (new Builder()).buildObject(XML);
     }
 
+    /**
+     * Returns the XML mashup entity representation of the file processed by this transformer.
+     * @return      An XML.
+     */
+    private toMashupXML(): string {
+        const XML = {} as any;
+
+        XML.Entities = {};
+        XML.Entities.Mashups = [{Mashup: [{$: {}}]}];
+
+        const entity = XML.Entities.Mashups[0].Mashup[0];
+
+        entity.$.name = this.exportedName;
+
+        if (this.projectName) entity.$.projectName = this.projectName;
+        if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
+
+        entity.$.tags = this.tags.join(';');
+
+        if (this.description) entity.$.description = this.description;
+
+        entity.$['aspect.isFlex'] = false;
+        entity.$['aspect.isResponsive'] = !!this.mashupRootWidget!.Properties.ResponsiveLayout;
+        entity.$['aspect.mashupType'] = 'mashup';
+        entity.$.columns = 0;
+        entity.$.rows = 0;
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        const mashupContent = {
+            Data: this.mashupDataSources,
+            DataBindings: this.mashupBindings,
+            Events: this.mashupEvents,
+            UI: this.mashupRootWidget,
+            mashupType: 'mashup'
+        };
+
+        entity.mashupContent = [JSON.stringify(mashupContent)];
+
+        if (this.runtimePermissions.runtime) {
+            entity.RunTimePermissions = [{Permissions: []}];
+
+            for (const resource in this.runtimePermissions.runtime) {
+                const permissionDefinition = {$: {resourceName: resource}};
+
+                for (const permission in this.runtimePermissions.runtime[resource]) {
+                    const principals = this.runtimePermissions.runtime[resource][permission].map(p => ({$: {name: p.principal, type: p.type, isPermitted: p.isPermitted}}));
+                    permissionDefinition[permission] = [{Principal: principals}];
+                }
+
+                entity.RunTimePermissions[0].Permissions.push(permissionDefinition);
+            }
+        }
+
+        if (this.visibilityPermissions.length) {
+            entity.VisibilityPermissions = [{Visibility: []}];
+            entity.VisibilityPermissions[0].Visibility[0] = {Principal: this.visibilityPermissions.map(p => ({$: p}))};
+        }
+
+        return (new Builder({cdata: true})).buildObject(XML);
+    }
+
+    /**
+     * Returns the XML style or state definition entity representation of the file processed by this transformer.
+     * @return      An XML.
+     */
+    private toStyleOrStateDefinitionXML(): string {
+        const XML = {} as any;
+
+        const collectionKind = this.entityKind + 's';
+        const entityKind = this.entityKind;
+
+        XML.Entities = {};
+        XML.Entities[collectionKind] = [{[entityKind]: [{$: {}}]}];
+
+        const entity = XML.Entities[collectionKind][0][entityKind][0];
+
+        entity.$.name = this.exportedName;
+
+        if (this.projectName) entity.$.projectName = this.projectName;
+        if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
+
+        entity.$.tags = this.tags.join(';');
+
+        if (this.description) entity.$.description = this.description;
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        if (this.entityKind == TWEntityKind.StyleDefinition) {
+            entity.content = [JSON.stringify({...StyleDefinitionDefaults, ...this.styleProperties})];
+        }
+        else {
+            // A state definition whose states have no values is considered to be numeric
+            const stateDefinitionType = this.states.some(s => typeof s.defaultValue == 'string') ? 'string' : 'numeric';
+            entity.content = [JSON.stringify({stateDefinitionType, stateDefinitions: this.states})];
+        }
+
+        if (this.visibilityPermissions.length) {
+            entity.VisibilityPermissions = [{Visibility: []}];
+            entity.VisibilityPermissions[0].Visibility[0] = {Principal: this.visibilityPermissions.map(p => ({$: p}))};
+        }
+
+        return (new Builder({cdata: true})).buildObject(XML);
+    }
+
+    /**
+     * Returns the XML model or data tag vocabulary entity representation of the file processed by this transformer.
+     * @return      An XML.
+     */
+    private toVocabularyXML(): string {
+        const XML = {} as any;
+
+        const collectionKind = this.entityKind + 's';
+        const entityKind = this.entityKind;
+
+        XML.Entities = {};
+        XML.Entities[collectionKind] = [{[entityKind]: [{$: {}}]}];
+
+        const entity = XML.Entities[collectionKind][0][entityKind][0];
+
+        entity.$.name = this.exportedName;
+
+        if (this.projectName) entity.$.projectName = this.projectName;
+        if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
+
+        entity.$.tags = this.tags.join(';');
+
+        if (this.description) entity.$.description = this.description;
+
+        entity.$.isDynamic = this.isDynamicVocabulary;
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        entity.VocabularyTerms = [{VocabularyTerm: this.vocabularyTerms.map(t => ({$: {name: t.name, description: t.description || ''}}))}];
+
+        if (this.visibilityPermissions.length) {
+            entity.VisibilityPermissions = [{Visibility: []}];
+            entity.VisibilityPermissions[0].Visibility[0] = {Principal: this.visibilityPermissions.map(p => ({$: p}))};
+        }
+
+        return (new Builder()).buildObject(XML);
+    }
+
+    /**
+     * Returns the XML localization table entity representation of the file processed by this transformer.
+     * @return      An XML.
+     */
+    private toLocalizationTableXML(): string {
+        const XML = {} as any;
+
+        XML.Entities = {};
+        XML.Entities.LocalizationTables = [{LocalizationTable: [{$: {}}]}];
+
+        const entity = XML.Entities.LocalizationTables[0].LocalizationTable[0];
+
+        entity.$.name = this.exportedName;
+
+        if (this.projectName) entity.$.projectName = this.projectName;
+        if (this.editable) entity.$['aspect.isEditableExtensionObject'] = this.editable;
+
+        entity.$.tags = this.tags.join(';');
+
+        if (this.description) entity.$.description = this.description;
+
+        entity.$.languageCommon = this.languageCommon || this.exportedName;
+        entity.$.languageNative = this.languageNative || this.exportedName;
+
+        entity.Owner = [{$: {name: 'Administrator', type: 'User'}}];
+
+        entity.Rows = [{Row: this.localizationTokens.map(t => ({name: [t.name], value: [t.value]}))}];
+
+        if (this.visibilityPermissions.length) {
+            entity.VisibilityPermissions = [{Visibility: []}];
+            entity.VisibilityPermissions[0].Visibility[0] = {Principal: this.visibilityPermissions.map(p => ({$: p}))};
+        }
+
+        return (new Builder({cdata: true})).buildObject(XML);
+    }
+
     /**
      * @deprecated - Use `toDeclaration` instead.
      * 
@@ -5256,6 +8576,22 @@ finally {
                 const groups = `declare interface Groups { ${Object.values(this.userGroups).map(u => `${u.name}: GroupEntity;`).join(' ')} }\n\n`;
                 return users + groups;
             }
+            else if (this.entityKind == TWEntityKind.ModelTag || this.entityKind == TWEntityKind.DataTag) {
+                // The terms of dynamic vocabularies are not known at compile time
+                const terms = this.isDynamicVocabulary ? 'string' : (this.vocabularyTerms.map(t => JSON.stringify(t.name)).join(' | ') || 'never');
+                return `declare interface ${this.entityKind}s { ${JSON.stringify(this.exportedName)}: ${this.entityKind}Entity<${terms}> }\n\n`;
+            }
+            else if (this.entityKind == TWEntityKind.LocalizationTable) {
+                const tables = `declare interface ${this.entityKind}s { ${JSON.stringify(this.exportedName)}: ${this.entityKind}Entity }\n\n`;
+                const tokens = this.localizationTokens.map(t => {
+                    const documentation = t.description ? `/** ${t.description.replace(/\*\//g, '*\\/')} */ ` : '';
+                    return `${documentation}${JSON.stringify(t.name)}: string;`;
+                });
+                return tables + `declare interface LocalizationTokens { ${tokens.join(' ')} }\n\n`;
+            }
+            else if (this.entityKind == TWEntityKind.Mashup || this.entityKind == TWEntityKind.StyleDefinition || this.entityKind == TWEntityKind.StateDefinition) {
+                return `declare interface ${this.entityKind}s { ${JSON.stringify(this.exportedName)}: ${this.entityKind}Entity }\n\n`;
+            }
             else if (this.entityKind == TWEntityKind.Organization) {
                 return `declare interface ${this.entityKind}s { ${JSON.stringify(this.exportedName)}: ${this.entityKind}Entity<${this.orgUnits.map(u => JSON.stringify(u.name)).join(' | ') || 'string'}>}`;
             }
@@ -5318,6 +8654,22 @@ export { TWConfig, MethodHelpers };
 
 export * from './TWCoreTypes';
 
+/**
+ * Returns the last source file that is emitted when the whole program is emitted. Typescript emits the
+ * files in the order in which they appear in the program, skipping declaration and external library files.
+ * @param program       The program.
+ * @returns             The last emitted source file, or `undefined` if the program doesn't emit any file.
+ */
+function lastEmittedFileOfProgram(program: ts.Program): ts.SourceFile | undefined {
+    const sourceFiles = program.getSourceFiles();
+    for (let i = sourceFiles.length - 1; i >= 0; i--) {
+        const sourceFile = sourceFiles[i];
+        if (sourceFile.isDeclarationFile || program.isSourceFileFromExternalLibrary(sourceFile) || path.extname(sourceFile.fileName) == '.json') continue;
+
+        return sourceFile;
+    }
+}
+
 export function TWThingTransformerFactory(program: ts.Program, root: string, after: boolean = false, watch: boolean = false, project?: string | TWConfig) {
     return function TWThingTransformerFunction(context: ts.TransformationContext) {
         const transformer = new TWThingTransformer(program, context, root, after, watch);
@@ -5346,9 +8698,26 @@ export function TWThingTransformerFactory(program: ts.Program, root: string, aft
                 transformer.autoGenerateDataShapeOrdinals = project.autoGenerateDataShapeOrdinals || false;
                 transformer.store = project.store;
                 transformer.debug = project.debug;
+                transformer.coverage = project.coverage;
+                transformer.sourceMaps = project.sourceMaps;
+                transformer.bundleDependencies = project.bundleDependencies;
+                transformer.rhinoCompatibility = project.rhinoCompatibility === true ? {} : project.rhinoCompatibility || undefined;
+                transformer.minimumThingWorxVersion = project.minimumThingWorxVersion;
                 transformer.generateThingInstances = project.generateThingInstances;
                 transformer.methodHelpers = project.methodHelpers;
-                transformer.globalFunctionsEnabled = project.globalFunctions;
+                transformer.profile = project.profile === true ? {} : project.profile || undefined;
+                transformer.globalFunctionsEnabled = !!project.globalFunctions;
+                // Library functions can't reach the debugger and coverage state of the services calling them
+                transformer.globalFunctionsLibrary = project.globalFunctions == 'library' && !project.debug && !project.coverage;
+                transformer.collectDiagnostics = project.collectDiagnostics;
+
+                if (project.store) {
+                    TWThingTransformer.recoverEmitDiagnosticsOfConfig(project, () => TWThingTransformer.discoverMediaEntities(rootPath, transformer.projectName, project.store), undefined);
+
+                    if (project.collectDiagnostics && project.globalFunctions == 'library' && !transformer.globalFunctionsLibrary) {
+                        TWThingTransformer.recordDiagnosticOfStore(project.store, `Global functions are not compiled into libraries in ${project.debug ? 'debug' : 'coverage'} builds and are instead copied into the services that call them.`, ts.DiagnosticCategory.Warning);
+                    }
+                }
             }
         }
     
@@ -5359,7 +8728,7 @@ export function TWThingTransformerFactory(program: ts.Program, root: string, aft
                 return node;
             }
 
-            if (!after && transformer.debug) {
+            if (!after && (transformer.debug || transformer.coverage)) {
                 // When running in debug mode, a different transformer may have already visited parts of this
                 // transformer's file and added debug information to it
                 // If that has happened, load the debug state saved by that transformer
@@ -5373,7 +8742,20 @@ export function TWThingTransformerFactory(program: ts.Program, root: string, aft
                 }
             }
 
-            return ts.visitNode(node, node => transformer.visit(node))
+            const result = transformer.recoverDiagnostics(() => ts.visitNode(node, node => transformer.visit(node)), node);
+
+            // Data shapes are validated once the data shapes they inherit from have been visited
+            if (!after && transformer.store) {
+                TWThingTransformer.assignDataShapeOrdinalsOfStore(transformer.store);
+            }
+
+            // The references to other entities are validated once every file of the program was emitted; watch builds
+            // don't visit the members that make these references
+            if (after && !watch && typeof project == 'object' && project.store && node.fileName == lastEmittedFileOfProgram(program)?.fileName) {
+                TWThingTransformer.validateReferences(project, program);
+            }
+
+            return result;
         };
     }
 }
@@ -0,0 +1,114 @@
+import * as zlib from 'zlib';
+
+/**
+ * The lookup table used to compute CRC-32 checksums.
+ */
+const CRCTable = (() => {
+    const table: number[] = [];
+
+    for (let i = 0; i < 256; i++) {
+        let c = i;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table.push(c >>> 0);
+    }
+
+    return table;
+})();
+
+/**
+ * Returns the CRC-32 checksum of the given data.
+ * @param data      The data whose checksum should be computed.
+ * @returns         The checksum.
+ */
+function crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF;
+
+    for (let i = 0; i < data.length; i++) {
+        crc = CRCTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Returns the given date in the MS-DOS format used by zip archives.
+ * @param date      The date.
+ * @returns         An object containing the date and time components.
+ */
+function dosTimeOfDate(date: Date): {time: number, date: number} {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Returns a zip archive containing the given files. Each file is compressed using deflate.
+ * @param files     An object whose keys are the paths of the files in the archive and whose
+ *                  values are their contents.
+ * @param date      Defaults to the current date. The modification date to assign to the files.
+ * @returns         A buffer containing the archive.
+ */
+export function zipArchiveWithFiles(files: Record<string, Buffer | string>, date: Date = new Date()): Buffer {
+    const localEntries: Buffer[] = [];
+    const centralEntries: Buffer[] = [];
+    const {time, date: day} = dosTimeOfDate(date);
+    let offset = 0;
+
+    for (const name in files) {
+        const content = Buffer.isBuffer(files[name]) ? files[name] as Buffer : Buffer.from(files[name] as string, 'utf8');
+        const compressed = zlib.deflateRawSync(content);
+        const filename = Buffer.from(name.replace(/\\/g, '/'), 'utf8');
+        const checksum = crc32(content);
+
+        // The local file header, followed by the file name and data
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034B50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(day, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(content.length, 22);
+        local.writeUInt16LE(filename.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        localEntries.push(local, filename, compressed);
+
+        // The central directory header, which references the local header
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014B50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(day, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(content.length, 24);
+        central.writeUInt16LE(filename.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        centralEntries.push(central, filename);
+
+        offset += local.length + filename.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralEntries);
+    const count = Object.keys(files).length;
+
+    // The end of central directory record
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0);
+    end.writeUInt16LE(count, 8);
+    end.writeUInt16LE(count, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localEntries, centralDirectory, end]);
+}
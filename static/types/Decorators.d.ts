@@ -40,6 +40,24 @@ declare function valueStream(stream: KeysOfType<Things, ValueStream>): <T extend
  */
 declare function exportName(identifier: string): <T extends new (...args) => any>(target: T) => void;
 
+/**
+ * Specifies the language names of a localization table.
+ * @param common        The name of the language, in english.
+ * @param native        The name of the language, in that language.
+ */
+declare function language(common: string, native: string): <T extends new (...args) => LocalizationTableBase>(target: T) => void;
+
+/**
+ * Applies the given model tags to this entity.
+ * @param tags          The tags to apply, in the `Vocabulary:Term` format.
+ */
+declare function tags(...tags: ModelTag[]): <T extends new (...args) => any>(target: T) => void;
+
+/**
+ * Makes the vocabulary dynamic, allowing terms to be added to it when tagging entities or data.
+ */
+declare function dynamic<K extends new (...args) => ModelTagVocabularyBase | DataTagVocabularyBase>(target: K);
+
 /**
  * Applies the given identifier to this Thing class.
  * @param identifier    The identigier to use.
@@ -188,6 +206,27 @@ declare function override<T extends GenericThing>(target: T, key: string, descri
  */
 declare function deploy<T extends GenericThing>(target: T, key: string, descriptor: TypedPropertyDescriptor<(...args: any[]) => any>): void;
 
+/**
+ * When applied to a method, the method is not emitted as a service. Instead it is compiled into a local function
+ * that is copied into the services and subscriptions that call it through `this` or `me`.
+ * Methods declared as `private` are treated in the same way.
+ */
+declare function helper<T extends GenericThing>(target: T, key: string, descriptor: TypedPropertyDescriptor<(...args: any[]) => any>): void;
+
+/**
+ * In profiled builds, causes the service or subscription it is applied to to record its entry, exit, duration,
+ * arguments and thrown errors. When applied to a class, this applies to all of its services and subscriptions.
+ */
+declare function traced<T extends GenericThing>(target: T, key: string, descriptor: TypedPropertyDescriptor<(...args: any[]) => any>): void;
+declare function traced<K extends new (...args) => GenericThing>(target: K): void;
+
+/**
+ * In profiled builds, prevents the service or subscription it is applied to from being instrumented.
+ * When applied to a class, this applies to all of its services and subscriptions.
+ */
+declare function untraced<T extends GenericThing>(target: T, key: string, descriptor: TypedPropertyDescriptor<(...args: any[]) => any>): void;
+declare function untraced<K extends new (...args) => GenericThing>(target: K): void;
+
 /**
  * Marks the template literal or service it is applied to as a SQL command.
  * When used as a decorator, it can only be applied to services of an entity that extends the `Database`
@@ -393,6 +432,9 @@ declare function visibleInstance(...args: (OrganizationEntity)[]): <T extends ne
 /**
  * **EXPERIMENTAL**
  * 
- * Causes the given entity to be exposed and used in the API type generation
+ * Causes the given entity to be exposed and used in the API type generation. When applied to a property,
+ * service or event of an exported entity as `@exported(false)`, excludes that member from the API.
  */
 declare function exported<K extends new (...args) => GenericThing | DataShapeBase>(target: K);
+declare function exported<T extends GenericThing | DataShapeBase>(target: T, key: string, descriptor?: PropertyDescriptor): void;
+declare function exported(exported: boolean): <T extends GenericThing | DataShapeBase>(target: T, key: string, descriptor?: PropertyDescriptor) => void;
@@ -4403,7 +4403,13 @@ declare class ThingTemplateEntity<T extends GenericThing> extends RootEntity {
 
 
 
-declare class ModelTagEntity extends RootEntity {
+declare class ModelTagEntity<T extends string = string> extends RootEntity {
+
+	/**
+	 * A field that is used to provide compile time information about the terms that are available in this
+	 * vocabulary. You should not access this value at runtime.
+	 */
+	__terms: T;
 
 	/**
 	 * Get the outgoing dependencies as a network
@@ -5032,6 +5038,11 @@ declare class ModelTagEntity extends RootEntity {
 }
 
 
+declare class DataTagEntity<T extends string = string> extends ModelTagEntity<T> {
+
+}
+
+
 
 declare class LogEntity extends RootEntity {
 
@@ -15249,6 +15260,12 @@ declare interface ModelTags {
 
 declare const ModelTags: ModelTags;
 
+declare interface DataTags {
+
+}
+
+declare const DataTags: DataTags;
+
 declare interface Logs {
 
 	/**
@@ -1478,7 +1478,7 @@ declare class RuntimeLocalizationFunctions extends ResourceEntity {
 	 * @param token Token
 	 * @return Localization tokens
 	 */
-	GetEffectiveTokenForLanguage(args?:{language?: STRING, token?: STRING}): STRING;
+	GetEffectiveTokenForLanguage(args?:{language?: STRING, token?: LOCALIZATIONTOKENNAME}): STRING;
 
 	/**
 	 * Get the current service definitions for this thing
@@ -1522,7 +1522,7 @@ declare class RuntimeLocalizationFunctions extends ResourceEntity {
 	 * @param token Token
 	 * @return Localization tokens
 	 */
-	GetEffectiveToken(args?:{token?: STRING}): STRING;
+	GetEffectiveToken(args?:{token?: LOCALIZATIONTOKENNAME}): STRING;
 
 	/**
 	 * Delete all rows from a multi-row configuration table
@@ -1,6 +1,12 @@
 declare const _isThingShape: unique symbol;
 declare const _isDataShape: unique symbol;
 declare const _isOrganization: unique symbol;
+declare const _isLocalizationTable: unique symbol;
+declare const _isModelTagVocabulary: unique symbol;
+declare const _isDataTagVocabulary: unique symbol;
+declare const _isStyleDefinition: unique symbol;
+declare const _isStateDefinition: unique symbol;
+declare const _isStateDefinitionState: unique symbol;
 
 declare class ThingShapeBase extends GenericThing {
     private [_isThingShape]: true;
@@ -16,6 +22,130 @@ declare class OrganizationBase {
     units: OrganizationUnit;
 }
 
+declare class LocalizationTableBase {
+    private [_isLocalizationTable]: true;
+}
+
+/**
+ * An interface containing the tokens declared in the project's localization tables.
+ */
+declare interface LocalizationTokens {}
+
+declare class ModelTagVocabularyBase {
+    private [_isModelTagVocabulary]: true;
+}
+
+declare class DataTagVocabularyBase {
+    private [_isDataTagVocabulary]: true;
+}
+
+declare class StyleDefinitionBase {
+    private [_isStyleDefinition]: true;
+
+    /**
+     * The name of the media entity used as an image.
+     */
+    image?: string;
+
+    /**
+     * The background color, as a hex color string.
+     */
+    backgroundColor?: string;
+
+    /**
+     * The secondary background color used for gradients, as a hex color string.
+     */
+    secondaryBackgroundColor?: string;
+
+    /**
+     * The text color, as a hex color string.
+     */
+    foregroundColor?: string;
+
+    /**
+     * The text size. Must be one of `"xsmall"`, `"small"`, `"normal"`, `"large"`, `"xlarge"` or `"xxlarge"`.
+     */
+    textSize?: string;
+
+    /**
+     * Whether the text is bold.
+     */
+    fontEmphasisBold?: boolean;
+
+    /**
+     * Whether the text is italic.
+     */
+    fontEmphasisItalic?: boolean;
+
+    /**
+     * Whether the text is underlined.
+     */
+    fontEmphasisUnderline?: boolean;
+
+    /**
+     * The border color, as a hex color string.
+     */
+    lineColor?: string;
+
+    /**
+     * The border style. Must be one of `"solid"`, `"dotted"` or `"dashed"`.
+     */
+    lineStyle?: string;
+
+    /**
+     * The border thickness, in pixels.
+     */
+    lineThickness?: number;
+
+    /**
+     * A display string associated with this style.
+     */
+    displayString?: string;
+}
+
+declare class StateDefinitionBase {
+    private [_isStateDefinition]: true;
+}
+
+/**
+ * Represents a state in a state definition.
+ */
+declare class StateDefinitionState {
+    private [_isStateDefinitionState]: true;
+}
+
+/**
+ * A utility function that can be used to declare a state in a state definition.
+ * You should not invoke this function at runtime.
+ * @param value         The value of the state. For numeric states, values must be specified in ascending order.
+ * @param style         The name of the style definition to use for this state.
+ * @param comparator    For numeric states, the comparator used with the value. Defaults to `"<="`.
+ */
+declare function State(value: NUMBER | STRING, style: STYLEDEFINITIONNAME, comparator?: '<' | '<='): StateDefinitionState;
+
+/**
+ * A utility function that can be used to declare the state used for values that don't match
+ * any other state in a state definition. This must be the last state of the state definition.
+ * You should not invoke this function at runtime.
+ * @param style         The name of the style definition to use for this state.
+ */
+declare function DefaultState(style: STYLEDEFINITIONNAME): StateDefinitionState;
+
+/**
+ * Represents a term in a model or data tag vocabulary.
+ */
+declare type Term = undefined;
+
+/**
+ * A model tag, in the `Vocabulary:Term` format, whose vocabulary and term are declared in the `ModelTags` collection.
+ */
+declare type ModelTag = {[K in keyof ModelTags]: `${K & string}:${ModelTags[K]['__terms']}`}[keyof ModelTags];
+
+/**
+ * A data tag, in the `Vocabulary:Term` format, whose vocabulary and term are declared in the `DataTags` collection.
+ */
+declare type DataTag = {[K in keyof DataTags]: `${K & string}:${DataTags[K]['__terms']}`}[keyof DataTags];
+
 declare interface OrganizationUnit {
 
     /**
@@ -476,12 +606,12 @@ type BASETYPENAME = string;
 type USERNAME = keyof Users;
 type GROUPNAME = keyof Groups;
 type CATEGORYNAME = string;
-type STATEDEFINITIONNAME = keyof StateDefinitions;
-type STYLEDEFINITIONNAME = keyof StyleDefinitions;
+type STATEDEFINITIONNAME<T extends keyof StateDefinitions = keyof StateDefinitions> = T;
+type STYLEDEFINITIONNAME<T extends keyof StyleDefinitions = keyof StyleDefinitions> = T;
 type MODELTAGVOCABULARYNAME = string;
 type DATATAGVOCABULARYNAME = string;
 type NETWORKNAME = string;
-type MEDIAENTITYNAME = keyof MediaEntities;
+type MEDIAENTITYNAME<T extends keyof MediaEntities = keyof MediaEntities> = T;
 type APPLICATIONKEYNAME = keyof ApplicationKeys;
 type LOCALIZATIONTABLENAME = keyof LocalizationTables;
 type ORGANIZATIONNAME = keyof Organizations;
@@ -494,6 +624,12 @@ type VEC3 = string;
 type VEC4 = string;
 type THINGCODE = string;
 type THINGGROUPNAME = string;
+
+/**
+ * The name of a localization token. When the project contains localization tables, this is restricted
+ * to the tokens declared in those tables.
+ */
+type LOCALIZATIONTOKENNAME = [keyof LocalizationTokens] extends [never] ? string : keyof LocalizationTokens;
 type NOTIFICATIONCONTENTNAME = string;
 type NOTIFICATIONDEFINITIONNAME = string;
 type EVENT<T> = T extends keyof DataShapes ? ({[_event]: true}) & ((eventData?: Partial<DataShapes[T]['__dataShapeType']>) => void) : ({[_event]: true}) & ((eventData?: Partial<T>) => void);
@@ -616,6 +752,12 @@ declare function DataThing<D extends DataShapeBase>(type: Constructor<RemoteData
  */
 declare function ThingTemplateReference<K extends keyof ThingTemplates>(name: K): new (...args: any[]) => ThingTemplates[K]["__thingTemplateType"];
 
+/**
+ * Allows referencing data shapes with non-standard names in extends clauses.
+ * @param name  The name of the DataShape
+ */
+declare function DataShapeReference<K extends keyof DataShapes>(name: K): new (...args: any[]) => DataShapes[K]["__dataShapeType"];
+
 // #region TS mixin
 
 declare function ThingTemplateWithShapes<
@@ -741,4 +883,99 @@ type CreateThingType = (args?: {
     tags?: TAGS
 }) => NOTHING;
 
-// #endregion
\ No newline at end of file
+// #endregion
+// #region Mashups
+
+declare const _isMashup: unique symbol;
+declare const _mashupBinding: unique symbol;
+
+/**
+ * The base class for mashups whose widgets are described in TSX.
+ */
+declare abstract class MashupBase {
+    private [_isMashup]: true;
+
+    /**
+     * Returns the widgets of this mashup. This method is only evaluated at compile time and must
+     * consist of a single return statement whose root element is a `mashup` element.
+     */
+    abstract render(): JSX.Element;
+}
+
+/**
+ * A service that can be invoked when a widget event is triggered.
+ */
+type MashupServiceReference = (...args: any[]) => any;
+
+/**
+ * The type of a binding between a widget property and a service.
+ */
+declare interface MashupBinding<T = any> {
+    [_mashupBinding]: T;
+}
+
+/**
+ * The types of values that can be assigned to widget properties.
+ */
+type MashupPropertyValue = string | number | boolean | MashupBinding | MashupServiceReference | MashupServiceReference[] | undefined;
+
+declare interface WidgetProperties {
+    /**
+     * The ID of the widget. If not specified, an ID is generated based on the widget type.
+     */
+    Id?: string;
+
+    [property: string]: MashupPropertyValue;
+}
+
+declare interface MashupWidgetProperties extends WidgetProperties {
+    /**
+     * The services to invoke when the mashup loads.
+     */
+    Loaded?: MashupServiceReference | MashupServiceReference[];
+
+    /**
+     * Controls whether the mashup uses a responsive layout.
+     */
+    ResponsiveLayout?: boolean;
+}
+
+declare namespace JSX {
+    interface Element {}
+
+    interface IntrinsicElements {
+        /**
+         * The root element of a mashup.
+         */
+        mashup: MashupWidgetProperties;
+
+        /**
+         * Any other element represents a widget whose type is the element name.
+         */
+        [widgetType: string]: WidgetProperties;
+    }
+}
+
+/**
+ * Binds all rows returned by the given service to a widget property.
+ * You should not invoke this function at runtime.
+ * @param service   The service whose result should be bound.
+ */
+declare function AllData<S extends (...args: any[]) => InfoTable<any>>(service: S): MashupBinding<ReturnType<S>>;
+
+/**
+ * Binds the selected rows of the result of the given service to a widget property.
+ * You should not invoke this function at runtime.
+ * @param service   The service whose result should be bound.
+ */
+declare function SelectedRows<S extends (...args: any[]) => InfoTable<any>>(service: S): MashupBinding<ReturnType<S>>;
+
+/**
+ * Binds a widget property to a parameter of the given service.
+ * You should not invoke this function at runtime.
+ * @param service   The service.
+ * @param parameter The name of the parameter.
+ */
+declare function ServiceParameter<S extends (args?: any) => any>(service: S, parameter: keyof NonNullable<Parameters<S>[0]>): MashupBinding;
+
+// #endregion
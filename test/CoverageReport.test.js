@@ -0,0 +1,56 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { istanbulReportOfCoverage, lcovReportOfCoverage } = require('../dist');
+
+/**
+ * Coverage data for two files, in the format returned by the `GetCoverage` service of the coverage thing.
+ * The first line of `Thing.ts` contains two checkpoints, of which only one was executed.
+ */
+const Coverage = {
+    breakpoints: {
+        '/project/src/Thing.ts': [
+            {line: 3, column: 9, endLine: 3, endColumn: 20, locationID: 2},
+            {line: 1, column: 5, endLine: 1, endColumn: 10, locationID: 1},
+            {line: 1, column: 12, endLine: 1, endColumn: 30, locationID: 3}
+        ],
+        '/project/src/Other.ts': [
+            {line: 7, column: 1, locationID: 4}
+        ]
+    },
+    hits: {1: 0, 2: 4, 3: 2}
+};
+
+test('lcovReportOfCoverage reports the highest hit count of each line', () => {
+    assert.strictEqual(lcovReportOfCoverage(Coverage, '/project'), [
+        'TN:',
+        'SF:src/Thing.ts',
+        'DA:1,2',
+        'DA:3,4',
+        'LF:2',
+        'LH:2',
+        'end_of_record',
+        'TN:',
+        'SF:src/Other.ts',
+        'DA:7,0',
+        'LF:1',
+        'LH:0',
+        'end_of_record',
+        ''
+    ].join('\n'));
+});
+
+test('lcovReportOfCoverage keeps absolute paths without a root', () => {
+    assert.ok(lcovReportOfCoverage(Coverage).includes('SF:/project/src/Thing.ts\n'));
+    assert.strictEqual(lcovReportOfCoverage({breakpoints: {}, hits: {}}), '');
+});
+
+test('istanbulReportOfCoverage reports each checkpoint as a statement', () => {
+    const report = istanbulReportOfCoverage(Coverage, '/project');
+
+    assert.deepStrictEqual(Object.keys(report), ['src/Thing.ts', 'src/Other.ts']);
+    assert.deepStrictEqual(report['src/Thing.ts'].statementMap[1], {start: {line: 1, column: 4}, end: {line: 1, column: 9}});
+    assert.deepStrictEqual(report['src/Thing.ts'].s, {0: 4, 1: 0, 2: 2});
+    assert.deepStrictEqual(report['src/Other.ts'].statementMap[0], {start: {line: 7, column: 0}, end: {line: 7, column: 0}});
+});
@@ -0,0 +1,115 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { TWRuntime } = require('../dist');
+const { folderWithFiles, storeOfProject } = require('./project');
+
+/**
+ * The npm packages installed in the test project: an ES module package whose entry point re-exports
+ * its modules and a commonjs package that requires a JSON file.
+ */
+const Packages = {
+    'node_modules/esm-utils/package.json': JSON.stringify({name: 'esm-utils', module: 'index.js', type: 'module'}),
+    'node_modules/esm-utils/index.js': `
+export { upper, shout } from './strings.js';
+export { chunk } from './arrays.js';
+export { characters, countCharacters } from './characters.js';
+export * from './large.js';
+`,
+    'node_modules/esm-utils/strings.js': `
+export function upper(s) { return s.toUpperCase(); }
+export const shout = s => upper(s) + '!';
+export function unusedString() { return 'UNUSED_STRING'; }
+`,
+    'node_modules/esm-utils/arrays.js': `
+import { upper } from './index.js';
+const defaultSize = 2;
+export function chunk(array, size = defaultSize) {
+    const result = [];
+    for (let i = 0; i < array.length; i += size) result.push(array.slice(i, i + size));
+    return result;
+}
+export function upperAll(array) { return array.map(upper); }
+`,
+    'node_modules/esm-utils/characters.js': `
+export function characters(value) { return [...value]; }
+export function countCharacters(value) {
+    let count = 0;
+    for (const character of value) count++;
+    return count;
+}
+`,
+    'node_modules/esm-utils/large.js': `
+export const large = 'LARGE_MODULE';
+`,
+    'node_modules/cjs-lib/package.json': JSON.stringify({name: 'cjs-lib', main: 'lib.js'}),
+    'node_modules/cjs-lib/lib.js': `
+var data = require('./data.json');
+module.exports = function greet(name) { return data.greeting + ' ' + name; };
+`,
+    'node_modules/cjs-lib/data.json': JSON.stringify({greeting: 'hello'})
+};
+
+test('bundles the used exports of ES modules and whole commonjs modules', () => {
+    const store = storeOfProject(folderWithFiles({
+        ...Packages,
+        'modules.d.ts': `
+declare module 'esm-utils' {
+    export function shout(s: string): string;
+    export function chunk<T>(array: T[], size?: number): T[][];
+}
+declare module 'cjs-lib' {
+    export default function greet(name: string): string;
+}
+`,
+        'Thing.ts': `
+import { shout, chunk } from 'esm-utils';
+import greet from 'cjs-lib';
+
+@ThingDefinition
+class BundleThing extends GenericThing {
+    Run({name}: {name: STRING}): STRING {
+        return greet(shout(name)) + JSON.stringify(chunk([1, 2, 3]));
+    }
+}
+`
+    }), {bundleDependencies: true});
+
+    const bundle = store['@bundles'].BundleThing.Run;
+    assert.deepStrictEqual([...bundle.modules].sort(), ['cjs-lib/data.json', 'cjs-lib/lib.js', 'esm-utils/arrays.js', 'esm-utils/strings.js']);
+
+    const code = store.BundleThing.services.find(service => service.name == 'Run').code;
+    assert.ok(!code.includes('UNUSED_STRING'), 'unused exports are not bundled');
+    assert.ok(!code.includes('LARGE_MODULE'), 're-exported modules that are not used are not bundled');
+
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+    assert.strictEqual(runtime.Things.BundleThing.Run({name: 'a'}), 'hello A![[1,2],[3]]');
+});
+
+test('bundled code iterates over values that are not arrays', () => {
+    const store = storeOfProject(folderWithFiles({
+        ...Packages,
+        'modules.d.ts': `
+declare module 'esm-utils' {
+    export function characters(value: string): string[];
+    export function countCharacters(value: string): number;
+}
+`,
+        'Thing.ts': `
+import { characters, countCharacters } from 'esm-utils';
+
+@ThingDefinition
+class IterationThing extends GenericThing {
+    Run({value}: {value: STRING}): STRING {
+        return characters(value).join('-') + countCharacters(value);
+    }
+}
+`
+    }), {bundleDependencies: true});
+
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+    assert.strictEqual(runtime.Things.IterationThing.Run({value: 'abc'}), 'a-b-c3');
+});
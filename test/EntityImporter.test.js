@@ -0,0 +1,76 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { TWEntityImporter } = require('../dist');
+
+/**
+ * Returns the XML of a thing that has a script service with the given code.
+ * @param {string} code         The code of the service.
+ * @returns {string}            The XML.
+ */
+function xmlOfThingWithService(code) {
+    return `<Entities>
+    <Things>
+        <Thing name="Imported" thingTemplate="GenericThing" enabled="true">
+            <ThingShape>
+                <ServiceDefinitions>
+                    <ServiceDefinition name="Total" isAllowOverride="false" isLocalOnly="false" isOpen="false" isPrivate="false" aspect.isAsync="false">
+                        <ParameterDefinitions>
+                            <FieldDefinition name="count" baseType="NUMBER" ordinal="1"/>
+                        </ParameterDefinitions>
+                        <ResultType name="result" baseType="NUMBER" ordinal="0"/>
+                    </ServiceDefinition>
+                </ServiceDefinitions>
+                <ServiceImplementations>
+                    <ServiceImplementation name="Total" handlerName="Script">
+                        <ConfigurationTables>
+                            <ConfigurationTable name="Script" isMultiRow="false">
+                                <Rows><Row><code><![CDATA[${code}]]></code></Row></Rows>
+                            </ConfigurationTable>
+                        </ConfigurationTables>
+                    </ServiceImplementation>
+                </ServiceImplementations>
+            </ThingShape>
+        </Thing>
+    </Things>
+</Entities>`;
+}
+
+test('imports service code with the indentation of the method body', async () => {
+    const importer = new TWEntityImporter();
+    await importer.importXML(xmlOfThingWithService('\tvar total = me.base;\r\n\tfor (var i = 0; i < count; i++) {\r\n\t\ttotal += i;\r\n\t}\r\n\tresult = total;'));
+
+    assert.ok(importer.sourceFiles()['Things/Imported.ts'].includes([
+        '    Total({count}: {count?: NUMBER}): NUMBER {',
+        '        let result!: NUMBER;',
+        '        var total = this.base;',
+        '        for (var i = 0; i < count; i++) {',
+        '            total += i;',
+        '        }',
+        '        result = total;',
+        '        return result;',
+        '    }'
+    ].join('\n')), importer.sourceFiles()['Things/Imported.ts']);
+});
+
+test('removes the wrapper function of services generated by the transformer', () => {
+    const code = 'var result = (function () {\n    var total = me.base;\n    if (total) {\n        return total;\n    }\n    return 0;\n}).apply(me);';
+
+    assert.strictEqual(TWEntityImporter.methodBodyOfCode(code, 'NUMBER'), [
+        '        var total = me.base;',
+        '        if (total) {',
+        '            return total;',
+        '        }',
+        '        return 0;'
+    ].join('\n'));
+});
+
+test('declares me in services whose nested functions reference it', () => {
+    assert.strictEqual(TWEntityImporter.methodBodyOfCode('    items.forEach(function (item) {\n        me.Add({item: item});\n    });', 'NOTHING'), [
+        '        const me = this;',
+        '        items.forEach(function (item) {',
+        '            me.Add({item: item});',
+        '        });'
+    ].join('\n'));
+});
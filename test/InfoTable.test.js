@@ -0,0 +1,131 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { Builder, parseStringPromise } = require('xml2js');
+const { TWRuntimeInfoTable } = require('../dist');
+
+/**
+ * Returns an infotable containing a few rows with values of several base types.
+ * @returns {TWRuntimeInfoTable}        An infotable.
+ */
+function sampleInfoTable() {
+    const infotable = new TWRuntimeInfoTable({
+        name: {name: 'name', baseType: 'STRING', aspects: {isPrimaryKey: true}},
+        quantity: {name: 'quantity', baseType: 'NUMBER'},
+        available: {name: 'available', baseType: 'BOOLEAN'},
+        updated: {name: 'updated', baseType: 'DATETIME'},
+        details: {name: 'details', baseType: 'JSON'},
+        position: {name: 'position', baseType: 'LOCATION'},
+        tags: {name: 'tags', baseType: 'TAGS'}
+    });
+
+    infotable.AddRow({name: 'bolt', quantity: 10, available: true, updated: new Date(1000), details: {size: 'M4'}, position: {latitude: 45, longitude: 25, altitude: 100}, tags: 'Parts:Metal'});
+    infotable.AddRow({name: 'Nut', quantity: 5, available: false, updated: new Date(2000), details: {size: 'M6'}, position: {latitude: 46, longitude: 26, altitude: 0}, tags: 'Parts:Metal;Parts:Small'});
+    infotable.AddRow({name: 'washer', quantity: 5, available: true, updated: new Date(3000), details: [1, 2], position: {latitude: 50, longitude: 30, altitude: 0}, tags: ''});
+    infotable.AddRow({name: 'screw', available: true, updated: new Date(4000), details: null, position: {latitude: 45.001, longitude: 25, altitude: 0}, tags: 'Parts:Small'});
+
+    return infotable;
+}
+
+/**
+ * Returns the names of the rows in the given infotable.
+ * @param {TWRuntimeInfoTable} infotable    The infotable.
+ * @returns {string[]}                      An array of names.
+ */
+function namesOfInfoTable(infotable) {
+    return infotable.rows.toArray().map(row => row.name);
+}
+
+test('Query combines filters', () => {
+    const infotable = sampleInfoTable();
+
+    const result = infotable.Query({filters: {type: 'And', filters: [
+        {type: 'EQ', fieldName: 'available', value: true},
+        {type: 'Or', filters: [
+            {type: 'GT', fieldName: 'quantity', value: 5},
+            {type: 'LIKE', fieldName: 'name', value: 'WASH%'}
+        ]}
+    ]}});
+
+    assert.deepStrictEqual(namesOfInfoTable(result), ['bolt', 'washer']);
+    assert.strictEqual(infotable.getRowCount(), 4);
+});
+
+test('Query supports value, range and set filters', () => {
+    const infotable = sampleInfoTable();
+    const names = filters => namesOfInfoTable(infotable.Query({filters}));
+
+    assert.deepStrictEqual(names({type: 'Between', fieldName: 'updated', from: new Date(2000), to: new Date(3000)}), ['Nut', 'washer']);
+    assert.deepStrictEqual(names({type: 'NotBetween', fieldName: 'quantity', from: 6, to: 20}), ['Nut', 'washer', 'screw']);
+    assert.deepStrictEqual(names({type: 'IN', fieldName: 'name', values: ['bolt', 'screw']}), ['bolt', 'screw']);
+    assert.deepStrictEqual(names({type: 'NotIn', fieldName: 'name', values: ['bolt', 'screw']}), ['Nut', 'washer']);
+    assert.deepStrictEqual(names({type: 'MissingValue', fieldName: 'quantity'}), ['screw']);
+    assert.deepStrictEqual(names({type: 'Matches', fieldName: 'name', expression: '[a-z]+w'}), ['screw']);
+    assert.deepStrictEqual(names({type: 'EQ', fieldName: 'details', value: {size: 'M6'}}), ['Nut']);
+});
+
+test('Query supports tag and location filters', () => {
+    const infotable = sampleInfoTable();
+    const names = filters => namesOfInfoTable(infotable.Query({filters}));
+
+    assert.deepStrictEqual(names({type: 'TAGGED', fieldName: 'tags', tags: 'Parts:Small'}), ['Nut', 'screw']);
+    assert.deepStrictEqual(names({type: 'NotTagged', fieldName: 'tags', tags: [{vocabulary: 'Parts', vocabularyTerm: 'Metal'}]}), ['washer', 'screw']);
+    assert.deepStrictEqual(names({type: 'Near', fieldName: 'position', location: {latitude: 45, longitude: 25}, distance: 1, units: 'K'}), ['bolt', 'screw']);
+});
+
+test('Query sorts by multiple fields', () => {
+    const infotable = sampleInfoTable();
+
+    const ascending = infotable.Query({sorts: [{fieldName: 'quantity', isAscending: false}, {fieldName: 'name'}]});
+    assert.deepStrictEqual(namesOfInfoTable(ascending), ['bolt', 'Nut', 'washer', 'screw']);
+
+    const caseSensitive = infotable.Query({sorts: [{fieldName: 'name', isCaseSensitive: true}]});
+    assert.deepStrictEqual(namesOfInfoTable(caseSensitive), ['Nut', 'bolt', 'screw', 'washer']);
+
+    const caseInsensitive = infotable.Query({sorts: [{fieldName: 'name'}]});
+    assert.deepStrictEqual(namesOfInfoTable(caseInsensitive), ['bolt', 'Nut', 'screw', 'washer']);
+});
+
+test('Query rejects unknown filter types', () => {
+    assert.throws(() => sampleInfoTable().Query({filters: {type: 'Unknown', fieldName: 'name'}}), /Unknown query filter type/);
+});
+
+test('fromJSON restores the rows and data shape returned by toJSON', () => {
+    const infotable = sampleInfoTable();
+    const json = JSON.parse(JSON.stringify(infotable));
+    const copy = TWRuntimeInfoTable.fromJSON(json);
+
+    assert.deepStrictEqual(copy.getDataShape().toJSON(), infotable.getDataShape().toJSON());
+    assert.strictEqual(copy.getRowCount(), 4);
+    assert.strictEqual(copy[1].updated.getTime(), 2000);
+    assert.deepStrictEqual(copy[0].details, {size: 'M4'});
+    assert.deepStrictEqual(copy[0].position, {latitude: 45, longitude: 25, altitude: 100});
+});
+
+test('fromXML restores the values serialized by toXML', async () => {
+    const infotable = sampleInfoTable();
+    const nested = new TWRuntimeInfoTable({value: {name: 'value', baseType: 'STRING'}});
+    nested.AddRow({value: 'inner'});
+    infotable.AddField({name: 'parts', baseType: 'INFOTABLE'});
+    infotable[0].parts = nested;
+
+    const xml = new Builder().buildObject({InfoTable: infotable.toXML(true)});
+    const copy = TWRuntimeInfoTable.fromXML((await parseStringPromise(xml)).InfoTable);
+
+    assert.deepStrictEqual(Object.keys(copy.getDataShape().getFields()), Object.keys(infotable.getDataShape().getFields()));
+    assert.strictEqual(copy.getField('name').aspects.isPrimaryKey, 'true');
+
+    for (let i = 0; i < infotable.getRowCount(); i++) {
+        const row = copy[i], original = infotable[i];
+        assert.strictEqual(row.name, original.name);
+        assert.strictEqual(row.quantity, original.quantity);
+        assert.strictEqual(row.available, original.available);
+        assert.strictEqual(row.updated.getTime(), original.updated.getTime());
+        // Missing values are omitted from the XML rows
+        assert.deepStrictEqual(row.details, original.details ?? undefined);
+        assert.deepStrictEqual(row.position, original.position);
+    }
+
+    assert.deepStrictEqual(copy[0].parts.toJSON(), nested.toJSON());
+});
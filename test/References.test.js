@@ -0,0 +1,26 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { folderWithFiles, storeOfProject } = require('./project');
+
+/**
+ * A thing that subscribes to an event of a thing that is neither part of the project nor declared.
+ */
+const Files = {
+    'Thing.ts': `
+@ThingDefinition
+class Listener extends GenericThing {
+    @subscription('Missing', 'Changed') missingChanged(alertName: STRING, eventData: INFOTABLE, eventName: STRING, eventTime: DATETIME, source: STRING, sourceProperty: STRING) {}
+}
+`
+};
+
+test('dangling references fail the build', () => {
+    assert.throws(() => storeOfProject(folderWithFiles(Files)), /The thing "Missing" does not exist/);
+});
+
+test('dangling references are reported when diagnostics are collected', () => {
+    const store = storeOfProject(folderWithFiles(Files), {collectDiagnostics: true});
+    assert.deepStrictEqual(store['@diagnostics'].map(diagnostic => diagnostic.messageText), ['The thing "Missing" does not exist.']);
+});
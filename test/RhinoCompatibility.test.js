@@ -0,0 +1,89 @@
+'use strict';
+
+const assert = require('assert');
+const vm = require('vm');
+const { test } = require('node:test');
+const { TWRuntime, polyfillsOfRhinoFeatures } = require('../dist');
+const { folderWithFiles, storeOfProject } = require('./project');
+
+/**
+ * A thing whose service uses builtin functions that are missing from Rhino, both directly and through a global function.
+ */
+const Files = {
+    'Thing.ts': `
+@ThingDefinition
+class RhinoThing extends GenericThing {
+    Run({value}: {value: STRING}): STRING {
+        const pairs = Object.entries({a: value.repeat(2)});
+        return pairs.map(pair => pair.join('=')).join() + [1, 2].includes(2) + padded(value);
+    }
+}
+`,
+    'functions.ts': `
+function padded(value: string): string {
+    return value.padStart(4, '-');
+}
+`
+};
+
+/**
+ * The compiler options with which the project is built, whose library declares the builtin functions used by the thing.
+ */
+const CompilerOptions = {lib: ['lib.es2017.d.ts']};
+
+test('reports every unsupported builtin and keeps transforming the method', () => {
+    const store = storeOfProject(folderWithFiles(Files), {rhinoCompatibility: true, collectDiagnostics: true, globalFunctions: true}, CompilerOptions);
+
+    const messages = store['@diagnostics'].map(diagnostic => diagnostic.messageText.match(/^"([^"]+)"/)[1]);
+    assert.deepStrictEqual(messages.sort(), ['Array.prototype.includes', 'Object.entries', 'String.prototype.padStart', 'String.prototype.repeat']);
+
+    // The destructured parameters are still converted into service parameters
+    const code = store.RhinoThing.services.find(service => service.name == 'Run').code;
+    assert.ok(!code.includes('_a'), code);
+});
+
+test('replaces polyfilled builtins with local functions', () => {
+    const store = storeOfProject(folderWithFiles(Files), {rhinoCompatibility: {polyfills: true}, globalFunctions: true}, CompilerOptions);
+    assert.deepStrictEqual(store['@diagnostics'] || [], []);
+
+    const code = store.RhinoThing.services.find(service => service.name == 'Run').code;
+    assert.ok(code.includes('__polyfill_Object_entries({'), code);
+    assert.ok(code.includes('__polyfill_String_prototype_repeat.call(value, 2)'), code);
+    assert.ok(code.includes('__polyfill_Array_prototype_includes.call([1, 2], 2)'), code);
+    assert.ok(code.includes('__polyfill_String_prototype_padStart.call(value, 4'), code);
+    assert.ok(!code.includes('defineProperty'), 'builtin objects are not modified');
+
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+    assert.strictEqual(runtime.Things.RhinoThing.Run({value: 'ab'}), 'a=ababtrue--ab');
+});
+
+test('reports prototype methods that are not called directly', () => {
+    const store = storeOfProject(folderWithFiles({
+        'Thing.ts': `
+@ThingDefinition
+class RhinoThing extends GenericThing {
+    Run({values}: {values: STRING}): BOOLEAN {
+        const includes = values.includes;
+        return includes.call(values, 'a');
+    }
+}
+`
+    }), {rhinoCompatibility: {polyfills: true}, collectDiagnostics: true}, CompilerOptions);
+
+    assert.deepStrictEqual(store['@diagnostics'].map(diagnostic => diagnostic.messageText), [
+        '"String.prototype.includes" is not supported by the Rhino engine of ThingWorx and can only be polyfilled when it is called directly.'
+    ]);
+});
+
+test('polyfills are only used when the builtins are missing', () => {
+    const context = vm.createContext({});
+    vm.runInContext('delete Object.entries; delete Array.prototype.flat;', context);
+
+    const features = ['Object.entries', 'Array.prototype.flat'];
+    const result = vm.runInContext(`${polyfillsOfRhinoFeatures(features)}
+        [__polyfill_Object_entries({a: 1}), __polyfill_Array_prototype_flat.call([1, [2, [3]]], 2), typeof Object.entries, typeof [].flat]`, context);
+
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(result)), [[['a', 1]], [1, 2, 3], 'undefined', 'undefined']);
+    assert.strictEqual(vm.runInContext(`${polyfillsOfRhinoFeatures(['Object.values'])}\n__polyfill_Object_values`, context), vm.runInContext('Object.values', context));
+});
@@ -0,0 +1,144 @@
+'use strict';
+
+const assert = require('assert');
+const { test } = require('node:test');
+const { TWRuntime, TWThingTransformer } = require('../dist');
+const { folderWithFiles, storeOfProject } = require('./project');
+
+const store = storeOfProject(folderWithFiles({
+    'Item.ts': `
+class Item extends DataShapeBase {
+    @primaryKey name!: STRING;
+    quantity: NUMBER = 1;
+}
+`,
+    'CounterTemplate.ts': `
+@ThingTemplateDefinition
+class CounterTemplate extends GenericThing {
+    count: NUMBER = 3;
+    label: STRING = 'initial';
+    Changed!: EVENT<Item>;
+
+    Increment({step = 1}: {step?: NUMBER}): NUMBER {
+        this.count += step;
+        logger.info('Count is ' + this.count);
+        return this.count;
+    }
+
+    Items({names}: {names: STRING}): INFOTABLE<Item> {
+        const result = DataShapes.Item.CreateValues();
+        for (const name of names.split(',')) {
+            result.AddRow({name, quantity: name.length});
+        }
+        return result;
+    }
+
+    Notify({name}: {name: STRING}): NOTHING {
+        this.Changed({name, quantity: 2});
+    }
+
+    Total({names}: {names: STRING}): NUMBER {
+        let total = 0;
+        for (const row of Things.Warehouse.Stock({names})) {
+            total += row.quantity;
+        }
+        return total;
+    }
+
+    @localSubscription('DataChange', 'count') countChanged(alertName: STRING, eventData: INFOTABLE, eventName: STRING, eventTime: DATETIME, source: STRING, sourceProperty: STRING) {
+        this.label = 'changed to ' + eventData.newValue.value;
+    }
+}
+`,
+    'Counter.ts': `
+@ThingDefinition
+class Counter extends CounterTemplate {}
+`,
+    'Warehouse.d.ts': `
+declare interface Things { Warehouse: GenericThing & { Stock(params: {names: STRING}): INFOTABLE<Item> } }
+`
+}));
+
+test('runs services with default parameters and property values', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    const counter = runtime.Things.Counter;
+    assert.strictEqual(counter.count, 3);
+    assert.strictEqual(counter.Increment(), 4);
+    assert.strictEqual(counter.Increment({step: 3}), 7);
+    assert.deepStrictEqual(runtime.logs.map(log => log.message), ['Count is 4', 'Count is 7']);
+});
+
+test('dispatches data change events to subscriptions', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    runtime.Things.Counter.Increment({step: 2});
+
+    assert.strictEqual(runtime.Things.Counter.label, 'changed to 5');
+    assert.deepStrictEqual(runtime.firedEvents.map(event => [event.source, event.eventName, event.sourceProperty]), [
+        ['Counter', 'DataChange', 'count'],
+        ['Counter', 'DataChange', 'label']
+    ]);
+});
+
+test('records fired events with their data shape', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    runtime.Things.Counter.Notify({name: 'a'});
+
+    const event = runtime.firedEvents[0];
+    assert.strictEqual(event.eventName, 'Changed');
+    assert.deepStrictEqual(event.eventData.toJSON().rows, [{name: 'a', quantity: 2}]);
+});
+
+test('creates infotables from data shapes', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    const items = runtime.Things.Counter.Items({names: 'a,bcd'});
+    assert.strictEqual(items.getRowCount(), 2);
+    assert.deepStrictEqual(Object.keys(items.getDataShape().getFields()), ['name', 'quantity']);
+    assert.strictEqual(items[1].quantity, 3);
+});
+
+test('invokes mocked things and services', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    runtime.mockThing('Warehouse', {
+        Stock: ({names}) => runtime.DataShapes.Item.CreateValuesWithData({values: names.split(',').map(name => ({name, quantity: 10}))})
+    });
+    assert.strictEqual(runtime.Things.Counter.Total({names: 'a,b'}), 20);
+
+    runtime.mockService('Counter', 'Increment', () => -1);
+    assert.strictEqual(runtime.Things.Counter.Increment(), -1);
+});
+
+test('reset discards property values, logs and events', () => {
+    const runtime = new TWRuntime();
+    runtime.loadStore(store);
+
+    runtime.Things.Counter.Increment();
+    runtime.reset();
+
+    assert.strictEqual(runtime.Things.Counter.count, 3);
+    assert.deepStrictEqual(runtime.logs, []);
+    assert.deepStrictEqual(runtime.firedEvents, []);
+});
+
+test('loads property values from entity XML', async () => {
+    const breakpoints = {'/project/src/Thing.ts': [{line: 1, column: 1, locationID: 1}, {line: 2, column: 1, locationID: 2}]};
+
+    const runtime = new TWRuntime();
+    await runtime.loadXML(TWThingTransformer.projectCoverageThingXML('Test.Coverage', breakpoints, 'Test'));
+
+    const coverage = runtime.Things['Test.Coverage'];
+    coverage.RecordCoverage({hits: {1: 2}});
+    coverage.RecordCoverage({hits: {1: 1}});
+
+    // Objects created by services belong to the runtime's context, so they are compared through their JSON representation
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(coverage.GetCoverage())), {breakpoints, hits: {1: 3}});
+});
@@ -0,0 +1,60 @@
+'use strict';
+
+const assert = require('assert');
+const path = require('path');
+const { test } = require('node:test');
+const { TWThingTransformer } = require('../dist');
+const { folderWithFiles, storeOfProject } = require('./project');
+
+/**
+ * A service whose body has the same code as the global function it calls.
+ */
+const Files = {
+    'Thing.ts': `
+@ThingDefinition
+class MappedThing extends GenericThing {
+    Run({value}: {value: NUMBER}): NUMBER {
+        if (value > 1) return half(value / 2);
+        return value;
+    }
+}
+`,
+    'functions.ts': `
+function half(value: number): number {
+    if (value > 1) return half(value / 2);
+    return value;
+}
+`
+};
+
+/**
+ * Returns the original location of each line of the code of the given service.
+ * @param {object} store            The transformer store.
+ * @param {string} entityName       The name of the entity.
+ * @param {string} methodName       The name of the service.
+ * @returns {string[]}              The trimmed code of each mapped line, followed by its original file and line.
+ */
+function mappedLinesOfService(store, entityName, methodName) {
+    const code = store[entityName].services.find(service => service.name == methodName).code;
+
+    return code.split('\n').flatMap((line, index) => {
+        const location = TWThingTransformer.originalLocationOfScriptError(store['@sourceMaps'], entityName, methodName, index + 1);
+        return location ? [`${line.trim()} ${path.basename(location.filename)}:${location.line}`] : [];
+    });
+}
+
+test('maps the code of services and of the global functions inlined into them', () => {
+    const store = storeOfProject(folderWithFiles(Files), {sourceMaps: true, globalFunctions: true});
+
+    assert.deepStrictEqual(mappedLinesOfService(store, 'MappedThing', 'Run'), [
+        'var result = (function () {function half(value) { functions.ts:2',
+        'if (value > 1) functions.ts:3',
+        'return half(value / 2); functions.ts:3',
+        'return value; functions.ts:4',
+        '} functions.ts:5',
+        'if (value > 1) Thing.ts:5',
+        'return half(value / 2); Thing.ts:5',
+        'return value; Thing.ts:6',
+        '}).apply(me) Thing.ts:7'
+    ]);
+});
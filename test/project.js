@@ -0,0 +1,71 @@
+'use strict';
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+const { TWThingTransformerFactory } = require('../dist');
+
+/**
+ * The folder containing the declarations of the thingworx types used by thing files.
+ */
+const TypesFolder = path.join(__dirname, '..', 'static', 'types');
+
+/**
+ * The temporary folders created by the tests, which are removed when the tests finish.
+ */
+const TemporaryFolders = [];
+
+process.on('exit', () => {
+    for (const folder of TemporaryFolders) {
+        fs.rmSync(folder, {recursive: true, force: true});
+    }
+});
+
+/**
+ * Writes the given files into a new temporary folder.
+ * @param {Record<string, string>} files    The contents of each file, indexed by its path relative to the folder.
+ * @returns {string}                        The path to the folder.
+ */
+function folderWithFiles(files) {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'tw-test-'));
+    TemporaryFolders.push(root);
+
+    for (const [filename, contents] of Object.entries(files)) {
+        const filePath = path.join(root, filename);
+        fs.mkdirSync(path.dirname(filePath), {recursive: true});
+        fs.writeFileSync(filePath, contents);
+    }
+
+    return root;
+}
+
+/**
+ * Transforms the thing files in the given folder in the same way as the build, without writing
+ * any files, and returns the transformer store.
+ * @param {string} root                     The path to the project folder.
+ * @param {object} config                   Additional twconfig options to apply.
+ * @param {ts.CompilerOptions} options      Additional compiler options to apply.
+ * @returns {object}                        The transformer store.
+ */
+function storeOfProject(root, config = {}, options = {}) {
+    const files = ts.sys.readDirectory(root, ['.ts', '.tsx'], ['node_modules']).concat(ts.sys.readDirectory(TypesFolder, ['.d.ts']));
+    const program = ts.createProgram(files, {
+        target: ts.ScriptTarget.ES5,
+        experimentalDecorators: true,
+        downlevelIteration: true,
+        lib: ['lib.es5.d.ts'],
+        outDir: path.join(root, 'build'),
+        ...options
+    });
+
+    const project = {projectName: 'Test', store: {}, ...config};
+    program.emit(undefined, () => {}, undefined, false, {
+        before: [TWThingTransformerFactory(program, root, false, false, project)],
+        after: [TWThingTransformerFactory(program, root, true, false, project)]
+    });
+
+    return project.store;
+}
+
+module.exports = { folderWithFiles, storeOfProject };